@@ -1,16 +1,32 @@
+import { isTextNode, type Node } from '@kuumu/layouter/node';
 import {
   getScalingSystem,
   initializeScalingSystem,
   initializeUnitSystem,
 } from '@kuumu/layouter/scaling';
+import {
+  FocusManager,
+  NodeEventDispatcher,
+  type NodePointerEvent,
+  TextEditor,
+} from '@kuumu/three-js-layouter/group-factory';
+import * as THREE from 'three';
 import type { ExampleType } from './build-example';
 import { type CameraControllerConfig, CameraRouter, type ZoomConfig } from './camera-controller';
 import { ExampleLoader } from './example-loader';
 import { ExampleState } from './example-state';
 import { loadFont } from './load-font';
-import type { HeightMode, HorizontalAlignment, ProjectionType, VerticalAlignment } from './models';
+import type {
+  HeightMode,
+  HorizontalAlignment,
+  Justification,
+  ProjectionType,
+  TextRenderer,
+  ThemeName,
+  VerticalAlignment,
+} from './models';
 import type { InitParams } from './models/init-params';
-import { type SceneConfig, SceneManager } from './scene-manager';
+import { type RenderStats, type SceneConfig, SceneManager } from './scene-manager';
 
 export interface ApplicationConfig {
   scene: SceneConfig;
@@ -24,12 +40,20 @@ export class Application {
   private config: ApplicationConfig;
   private state: ExampleState;
   private exampleLoader: ExampleLoader;
+  private nodeEvents?: NodeEventDispatcher;
+  private textEditor?: TextEditor;
+  private focusManager?: FocusManager;
 
   constructor(config: ApplicationConfig, container: HTMLElement) {
     this.config = config;
     this.sceneManager = new SceneManager(config.scene, container);
     this.state = new ExampleState();
-    this.exampleLoader = new ExampleLoader(this.state, this.sceneManager);
+    // The camera is created once the application is initialized
+    this.exampleLoader = new ExampleLoader(
+      this.state,
+      this.sceneManager,
+      () => this.cameraRouter?.camera
+    );
 
     // Initialize scaling system
     initializeScalingSystem();
@@ -61,6 +85,8 @@ export class Application {
     await this.exampleLoader.reload();
 
     this.setupCameraCallbacks();
+    this.setupScrollListener();
+    this.setupNodeEvents();
     this.sceneManager.startRenderLoop(this.cameraRouter.camera);
 
     // Fix TextNode rendering issue by forcing a complete render cycle
@@ -71,6 +97,13 @@ export class Application {
 
   async switchExample(exampleType: ExampleType): Promise<void> {
     this.state.exampleType = exampleType;
+    this.state.documentNode = null;
+    await this.exampleLoader.reload();
+    this.logDebugInfo();
+  }
+
+  async loadDocument(node: Node): Promise<void> {
+    this.state.documentNode = node;
     await this.exampleLoader.reload();
     this.logDebugInfo();
   }
@@ -87,6 +120,18 @@ export class Application {
     this.logDebugInfo();
   }
 
+  async switchHorizontalJustification(justification: Justification): Promise<void> {
+    this.state.horizontalJustification = justification;
+    await this.exampleLoader.reload();
+    this.logDebugInfo();
+  }
+
+  async switchVerticalJustification(justification: Justification): Promise<void> {
+    this.state.verticalJustification = justification;
+    await this.exampleLoader.reload();
+    this.logDebugInfo();
+  }
+
   switchProjection(projection: ProjectionType): void {
     this.cameraRouter.switchProjection(projection, {
       camera: this.config.camera,
@@ -94,6 +139,7 @@ export class Application {
     });
 
     this.setupCameraCallbacks();
+    this.exampleLoader.updateVisibleArea();
     this.sceneManager.startRenderLoop(this.cameraRouter.camera);
     this.sceneManager.requestRender();
 
@@ -112,18 +158,34 @@ export class Application {
     await this.exampleLoader.reload();
   }
 
+  async switchTextRenderer(textRenderer: TextRenderer): Promise<void> {
+    this.state.textRenderer = textRenderer;
+    await this.exampleLoader.reload();
+  }
+
+  async switchTheme(theme: ThemeName): Promise<void> {
+    this.state.theme = theme;
+    await this.exampleLoader.reload();
+  }
+
+  // Report the draw calls and triangles of every rendered frame
+  setRenderStatsListener(listener: (stats: RenderStats) => void): void {
+    this.sceneManager.setRenderStatsListener(listener);
+  }
+
   switchAxisHelper(show: boolean): void {
     console.log('[APP] switchAxisHelper called with:', show);
     this.sceneManager.showAxisHelper(show);
   }
 
   private logDebugInfo(): void {
-    console.log('Current example:', this.state.exampleType);
+    console.log('Current example:', this.state.documentNode ? 'document' : this.state.exampleType);
     console.log('Scene objects:', this.sceneManager.scene.children.length);
   }
 
   private setupCameraCallbacks(): void {
     this.cameraRouter.setRenderCallback(() => {
+      this.exampleLoader.updateVisibleArea();
       this.sceneManager.requestRender();
     });
     this.cameraRouter.setContinuousRenderCallback((enabled) => {
@@ -142,6 +204,97 @@ export class Application {
     );
   }
 
+  // Wheel events over a scrollable panel scroll it instead of zooming the camera
+  // The camera listens on the document, so stopping the event at the canvas keeps it from zooming;
+  // with Ctrl held the wheel always zooms
+  private setupScrollListener(): void {
+    const handleWheel = (event: WheelEvent) => {
+      if (event.ctrlKey) {
+        return;
+      }
+      if (this.exampleLoader.scrollAt(event, this.cameraRouter.camera)) {
+        event.preventDefault();
+        event.stopPropagation();
+      }
+    };
+
+    this.sceneManager.renderer.domElement.addEventListener('wheel', handleWheel, {
+      passive: false,
+    });
+    this.wheelHandler = handleWheel;
+  }
+
+  // Show the node under the pointer and log the nodes that are clicked
+  private setupNodeEvents(): void {
+    this.nodeEvents = new NodeEventDispatcher({
+      element: this.sceneManager.renderer.domElement,
+      camera: () => this.cameraRouter.camera,
+      root: () => this.exampleLoader.root,
+    });
+
+    const hoveredLabel = document.getElementById('hovered-node');
+    const updateHovered = (event: NodePointerEvent) => {
+      if (!hoveredLabel || !this.nodeEvents) {
+        return;
+      }
+      // Leaving a child can leave the pointer over its parent, so look again
+      const { clientX, clientY } = event.originalEvent;
+      const hit = this.nodeEvents.hitTest(clientX, clientY);
+      hoveredLabel.textContent = `Hover: ${hit ? describeNode(hit.node) : 'none'}`;
+    };
+    this.nodeEvents.addEventListener('pointerenter', updateHovered);
+    this.nodeEvents.addEventListener('pointerleave', updateHovered);
+
+    const logEvent = (event: NodePointerEvent) => {
+      const path = event.path.map(describeNode).join(' < ');
+      console.log(`[APP] ${event.type}: ${path}`);
+    };
+    this.nodeEvents.addEventListener('click', logEvent);
+    this.nodeEvents.addEventListener('dblclick', logEvent);
+    this.nodeEvents.addEventListener('contextmenu', logEvent);
+
+    // Clicking an editable text node edits it in place; every change lays the example out again
+    this.textEditor = new TextEditor(
+      {
+        element: this.sceneManager.renderer.domElement,
+        camera: () => this.cameraRouter.camera,
+        root: () => this.exampleLoader.root,
+        events: this.nodeEvents,
+        layout: () => this.exampleLoader.layout,
+        context: () => this.exampleLoader.context,
+        requestRender: () => this.sceneManager.requestRender(),
+      },
+      (change) => void this.exampleLoader.editText(change.node)
+    );
+
+    // Tab and the arrow keys move focus between nodes, and the camera follows focus off screen;
+    // Enter on an editable text node starts editing it
+    this.focusManager = new FocusManager({
+      element: this.sceneManager.renderer.domElement,
+      camera: () => this.cameraRouter.camera,
+      root: () => this.exampleLoader.root,
+      events: this.nodeEvents,
+      layout: () => this.exampleLoader.layout,
+      context: () => this.exampleLoader.context,
+      requestRender: () => this.sceneManager.requestRender(),
+    });
+    this.focusManager.addEventListener('focus', (event) => {
+      if (!isInView(event.bounds, this.cameraRouter.camera)) {
+        this.cameraRouter.panTo(event.bounds.getCenter(new THREE.Vector3()));
+      }
+    });
+    this.focusManager.addEventListener('activate', (event) => {
+      if (isTextNode(event.node) && event.node.editable) {
+        this.textEditor?.edit(event.node);
+      }
+    });
+
+    this.exampleLoader.setLoadCallback(() => {
+      this.textEditor?.update();
+      this.focusManager?.update();
+    });
+  }
+
   private setupResizeListener(): void {
     const handleResize = () => {
       const scalingSystem = getScalingSystem();
@@ -152,6 +305,7 @@ export class Application {
       // Update renderer size and get new aspect ratio
       const aspectRatio = this.sceneManager.handleResize();
       this.cameraRouter.updateAspectRatio(aspectRatio);
+      this.exampleLoader.updateVisibleArea();
 
       const newScaleFactor = scalingSystem.getScaleFactor();
 
@@ -191,12 +345,34 @@ export class Application {
   }
 
   private resizeHandler?: () => void;
+  private wheelHandler?: (event: WheelEvent) => void;
 
   dispose(): void {
     if (this.resizeHandler) {
       window.removeEventListener('resize', this.resizeHandler);
     }
+    this.textEditor?.dispose();
+    this.focusManager?.dispose();
+    this.nodeEvents?.dispose();
+    if (this.wheelHandler) {
+      this.sceneManager.renderer.domElement.removeEventListener('wheel', this.wheelHandler);
+    }
+    this.exampleLoader.dispose();
     this.sceneManager.dispose();
     this.cameraRouter.dispose();
   }
 }
+
+// Whether a box in world space lies entirely on screen
+function isInView(bounds: THREE.Box3, camera: THREE.Camera): boolean {
+  return [bounds.min, bounds.max].every((corner) => {
+    const { x, y } = corner.clone().project(camera);
+    return Math.abs(x) <= 1 && Math.abs(y) <= 1;
+  });
+}
+
+// Short label for a node in the same notation as style sheet selectors, e.g. `text#title`
+function describeNode(node: Node): string {
+  const name = node.tag ?? node.id;
+  return name !== undefined ? `${node.kind}#${name}` : node.kind;
+}
@@ -1,6 +1,13 @@
 import {
+  simpleConnectorNode,
   simpleContainerNode,
+  simpleFlexLayoutNode,
+  simpleGridLayoutNode,
   simpleHorizontalLayoutNode,
+  simpleLargeGridNode,
+  simpleOverlayNode,
+  simpleScrollNode,
+  simpleTextWrapNode,
   simpleVerticalLayoutNode,
 } from '@kuumu/layouter/examples';
 import {
@@ -8,20 +15,36 @@ import {
   type Node,
   traverseNode,
   updateContainerNodeStyle,
+  updateGridLayoutNodeStyle,
   updateHorizontalLayoutNodeStyle,
+  updateOverlayNodeStyle,
+  updateScrollNodeStyle,
   updateTextNodeStyle,
   updateVerticalLayoutNodeStyle,
 } from '@kuumu/layouter/node';
-import {
-  createGroup,
-  type GroupFactoryContext,
-  type GroupFactoryError,
-} from '@kuumu/three-js-layouter/group-factory';
-import type { Group } from 'three';
+import { px } from '@kuumu/layouter/scaling';
+import type { GroupFactoryContext } from '@kuumu/three-js-layouter/group-factory';
 import type { Font } from 'three/examples/jsm/loaders/FontLoader.js';
-import type { HeightMode, HorizontalAlignment, VerticalAlignment } from './models';
+import type {
+  HeightMode,
+  HorizontalAlignment,
+  Justification,
+  TextRenderer,
+  VerticalAlignment,
+} from './models';
 
-const EXAMPLE_TYPES = ['simple-container', 'simple-horizontal', 'simple-vertical'] as const;
+const EXAMPLE_TYPES = [
+  'simple-container',
+  'simple-horizontal',
+  'simple-vertical',
+  'simple-grid',
+  'simple-flex',
+  'simple-text-wrap',
+  'simple-connector',
+  'simple-overlay',
+  'simple-scroll',
+  'simple-large-grid',
+] as const;
 
 export type ExampleType = (typeof EXAMPLE_TYPES)[number];
 
@@ -34,33 +57,113 @@ type SimpleContainerParams = {
   font: Font;
   wireframe?: boolean;
   heightMode?: HeightMode;
+  textRenderer?: TextRenderer;
 };
 
 type SimpleHorizontalParams = {
   type: 'simple-horizontal';
   font: Font;
   alignment: HorizontalAlignment;
+  justification: Justification;
   wireframe?: boolean;
   heightMode?: HeightMode;
+  textRenderer?: TextRenderer;
 };
 
 type SimpleVerticalParams = {
   type: 'simple-vertical';
   font: Font;
   verticalAlignment: VerticalAlignment;
+  justification: Justification;
+  wireframe?: boolean;
+  heightMode?: HeightMode;
+  textRenderer?: TextRenderer;
+};
+
+type SimpleGridParams = {
+  type: 'simple-grid';
+  font: Font;
+  wireframe?: boolean;
+  heightMode?: HeightMode;
+  textRenderer?: TextRenderer;
+};
+
+type SimpleFlexParams = {
+  type: 'simple-flex';
+  font: Font;
+  wireframe?: boolean;
+  heightMode?: HeightMode;
+  textRenderer?: TextRenderer;
+};
+
+type SimpleTextWrapParams = {
+  type: 'simple-text-wrap';
+  font: Font;
+  wireframe?: boolean;
+  heightMode?: HeightMode;
+  textRenderer?: TextRenderer;
+};
+
+type SimpleConnectorParams = {
+  type: 'simple-connector';
+  font: Font;
   wireframe?: boolean;
   heightMode?: HeightMode;
+  textRenderer?: TextRenderer;
 };
 
-export type ExampleParams = SimpleContainerParams | SimpleHorizontalParams | SimpleVerticalParams;
+type SimpleOverlayParams = {
+  type: 'simple-overlay';
+  font: Font;
+  wireframe?: boolean;
+  heightMode?: HeightMode;
+  textRenderer?: TextRenderer;
+};
 
-export function buildExample(params: ExampleParams): Group | GroupFactoryError {
-  const context: GroupFactoryContext = { font: params.font };
-  const node = createNode(params);
-  return createGroup(context, node);
+type SimpleScrollParams = {
+  type: 'simple-scroll';
+  font: Font;
+  wireframe?: boolean;
+  heightMode?: HeightMode;
+  textRenderer?: TextRenderer;
+};
+
+type SimpleLargeGridParams = {
+  type: 'simple-large-grid';
+  font: Font;
+  wireframe?: boolean;
+  heightMode?: HeightMode;
+  textRenderer?: TextRenderer;
+};
+
+// Node tree loaded from a layout document instead of one of the built-in examples
+type DocumentParams = {
+  type: 'document';
+  font: Font;
+  node: Node;
+  wireframe?: boolean;
+  heightMode?: HeightMode;
+  textRenderer?: TextRenderer;
+};
+
+export type ExampleParams =
+  | SimpleContainerParams
+  | SimpleHorizontalParams
+  | SimpleVerticalParams
+  | SimpleGridParams
+  | SimpleFlexParams
+  | SimpleTextWrapParams
+  | SimpleConnectorParams
+  | SimpleOverlayParams
+  | SimpleScrollParams
+  | SimpleLargeGridParams
+  | DocumentParams;
+
+export function createExampleContext(params: ExampleParams): GroupFactoryContext {
+  return { font: params.font, textRenderer: params.textRenderer };
 }
 
-function createNode(params: ExampleParams): Node {
+export function createExampleNode(params: ExampleParams): Node {
   let node: Node;
 
   switch (params.type) {
@@ -74,6 +177,9 @@ function createNode(params: ExampleParams): Node {
       node = simpleHorizontalLayoutNode();
       updateHorizontalLayoutNodeStyle(node, {
         alignment: params.alignment,
+        justification: params.justification,
+        // Justification only has an effect when there is free space along the main axis
+        width: params.justification === 'start' ? 'auto' : px(600),
         wireframe: params.wireframe,
       });
       break;
@@ -81,9 +187,62 @@ function createNode(params: ExampleParams): Node {
       node = simpleVerticalLayoutNode();
       updateVerticalLayoutNodeStyle(node, {
         alignment: params.verticalAlignment,
+        justification: params.justification,
+        height: params.justification === 'start' ? 'auto' : px(240),
         wireframe: params.wireframe,
       });
       break;
+    case 'simple-grid':
+      node = simpleGridLayoutNode();
+      updateGridLayoutNodeStyle(node, {
+        wireframe: params.wireframe,
+      });
+      break;
+    case 'simple-flex':
+      node = simpleFlexLayoutNode();
+      updateVerticalLayoutNodeStyle(node, {
+        wireframe: params.wireframe,
+      });
+      break;
+    case 'simple-text-wrap':
+      node = simpleTextWrapNode();
+      updateVerticalLayoutNodeStyle(node, {
+        wireframe: params.wireframe,
+      });
+      break;
+    case 'simple-connector':
+      node = simpleConnectorNode();
+      updateVerticalLayoutNodeStyle(node, {
+        wireframe: params.wireframe,
+      });
+      break;
+    case 'simple-overlay':
+      node = simpleOverlayNode();
+      updateOverlayNodeStyle(node, {
+        wireframe: params.wireframe,
+      });
+      break;
+    case 'simple-scroll':
+      node = simpleScrollNode();
+      updateScrollNodeStyle(node, {
+        wireframe: params.wireframe,
+      });
+      break;
+    case 'simple-large-grid':
+      node = simpleLargeGridNode();
+      updateGridLayoutNodeStyle(node, {
+        wireframe: params.wireframe,
+      });
+      break;
+    case 'document':
+      // Styles are updated in place below, so keep the loaded document itself untouched
+      node = structuredClone(params.node);
+      if (params.wireframe) {
+        traverseNode(node, (currentNode) => {
+          currentNode.style = { ...currentNode.style, wireframe: true };
+        });
+      }
+      break;
   }
 
   // Apply heightMode, wireframe, and responsive scaling to all TextNodes using traverseNode
@@ -103,6 +103,15 @@ export abstract class CameraController<TCamera extends THREE.Camera, TConfig ext
     this.eventHandler.setupEventListeners();
   }
 
+  // Slide the camera so that the screen center lands on the target, keeping its angle and distance
+  panTo(target: THREE.Vector3): void {
+    this.camera.position.add(target.clone().sub(calculateScreenCenterWorld(this.camera)));
+    this.camera.updateMatrixWorld();
+    this.updateScreenCenterWorld();
+    this.updateProjectionMatrix();
+    this.eventHandler.triggerRender();
+  }
+
   protected setupInitialPosition(config: TConfig): void {
     this.camera.position.set(config.position.x, config.position.y, config.position.z);
     this.camera.lookAt(0, 0, 0);
@@ -125,6 +125,10 @@ export class CameraRouter {
     this.implementation.setupEventListeners();
   }
 
+  panTo(target: THREE.Vector3): void {
+    this.implementation.panTo(target);
+  }
+
   dispose(): void {
     this.implementation.dispose();
   }
@@ -1,13 +1,17 @@
 import { type ExampleType, isValidExampleType } from './build-example';
-import type { HeightMode } from './models';
+import type { HeightMode, TextRenderer } from './models';
+import type { RenderStats } from './scene-manager';
 
 export interface DebugPanelConfig {
   onExampleChange: (exampleType: ExampleType) => void;
   onAlignmentChange?: (alignment: string) => void;
   onVerticalAlignmentChange?: (verticalAlignment: string) => void;
+  onJustificationChange?: (justification: string) => void;
+  onVerticalJustificationChange?: (verticalJustification: string) => void;
   onProjectionChange?: (projection: string) => void;
   onWireframeChange?: (wireframe: boolean) => void;
   onHeightModeChange?: (heightMode: HeightMode) => void;
+  onTextRendererChange?: (textRenderer: TextRenderer) => void;
   onThemeChange?: (theme: 'dark' | 'light') => void;
   onAxisHelperChange?: (show: boolean) => void;
 }
@@ -17,20 +21,28 @@ export class DebugPanel {
   private static readonly ALIGNMENT_STORAGE_KEY = 'three-js-layouter-alignment-selected';
   private static readonly VERTICAL_ALIGNMENT_STORAGE_KEY =
     'three-js-layouter-vertical-alignment-selected';
+  private static readonly JUSTIFICATION_STORAGE_KEY = 'three-js-layouter-justification-selected';
+  private static readonly VERTICAL_JUSTIFICATION_STORAGE_KEY =
+    'three-js-layouter-vertical-justification-selected';
   private static readonly PROJECTION_STORAGE_KEY = 'three-js-layouter-projection-selected';
   private static readonly WIREFRAME_STORAGE_KEY = 'three-js-layouter-wireframe-enabled';
   private static readonly HEIGHT_MODE_STORAGE_KEY = 'three-js-layouter-height-mode-selected';
+  private static readonly TEXT_RENDERER_STORAGE_KEY = 'three-js-layouter-text-renderer-selected';
   private static readonly THEME_STORAGE_KEY = 'three-js-layouter-theme-selected';
   private static readonly AXIS_HELPER_STORAGE_KEY = 'three-js-layouter-axis-helper-enabled';
   private config: DebugPanelConfig;
   private radioButtons: NodeListOf<HTMLInputElement>;
   private alignmentButtons: NodeListOf<HTMLInputElement>;
   private verticalAlignmentButtons: NodeListOf<HTMLInputElement>;
+  private justificationButtons: NodeListOf<HTMLInputElement>;
+  private verticalJustificationButtons: NodeListOf<HTMLInputElement>;
   private projectionButtons: NodeListOf<HTMLInputElement>;
   private wireframeCheckbox: HTMLInputElement;
   private heightModeButtons: NodeListOf<HTMLInputElement>;
+  private textRendererButtons: NodeListOf<HTMLInputElement>;
   private themeButtons: NodeListOf<HTMLInputElement>;
   private axisHelperCheckbox: HTMLInputElement;
+  private renderStats: HTMLElement | null;
 
   constructor(config: DebugPanelConfig) {
     this.config = config;
@@ -43,6 +55,12 @@ export class DebugPanel {
     this.verticalAlignmentButtons = document.querySelectorAll(
       'input[name="verticalAlignment"]'
     ) as NodeListOf<HTMLInputElement>;
+    this.justificationButtons = document.querySelectorAll(
+      'input[name="justification"]'
+    ) as NodeListOf<HTMLInputElement>;
+    this.verticalJustificationButtons = document.querySelectorAll(
+      'input[name="verticalJustification"]'
+    ) as NodeListOf<HTMLInputElement>;
     this.projectionButtons = document.querySelectorAll(
       'input[name="projection"]'
     ) as NodeListOf<HTMLInputElement>;
@@ -50,12 +68,16 @@ export class DebugPanel {
     this.heightModeButtons = document.querySelectorAll(
       'input[name="heightMode"]'
     ) as NodeListOf<HTMLInputElement>;
+    this.textRendererButtons = document.querySelectorAll(
+      'input[name="textRenderer"]'
+    ) as NodeListOf<HTMLInputElement>;
     this.themeButtons = document.querySelectorAll(
       'input[name="theme"]'
     ) as NodeListOf<HTMLInputElement>;
     this.axisHelperCheckbox = document.querySelector(
       'input[name="axisHelper"]'
     ) as HTMLInputElement;
+    this.renderStats = document.getElementById('render-stats');
   }
 
   initialize(): void {
@@ -75,6 +97,14 @@ export class DebugPanel {
     return localStorage.getItem(DebugPanel.VERTICAL_ALIGNMENT_STORAGE_KEY);
   }
 
+  getSavedJustification(): string | null {
+    return localStorage.getItem(DebugPanel.JUSTIFICATION_STORAGE_KEY);
+  }
+
+  getSavedVerticalJustification(): string | null {
+    return localStorage.getItem(DebugPanel.VERTICAL_JUSTIFICATION_STORAGE_KEY);
+  }
+
   getSavedProjection(): string | null {
     return localStorage.getItem(DebugPanel.PROJECTION_STORAGE_KEY);
   }
@@ -89,6 +119,11 @@ export class DebugPanel {
     return saved === 'fixed' || saved === 'dynamic' ? saved : 'dynamic';
   }
 
+  getSavedTextRenderer(): TextRenderer {
+    const saved = localStorage.getItem(DebugPanel.TEXT_RENDERER_STORAGE_KEY);
+    return saved === 'geometry' || saved === 'sdf' ? saved : 'geometry';
+  }
+
   getSavedTheme(): 'dark' | 'light' {
     const saved = localStorage.getItem(DebugPanel.THEME_STORAGE_KEY);
     return saved === 'dark' || saved === 'light' ? saved : 'dark';
@@ -125,6 +160,16 @@ export class DebugPanel {
       this.setCurrentVerticalAlignment(savedVerticalAlignment);
     }
 
+    const savedJustification = this.getSavedJustification();
+    if (savedJustification) {
+      this.setCurrentJustification(savedJustification);
+    }
+
+    const savedVerticalJustification = this.getSavedVerticalJustification();
+    if (savedVerticalJustification) {
+      this.setCurrentVerticalJustification(savedVerticalJustification);
+    }
+
     const savedProjection = this.getSavedProjection();
     if (savedProjection) {
       this.setCurrentProjection(savedProjection);
@@ -136,6 +181,9 @@ export class DebugPanel {
     const savedHeightMode = this.getSavedHeightMode();
     this.setCurrentHeightMode(savedHeightMode);
 
+    const savedTextRenderer = this.getSavedTextRenderer();
+    this.setCurrentTextRenderer(savedTextRenderer);
+
     const savedTheme = this.getSavedTheme();
     this.setCurrentTheme(savedTheme);
 
@@ -155,6 +203,14 @@ export class DebugPanel {
     localStorage.setItem(DebugPanel.VERTICAL_ALIGNMENT_STORAGE_KEY, verticalAlignment);
   }
 
+  private saveCurrentJustification(justification: string): void {
+    localStorage.setItem(DebugPanel.JUSTIFICATION_STORAGE_KEY, justification);
+  }
+
+  private saveCurrentVerticalJustification(verticalJustification: string): void {
+    localStorage.setItem(DebugPanel.VERTICAL_JUSTIFICATION_STORAGE_KEY, verticalJustification);
+  }
+
   private saveCurrentProjection(projection: string): void {
     localStorage.setItem(DebugPanel.PROJECTION_STORAGE_KEY, projection);
   }
@@ -167,6 +223,10 @@ export class DebugPanel {
     localStorage.setItem(DebugPanel.HEIGHT_MODE_STORAGE_KEY, heightMode);
   }
 
+  private saveCurrentTextRenderer(textRenderer: TextRenderer): void {
+    localStorage.setItem(DebugPanel.TEXT_RENDERER_STORAGE_KEY, textRenderer);
+  }
+
   private saveCurrentTheme(theme: 'dark' | 'light'): void {
     localStorage.setItem(DebugPanel.THEME_STORAGE_KEY, theme);
   }
@@ -207,6 +267,26 @@ export class DebugPanel {
       });
     });
 
+    this.justificationButtons.forEach((radio) => {
+      radio.addEventListener('change', (event) => {
+        const target = event.target as HTMLInputElement;
+        if (target.checked) {
+          this.saveCurrentJustification(target.value);
+          this.config.onJustificationChange?.(target.value);
+        }
+      });
+    });
+
+    this.verticalJustificationButtons.forEach((radio) => {
+      radio.addEventListener('change', (event) => {
+        const target = event.target as HTMLInputElement;
+        if (target.checked) {
+          this.saveCurrentVerticalJustification(target.value);
+          this.config.onVerticalJustificationChange?.(target.value);
+        }
+      });
+    });
+
     this.projectionButtons.forEach((radio) => {
       radio.addEventListener('change', (event) => {
         const target = event.target as HTMLInputElement;
@@ -233,6 +313,16 @@ export class DebugPanel {
       });
     });
 
+    this.textRendererButtons.forEach((radio) => {
+      radio.addEventListener('change', (event) => {
+        const target = event.target as HTMLInputElement;
+        if (target.checked && (target.value === 'geometry' || target.value === 'sdf')) {
+          this.saveCurrentTextRenderer(target.value);
+          this.config.onTextRendererChange?.(target.value);
+        }
+      });
+    });
+
     this.themeButtons.forEach((radio) => {
       radio.addEventListener('change', (event) => {
         const target = event.target as HTMLInputElement;
@@ -268,6 +358,18 @@ export class DebugPanel {
     });
   }
 
+  setCurrentJustification(justification: string): void {
+    this.justificationButtons.forEach((radio) => {
+      radio.checked = radio.value === justification;
+    });
+  }
+
+  setCurrentVerticalJustification(verticalJustification: string): void {
+    this.verticalJustificationButtons.forEach((radio) => {
+      radio.checked = radio.value === verticalJustification;
+    });
+  }
+
   setCurrentProjection(projection: string): void {
     this.projectionButtons.forEach((radio) => {
       radio.checked = radio.value === projection;
@@ -284,6 +386,12 @@ export class DebugPanel {
     });
   }
 
+  setCurrentTextRenderer(textRenderer: TextRenderer): void {
+    this.textRendererButtons.forEach((radio) => {
+      radio.checked = radio.value === textRenderer;
+    });
+  }
+
   setCurrentTheme(theme: 'dark' | 'light'): void {
     this.themeButtons.forEach((radio) => {
       radio.checked = radio.value === theme;
@@ -294,6 +402,12 @@ export class DebugPanel {
     this.axisHelperCheckbox.checked = show;
   }
 
+  showRenderStats(stats: RenderStats): void {
+    if (this.renderStats) {
+      this.renderStats.textContent = `Draw calls: ${stats.drawCalls}, triangles: ${stats.triangles}`;
+    }
+  }
+
   private updateChildOptionsVisibility(exampleType: string): void {
     const horizontalAlignmentOptions = document.getElementById('horizontal-alignment-options');
     const verticalAlignmentOptions = document.getElementById('vertical-alignment-options');
@@ -0,0 +1,61 @@
+import {
+  type DocumentParseError,
+  isDocumentParseError,
+  type LayoutDocument,
+  parseLayoutDocumentJson,
+} from '@kuumu/layouter/document';
+
+// Fetch and parse a layout document, e.g. the one given by the `document` URL parameter
+// Returns null when the document can not be loaded; problems are logged with their JSON paths
+export async function fetchLayoutDocument(url: string): Promise<LayoutDocument | null> {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      console.error(`Failed to fetch layout document ${url}: ${response.status}`);
+      return null;
+    }
+    return parseOrReport(url, await response.text());
+  } catch (err) {
+    console.error(`Failed to fetch layout document ${url}:`, err);
+    return null;
+  }
+}
+
+// Load layout documents dropped onto the element; documents are JSON whatever the file is named
+export function setupDocumentDrop(
+  element: HTMLElement,
+  onLoad: (layoutDocument: LayoutDocument) => void
+): void {
+  element.addEventListener('dragover', (event) => {
+    // Required for the element to accept drops
+    event.preventDefault();
+  });
+
+  element.addEventListener('drop', async (event) => {
+    event.preventDefault();
+    const file = event.dataTransfer?.files[0];
+    if (!file) {
+      return;
+    }
+    const layoutDocument = parseOrReport(file.name, await file.text());
+    if (layoutDocument) {
+      onLoad(layoutDocument);
+    }
+  });
+}
+
+function parseOrReport(source: string, text: string): LayoutDocument | null {
+  const result = parseLayoutDocumentJson(text);
+  if (isDocumentParseError(result)) {
+    reportDocumentError(source, result);
+    return null;
+  }
+  return result;
+}
+
+function reportDocumentError(source: string, error: DocumentParseError): void {
+  console.error(`Invalid layout document ${source}:`);
+  for (const issue of error.issues) {
+    console.error(`  ${issue.path}: ${issue.message}`);
+  }
+}
@@ -1,39 +1,287 @@
-import { isGroupFactoryError } from '@kuumu/three-js-layouter/group-factory';
-import { buildExample } from './build-example';
+import type { LayoutBox, Point, Rect } from '@kuumu/layouter/layout';
+import {
+  isScrollNode,
+  isTextNode,
+  type Node,
+  type TextNode,
+  traverseNode,
+} from '@kuumu/layouter/node';
+import { px } from '@kuumu/layouter/scaling';
+import { DARK_THEME, LIGHT_THEME } from '@kuumu/layouter/style';
+import {
+  BackgroundBatcher,
+  type GroupFactoryContext,
+  GroupReconciler,
+  GroupResources,
+  isGroupFactoryError,
+} from '@kuumu/three-js-layouter/group-factory';
+import * as THREE from 'three';
+import { createExampleContext, createExampleNode } from './build-example';
 import type { ExampleState } from './example-state';
 import { loadFont } from './load-font';
 import type { SceneManager } from './scene-manager';
 
+const TRANSITION_DURATION = 250;
+
 export class ExampleLoader {
   private state: ExampleState;
   private sceneManager: SceneManager;
+  // Keeps the groups of the current example so that reloads only rebuild what changed,
+  // animating between the old and the new layout; only nodes around the camera view get meshes,
+  // so very large examples stay fast
+  private reconciler: GroupReconciler;
+  // Draws the plain backgrounds of the example with a few instanced meshes while nothing moves
+  private backgrounds = new BackgroundBatcher();
+  private transitionsRunning = false;
+  // Releases the textures of images once no node of the example shows them anymore
+  private resources = new GroupResources();
+  private group: THREE.Group | null = null;
+  // Scroll offsets set with the wheel, keyed by the id or tag of the scroll node
+  private scrollOffsets = new Map<string, Point>();
+  // Text typed into editable nodes, keyed by the id or tag of the text node
+  private textEdits = new Map<string, TextNode['item']>();
+  private raycaster = new THREE.Raycaster();
+  private lastContext?: GroupFactoryContext;
+  private loadCallback?: () => void;
 
-  constructor(state: ExampleState, sceneManager: SceneManager) {
+  constructor(
+    state: ExampleState,
+    sceneManager: SceneManager,
+    camera: () => THREE.Camera | undefined
+  ) {
     this.state = state;
     this.sceneManager = sceneManager;
+    this.reconciler = new GroupReconciler({
+      transition: {
+        duration: TRANSITION_DURATION,
+        easing: 'ease-in-out',
+        onRunningChange: (running) => {
+          this.transitionsRunning = running;
+          this.batchBackgrounds();
+          sceneManager.setContinuousRender(running, 'transition');
+        },
+      },
+      virtualization: { camera },
+    });
+  }
+
+  // Root group of the example currently shown
+  get root(): THREE.Group | undefined {
+    return this.group ?? undefined;
+  }
+
+  // Layout of the example currently shown
+  get layout(): LayoutBox | undefined {
+    return this.reconciler.layout;
+  }
+
+  // Context the example currently shown was built with
+  get context(): GroupFactoryContext | undefined {
+    return this.lastContext;
+  }
+
+  // Called whenever an example finished loading, e.g. to redraw what is drawn over it
+  setLoadCallback(callback: () => void): void {
+    this.loadCallback = callback;
   }
 
   async reload(): Promise<void> {
+    await this.load(true);
+  }
+
+  // Keep the text of an edited node across reloads and lay the example out again
+  async editText(node: TextNode): Promise<void> {
+    const key = node.id ?? node.tag;
+    if (key !== undefined) {
+      this.textEdits.set(key, node.item);
+    }
+    await this.load(false);
+  }
+
+  // Build the nodes that came into view after the camera moved
+  updateVisibleArea(): void {
+    if (this.reconciler.updateVisibleArea()) {
+      this.batchBackgrounds();
+      this.sceneManager.requestRender();
+      // Groups were rebuilt, which drops whatever was drawn over them
+      this.loadCallback?.();
+    }
+  }
+
+  // Release everything built for the examples
+  dispose(): void {
+    this.backgrounds.dispose();
+    this.reconciler.dispose();
+    this.group = null;
+  }
+
+  // Scroll the innermost scrollable node under the pointer by the wheel delta
+  // Returns whether the wheel was over such a node, in which case it should not zoom the camera
+  scrollAt(event: WheelEvent, camera: THREE.Camera): boolean {
+    const layout = this.reconciler.layout;
+    const point = this.pickLayoutPoint(event, camera);
+    const box = layout && point ? findScrollableBox(layout, point) : undefined;
+    const key = box && scrollKey(box.node);
+    if (!box?.scrollRange || key === undefined) {
+      return false;
+    }
+
+    const previous = this.scrollOffsets.get(key) ?? { x: 0, y: 0 };
+    // Shift turns the vertical wheel into horizontal scrolling, as in browsers
+    const deltaX = event.shiftKey ? event.deltaY : event.deltaX;
+    const deltaY = event.shiftKey ? 0 : event.deltaY;
+    const next = {
+      x: clamp(previous.x + px(deltaX), box.scrollRange.width),
+      y: clamp(previous.y + px(deltaY), box.scrollRange.height),
+    };
+    if (next.x !== previous.x || next.y !== previous.y) {
+      this.scrollOffsets.set(key, next);
+      // Keep the scene where it is: the moved content would shift its bounding box
+      void this.load(false);
+    }
+    return true;
+  }
+
+  private async load(recenter: boolean): Promise<void> {
     const font = await loadFont();
     if (!font) {
       console.error('Failed to load font');
       return;
     }
 
-    this.sceneManager.clearScene();
-
     try {
       const params = this.state.createExampleParams(font);
-      const groupResult = buildExample(params);
+      const context = {
+        ...createExampleContext(params),
+        // The layout follows the page theme, so switching it restyles the scene as well
+        theme: this.state.theme === 'light' ? LIGHT_THEME : DARK_THEME,
+        resources: this.resources,
+        // Images load after the group is built, so the scene is drawn again when they arrive;
+        // failed loads are logged by the group factory
+        onImageLoad: () => {
+          this.sceneManager.requestRender();
+        },
+      };
+      const node = createExampleNode(params);
+      this.applyScrollOffsets(node);
+      this.applyTextEdits(node);
+      const groupResult = this.reconciler.update(context, node);
 
       if (isGroupFactoryError(groupResult)) {
         console.error('Failed to create node group:', groupResult);
         return;
       }
+      this.lastContext = context;
 
-      this.sceneManager.centerAndAddToScene(groupResult);
+      // The scene only has to be replaced when the root node changed identity
+      if (groupResult !== this.group) {
+        this.sceneManager.clearScene();
+        this.group = groupResult;
+        this.sceneManager.centerAndAddToScene(groupResult);
+      } else if (recenter) {
+        this.sceneManager.centerAndAddToScene(groupResult);
+      } else {
+        this.sceneManager.requestRender();
+      }
+      // Nodes were built for where the group was before it was centered
+      this.reconciler.updateVisibleArea();
+      this.batchBackgrounds();
+      this.loadCallback?.();
     } catch (err) {
       console.error('Error loading example:', err);
     }
   }
+
+  // Batches are copies of the backgrounds, so they are dropped while transitions move the originals
+  private batchBackgrounds(): void {
+    if (this.group && !this.transitionsRunning) {
+      this.backgrounds.update(this.group);
+    } else {
+      this.backgrounds.clear();
+    }
+  }
+
+  private applyScrollOffsets(node: Node): void {
+    traverseNode(node, (currentNode) => {
+      const key = scrollKey(currentNode);
+      const offset = key !== undefined ? this.scrollOffsets.get(key) : undefined;
+      if (isScrollNode(currentNode) && offset) {
+        currentNode.scrollX = offset.x;
+        currentNode.scrollY = offset.y;
+      }
+    });
+  }
+
+  private applyTextEdits(node: Node): void {
+    traverseNode(node, (currentNode) => {
+      const key = currentNode.id ?? currentNode.tag;
+      const item = key !== undefined ? this.textEdits.get(key) : undefined;
+      if (isTextNode(currentNode) && item !== undefined) {
+        currentNode.item = item;
+      }
+    });
+  }
+
+  // Point of the layout under the pointer, in layout space
+  private pickLayoutPoint(event: WheelEvent, camera: THREE.Camera): Point | undefined {
+    const layout = this.reconciler.layout;
+    if (!this.group || !layout) {
+      return undefined;
+    }
+
+    const rect = this.sceneManager.renderer.domElement.getBoundingClientRect();
+    const pointer = new THREE.Vector2(
+      ((event.clientX - rect.left) / rect.width) * 2 - 1,
+      -((event.clientY - rect.top) / rect.height) * 2 + 1
+    );
+    this.raycaster.setFromCamera(pointer, camera);
+
+    // The layout lies in the z = 0 plane of the root group, whose origin is the root box center
+    const plane = new THREE.Plane(new THREE.Vector3(0, 0, 1), 0).applyMatrix4(
+      this.group.matrixWorld
+    );
+    const hit = this.raycaster.ray.intersectPlane(plane, new THREE.Vector3());
+    if (!hit) {
+      return undefined;
+    }
+    this.group.worldToLocal(hit);
+    return {
+      x: layout.x + layout.width / 2 + hit.x,
+      y: layout.y + layout.height / 2 - hit.y,
+    };
+  }
+}
+
+// Innermost box under the point that can be scrolled, skipping content clipped away there
+function findScrollableBox(box: LayoutBox, point: Point): LayoutBox | undefined {
+  if (box.clip && !containsPoint(box.clip, point)) {
+    return undefined;
+  }
+  for (const child of box.children) {
+    const found = findScrollableBox(child, point);
+    if (found) {
+      return found;
+    }
+  }
+  const range = box.scrollRange;
+  const scrollable = range !== undefined && (range.width > 0 || range.height > 0);
+  return scrollable && containsPoint(box.paddingBox, point) ? box : undefined;
+}
+
+function containsPoint(rect: Rect, point: Point): boolean {
+  return (
+    point.x >= rect.x &&
+    point.x <= rect.x + rect.width &&
+    point.y >= rect.y &&
+    point.y <= rect.y + rect.height
+  );
+}
+
+// Scroll nodes without an id or tag can not be told apart across reloads, so they keep their offsets
+function scrollKey(node: Node): string | undefined {
+  return node.id ?? node.tag;
+}
+
+function clamp(value: number, max: number): number {
+  return Math.min(Math.max(value, 0), max);
 }
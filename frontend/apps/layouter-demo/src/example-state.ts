@@ -1,22 +1,41 @@
+import type { Node } from '@kuumu/layouter/node';
 import type { Font } from 'three/examples/jsm/loaders/FontLoader.js';
 import type { ExampleParams, ExampleType } from './build-example';
-import type { HeightMode, HorizontalAlignment, VerticalAlignment } from './models';
+import type {
+  HeightMode,
+  HorizontalAlignment,
+  Justification,
+  TextRenderer,
+  ThemeName,
+  VerticalAlignment,
+} from './models';
 import type { InitParams } from './models/init-params';
 
 export class ExampleState {
   exampleType: ExampleType = 'simple-container';
   horizontalAlignment: HorizontalAlignment = 'center';
   verticalAlignment: VerticalAlignment = 'left';
+  horizontalJustification: Justification = 'start';
+  verticalJustification: Justification = 'start';
   wireframeEnabled: boolean = false;
   heightMode: HeightMode = 'dynamic';
+  textRenderer: TextRenderer = 'geometry';
+  theme: ThemeName = 'dark';
+  // Root of a loaded layout document, shown instead of the selected example
+  documentNode: Node | null = null;
 
   createExampleParams(font: Font): ExampleParams {
     const baseParams = {
       font,
       wireframe: this.wireframeEnabled,
       heightMode: this.heightMode,
+      textRenderer: this.textRenderer,
     };
 
+    if (this.documentNode) {
+      return { type: 'document', ...baseParams, node: this.documentNode };
+    }
+
     switch (this.exampleType) {
       case 'simple-container':
         return { type: 'simple-container', ...baseParams };
@@ -25,13 +44,29 @@ export class ExampleState {
           type: 'simple-horizontal',
           ...baseParams,
           alignment: this.horizontalAlignment,
+          justification: this.horizontalJustification,
         };
       case 'simple-vertical':
         return {
           type: 'simple-vertical',
           ...baseParams,
           verticalAlignment: this.verticalAlignment,
+          justification: this.verticalJustification,
         };
+      case 'simple-grid':
+        return { type: 'simple-grid', ...baseParams };
+      case 'simple-flex':
+        return { type: 'simple-flex', ...baseParams };
+      case 'simple-text-wrap':
+        return { type: 'simple-text-wrap', ...baseParams };
+      case 'simple-connector':
+        return { type: 'simple-connector', ...baseParams };
+      case 'simple-overlay':
+        return { type: 'simple-overlay', ...baseParams };
+      case 'simple-scroll':
+        return { type: 'simple-scroll', ...baseParams };
+      case 'simple-large-grid':
+        return { type: 'simple-large-grid', ...baseParams };
     }
   }
 
@@ -45,11 +80,23 @@ export class ExampleState {
     if (options.verticalAlignment) {
       this.verticalAlignment = options.verticalAlignment;
     }
+    if (options.horizontalJustification) {
+      this.horizontalJustification = options.horizontalJustification;
+    }
+    if (options.verticalJustification) {
+      this.verticalJustification = options.verticalJustification;
+    }
     if (options.wireframe !== undefined) {
       this.wireframeEnabled = options.wireframe;
     }
     if (options.heightMode) {
       this.heightMode = options.heightMode;
     }
+    if (options.textRenderer) {
+      this.textRenderer = options.textRenderer;
+    }
+    if (options.theme) {
+      this.theme = options.theme;
+    }
   }
 }
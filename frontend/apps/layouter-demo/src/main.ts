@@ -3,7 +3,15 @@ import { getScalingSystem, getUnitSystem } from '@kuumu/layouter/scaling';
 import { Application } from './application';
 import { type ExampleType, isValidExampleType } from './build-example';
 import { DebugPanel } from './debug-panel';
-import type { HeightMode, HorizontalAlignment, ProjectionType, VerticalAlignment } from './models';
+import { fetchLayoutDocument, setupDocumentDrop } from './document-loader';
+import {
+  type HeightMode,
+  isHorizontalAlignment,
+  isJustification,
+  isVerticalAlignment,
+  type ProjectionType,
+  type TextRenderer,
+} from './models';
 
 // Initialize DevLogger for development monitoring
 DevLogger.initialize({
@@ -97,10 +105,24 @@ const debugPanel = new DebugPanel({
     await app.switchExample(exampleType);
   },
   onAlignmentChange: async (alignment: string) => {
-    await app.switchHorizontalAlignment(alignment as HorizontalAlignment);
+    if (isHorizontalAlignment(alignment)) {
+      await app.switchHorizontalAlignment(alignment);
+    }
   },
   onVerticalAlignmentChange: async (verticalAlignment: string) => {
-    await app.switchVerticalAlignment(verticalAlignment as VerticalAlignment);
+    if (isVerticalAlignment(verticalAlignment)) {
+      await app.switchVerticalAlignment(verticalAlignment);
+    }
+  },
+  onJustificationChange: async (justification: string) => {
+    if (isJustification(justification)) {
+      await app.switchHorizontalJustification(justification);
+    }
+  },
+  onVerticalJustificationChange: async (verticalJustification: string) => {
+    if (isJustification(verticalJustification)) {
+      await app.switchVerticalJustification(verticalJustification);
+    }
   },
   onProjectionChange: (projection: string) => {
     app.switchProjection(projection as ProjectionType);
@@ -111,22 +133,30 @@ const debugPanel = new DebugPanel({
   onHeightModeChange: async (heightMode: HeightMode) => {
     await app.switchHeightMode(heightMode);
   },
-  onThemeChange: (theme: 'dark' | 'light') => {
+  onTextRendererChange: async (textRenderer: TextRenderer) => {
+    await app.switchTextRenderer(textRenderer);
+  },
+  onThemeChange: async (theme: 'dark' | 'light') => {
     document.documentElement.className = theme === 'light' ? 'theme-light' : '';
+    await app.switchTheme(theme);
   },
   onAxisHelperChange: (show: boolean) => {
     app.switchAxisHelper(show);
   },
 });
 debugPanel.initialize();
+app.setRenderStatsListener((stats) => debugPanel.showRenderStats(stats));
 
 // Initialize application with all saved settings
 const savedExample = debugPanel.getSavedExample();
 const savedAlignment = debugPanel.getSavedAlignment();
 const savedVerticalAlignment = debugPanel.getSavedVerticalAlignment();
+const savedJustification = debugPanel.getSavedJustification();
+const savedVerticalJustification = debugPanel.getSavedVerticalJustification();
 const savedProjection = debugPanel.getSavedProjection();
 const savedWireframe = debugPanel.getSavedWireframe();
 const savedHeightMode = debugPanel.getSavedHeightMode();
+const savedTextRenderer = debugPanel.getSavedTextRenderer();
 const savedTheme = debugPanel.getSavedTheme();
 const savedAxisHelper = debugPanel.getSavedAxisHelper();
 
@@ -134,17 +164,19 @@ const savedAxisHelper = debugPanel.getSavedAxisHelper();
 try {
   await app.initialize({
     example: isValidExampleType(savedExample) ? savedExample : undefined,
-    horizontalAlignment:
-      savedAlignment === 'center' || savedAlignment === 'top'
-        ? (savedAlignment as HorizontalAlignment)
-        : undefined,
-    verticalAlignment:
-      savedVerticalAlignment === 'center' || savedVerticalAlignment === 'left'
-        ? (savedVerticalAlignment as VerticalAlignment)
-        : undefined,
+    horizontalAlignment: isHorizontalAlignment(savedAlignment) ? savedAlignment : undefined,
+    verticalAlignment: isVerticalAlignment(savedVerticalAlignment)
+      ? savedVerticalAlignment
+      : undefined,
+    horizontalJustification: isJustification(savedJustification) ? savedJustification : undefined,
+    verticalJustification: isJustification(savedVerticalJustification)
+      ? savedVerticalJustification
+      : undefined,
     projection: (savedProjection as ProjectionType) || undefined,
     wireframe: savedWireframe,
     heightMode: savedHeightMode,
+    textRenderer: savedTextRenderer,
+    theme: savedTheme,
   });
 
   // Apply saved theme
@@ -152,6 +184,20 @@ try {
 
   // Always apply saved axis helper to ensure consistency
   app.switchAxisHelper(savedAxisHelper);
+
+  // Show a layout document given as `?document=<url>` instead of the saved example
+  const documentUrl = new URLSearchParams(window.location.search).get('document');
+  if (documentUrl) {
+    const layoutDocument = await fetchLayoutDocument(documentUrl);
+    if (layoutDocument) {
+      await app.loadDocument(layoutDocument.root);
+    }
+  }
+
+  // Layout documents can also be dropped onto the scene
+  setupDocumentDrop(container, (layoutDocument) => {
+    app.loadDocument(layoutDocument.root);
+  });
 } catch (err) {
   console.error('Failed to initialize application:', err);
 }
@@ -1,6 +1,40 @@
-export type HorizontalAlignment = 'center' | 'top';
-export type VerticalAlignment = 'center' | 'left';
+import type { HorizontalAlignment, Justification, VerticalAlignment } from '@kuumu/layouter/style';
+
+export type { HorizontalAlignment, Justification, VerticalAlignment } from '@kuumu/layouter/style';
 export type ProjectionType = 'orthographic' | 'perspective';
 export type HeightMode = 'fixed' | 'dynamic';
+export type ThemeName = 'dark' | 'light';
+export type { TextRenderer } from '@kuumu/three-js-layouter/group-factory';
 
 export type { Coordinate } from './coordinate';
+
+const HORIZONTAL_ALIGNMENTS: readonly HorizontalAlignment[] = [
+  'top',
+  'center',
+  'bottom',
+  'stretch',
+  'baseline',
+];
+
+const VERTICAL_ALIGNMENTS: readonly VerticalAlignment[] = ['left', 'center', 'right', 'stretch'];
+
+const JUSTIFICATIONS: readonly Justification[] = [
+  'start',
+  'center',
+  'end',
+  'space-between',
+  'space-around',
+  'space-evenly',
+];
+
+export function isHorizontalAlignment(value: string | null): value is HorizontalAlignment {
+  return HORIZONTAL_ALIGNMENTS.includes(value as HorizontalAlignment);
+}
+
+export function isVerticalAlignment(value: string | null): value is VerticalAlignment {
+  return VERTICAL_ALIGNMENTS.includes(value as VerticalAlignment);
+}
+
+export function isJustification(value: string | null): value is Justification {
+  return JUSTIFICATIONS.includes(value as Justification);
+}
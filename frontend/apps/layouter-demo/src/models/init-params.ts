@@ -1,13 +1,25 @@
 import type { ExampleType } from '../build-example';
-import type { HeightMode, HorizontalAlignment, ProjectionType, VerticalAlignment } from './index';
+import type {
+  HeightMode,
+  HorizontalAlignment,
+  Justification,
+  ProjectionType,
+  TextRenderer,
+  ThemeName,
+  VerticalAlignment,
+} from './index';
 
 export interface InitParams {
   example: ExampleType;
   horizontalAlignment: HorizontalAlignment;
   verticalAlignment: VerticalAlignment;
+  horizontalJustification: Justification;
+  verticalJustification: Justification;
   projection: ProjectionType;
   wireframe: boolean;
   heightMode: HeightMode;
+  textRenderer: TextRenderer;
+  theme: ThemeName;
 }
 
 export function createInitParams(overrides: Partial<InitParams> = {}): InitParams {
@@ -15,9 +27,13 @@ export function createInitParams(overrides: Partial<InitParams> = {}): InitParam
     example: 'simple-container',
     horizontalAlignment: 'center',
     verticalAlignment: 'left',
+    horizontalJustification: 'start',
+    verticalJustification: 'start',
     projection: 'orthographic',
     wireframe: false,
     heightMode: 'dynamic',
+    textRenderer: 'geometry',
+    theme: 'dark',
     ...overrides,
   };
 }
@@ -1,3 +1,4 @@
+import { disposeGroup } from '@kuumu/three-js-layouter/group-factory';
 import type { Group } from 'three';
 import * as THREE from 'three';
 import { RotationCenterIndicator } from './rotation-center-indicator';
@@ -9,16 +10,24 @@ export interface SceneConfig {
   antialias: boolean;
 }
 
+// Work done to draw the last frame
+export interface RenderStats {
+  drawCalls: number;
+  triangles: number;
+}
+
 export class SceneManager {
   public readonly scene: THREE.Scene;
   public readonly renderer: THREE.WebGLRenderer;
   private readonly container: HTMLElement;
   private animationId: number | null = null;
   private needsRender = true;
-  private continuousRender = false;
+  // Everything that currently needs a frame rendered every time, e.g. camera drags and transitions
+  private continuousRenderSources = new Set<string>();
   private axisHelper: THREE.AxesHelper | null = null;
   private axisWireframeCube: THREE.Mesh | null = null;
   private rotationCenterIndicator: RotationCenterIndicator;
+  private renderStatsListener?: (stats: RenderStats) => void;
 
   constructor(config: SceneConfig, container: HTMLElement) {
     this.container = container;
@@ -28,6 +37,8 @@ export class SceneManager {
     this.renderer.setSize(config.width, config.height);
     this.renderer.setPixelRatio(window.devicePixelRatio);
     this.renderer.setClearColor(config.clearColor, 0);
+    // Scroll nodes clip their content with per-material clipping planes
+    this.renderer.localClippingEnabled = true;
     container.appendChild(this.renderer.domElement);
 
     // Initialize rotation center indicator
@@ -88,9 +99,11 @@ export class SceneManager {
 
     const animate = (): void => {
       this.animationId = requestAnimationFrame(animate);
-      if (this.continuousRender || this.needsRender) {
+      if (this.continuousRenderSources.size > 0 || this.needsRender) {
         this.renderer.render(this.scene, camera);
         this.needsRender = false;
+        const { calls, triangles } = this.renderer.info.render;
+        this.renderStatsListener?.({ drawCalls: calls, triangles });
       }
     };
     animate();
@@ -100,8 +113,20 @@ export class SceneManager {
     this.needsRender = true;
   }
 
-  setContinuousRender(enabled: boolean): void {
-    this.continuousRender = enabled;
+  // Render every frame while any source has it enabled; sources toggle independently
+  setContinuousRender(enabled: boolean, source = 'camera'): void {
+    if (enabled) {
+      this.continuousRenderSources.add(source);
+    } else {
+      this.continuousRenderSources.delete(source);
+      // The last frame of an animation still has to be drawn
+      this.requestRender();
+    }
+  }
+
+  // Called after every rendered frame
+  setRenderStatsListener(listener: (stats: RenderStats) => void): void {
+    this.renderStatsListener = listener;
   }
 
   stopRenderLoop(): void {
@@ -159,6 +184,11 @@ export class SceneManager {
   clearScene(): void {
     // Clear scene but preserve axis helper and rotation center indicator
     const axisHelperState = !!this.axisHelper;
+    // Everything removed is released as well, the helpers are created again below
+    this.rotationCenterIndicator.dispose();
+    for (const object of [...this.scene.children]) {
+      disposeGroup(object);
+    }
     this.scene.clear();
     this.axisHelper = null; // Reset reference since scene.clear() removed it
     this.axisWireframeCube = null; // Reset wireframe cube reference too
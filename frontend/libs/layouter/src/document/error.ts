@@ -0,0 +1,29 @@
+// Problem found at one location of a document
+// `path` is a JSONPath to the offending value, e.g. `$.root.items[0].style.fontSize`
+export interface DocumentIssue {
+  path: string;
+  message: string;
+}
+
+export interface DocumentParseError {
+  kind: 'DocumentParseError';
+  message: string;
+  issues: DocumentIssue[];
+}
+
+export function createDocumentParseError(issues: DocumentIssue[]): DocumentParseError {
+  return {
+    kind: 'DocumentParseError',
+    message: issues.map((issue) => `${issue.path}: ${issue.message}`).join('\n'),
+    issues,
+  };
+}
+
+export function isDocumentParseError(value: unknown): value is DocumentParseError {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    'kind' in value &&
+    value.kind === 'DocumentParseError'
+  );
+}
@@ -0,0 +1,7 @@
+// Declarative Node documents: schema, validating parser and serializer
+export * from './error';
+export * from './json-schema';
+export * from './layout-document';
+export * from './parse-document';
+export * from './schema';
+export * from './serialize-document';
@@ -0,0 +1,305 @@
+import type { DocumentIssue } from './error';
+
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+
+// Subset of JSON Schema (draft 2020-12) used to describe layout documents
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  title?: string;
+  // Also used in error messages, so phrase it as a noun, e.g. "a length such as '12px'"
+  description?: string;
+  type?: JsonSchemaType;
+  const?: string | number | boolean;
+  enum?: readonly (string | number | boolean)[];
+  pattern?: string;
+  format?: string;
+  minimum?: number;
+  maximum?: number;
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: readonly string[];
+  additionalProperties?: boolean;
+  anyOf?: readonly JsonSchema[];
+}
+
+// Converters for string formats; the converted value replaces the string in the result
+export type JsonSchemaFormats = Record<string, (value: string) => unknown>;
+
+// Validate a value against a schema, collecting every issue instead of stopping at the first
+// Returns the value with formatted strings converted; only meaningful when no issues were added
+export function validateJsonSchema(
+  schema: JsonSchema,
+  value: unknown,
+  issues: DocumentIssue[],
+  formats: JsonSchemaFormats = {}
+): unknown {
+  return new JsonSchemaValidator(schema, formats).validate(schema, value, '$', issues);
+}
+
+class JsonSchemaValidator {
+  private readonly root: JsonSchema;
+  private readonly formats: JsonSchemaFormats;
+
+  constructor(root: JsonSchema, formats: JsonSchemaFormats) {
+    this.root = root;
+    this.formats = formats;
+  }
+
+  validate(schema: JsonSchema, value: unknown, path: string, issues: DocumentIssue[]): unknown {
+    const resolved = this.resolve(schema);
+    if (resolved.anyOf) {
+      return this.validateAnyOf(resolved, resolved.anyOf, value, path, issues);
+    }
+
+    if (resolved.const !== undefined && value !== resolved.const) {
+      issues.push({ path, message: `Expected ${JSON.stringify(resolved.const)}` });
+      return value;
+    }
+    if (resolved.enum && !resolved.enum.includes(value as string | number | boolean)) {
+      issues.push({
+        path,
+        message: `Expected one of ${resolved.enum.map((item) => JSON.stringify(item)).join(', ')}`,
+      });
+      return value;
+    }
+    if (resolved.type && !matchesType(resolved.type, value)) {
+      issues.push({
+        path,
+        message: `Expected ${this.describe(resolved)}, got ${typeName(value)}`,
+      });
+      return value;
+    }
+
+    if (typeof value === 'string') {
+      return this.validateString(resolved, value, path, issues);
+    }
+    if (typeof value === 'number') {
+      validateNumber(resolved, value, path, issues);
+      return value;
+    }
+    if (Array.isArray(value)) {
+      const items = resolved.items;
+      return items
+        ? value.map((item, index) => this.validate(items, item, `${path}[${index}]`, issues))
+        : value;
+    }
+    if (isObject(value)) {
+      return this.validateObject(resolved, value, path, issues);
+    }
+    return value;
+  }
+
+  private validateString(
+    schema: JsonSchema,
+    value: string,
+    path: string,
+    issues: DocumentIssue[]
+  ): unknown {
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      issues.push({
+        path,
+        message: `Expected ${this.describe(schema)}, got ${JSON.stringify(value)}`,
+      });
+      return value;
+    }
+    const convert = schema.format ? this.formats[schema.format] : undefined;
+    if (!convert) {
+      return value;
+    }
+    try {
+      return convert(value);
+    } catch (error) {
+      issues.push({ path, message: error instanceof Error ? error.message : String(error) });
+      return value;
+    }
+  }
+
+  private validateObject(
+    schema: JsonSchema,
+    value: Record<string, unknown>,
+    path: string,
+    issues: DocumentIssue[]
+  ): Record<string, unknown> {
+    const properties = schema.properties ?? {};
+    for (const name of schema.required ?? []) {
+      if (value[name] === undefined) {
+        issues.push({ path, message: `Missing required property ${JSON.stringify(name)}` });
+      }
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [name, property] of Object.entries(value)) {
+      const propertyPath = childPath(path, name);
+      const propertySchema = properties[name];
+      if (!propertySchema) {
+        if (schema.additionalProperties === false) {
+          issues.push({ path: propertyPath, message: `Unknown property ${JSON.stringify(name)}` });
+        } else {
+          result[name] = property;
+        }
+        continue;
+      }
+      result[name] = this.validate(propertySchema, property, propertyPath, issues);
+    }
+    return result;
+  }
+
+  // The first branch accepting the value wins; when none does, report the most specific issues
+  private validateAnyOf(
+    schema: JsonSchema,
+    branches: readonly JsonSchema[],
+    value: unknown,
+    path: string,
+    issues: DocumentIssue[]
+  ): unknown {
+    const attempts = branches.map((branch) => {
+      const branchIssues: DocumentIssue[] = [];
+      const result = this.validate(branch, value, path, branchIssues);
+      return { branch: this.resolve(branch), result, issues: branchIssues };
+    });
+    const accepted = attempts.find((attempt) => attempt.issues.length === 0);
+    if (accepted) {
+      return accepted.result;
+    }
+
+    // Objects told apart by a `kind` constant report the issues of the branch with that kind
+    const kinds = attempts.map((attempt) => attempt.branch.properties?.kind?.const);
+    if (isObject(value) && kinds.every((kind) => kind !== undefined)) {
+      const selected = attempts[kinds.indexOf(value.kind as string)];
+      if (selected) {
+        issues.push(...selected.issues);
+      } else if (value.kind === undefined) {
+        issues.push({ path, message: 'Missing required property "kind"' });
+      } else {
+        issues.push({
+          path: childPath(path, 'kind'),
+          message: `Expected one of ${kinds.map((kind) => JSON.stringify(kind)).join(', ')}`,
+        });
+      }
+      return value;
+    }
+
+    // When only one branch accepts this type of value, its issues are more precise than a summary
+    const candidates = attempts.filter((attempt) =>
+      this.acceptedTypes(attempt.branch).has(typeName(value))
+    );
+    if (candidates.length === 1) {
+      issues.push(...candidates[0].issues);
+      return value;
+    }
+    issues.push({
+      path,
+      message: `Expected ${this.describe(schema)}, got ${describeValue(value)}`,
+    });
+    return value;
+  }
+
+  // Human readable name of what a schema accepts
+  private describe(schema: JsonSchema): string {
+    const resolved = this.resolve(schema);
+    if (resolved.description) {
+      return resolved.description;
+    }
+    if (resolved.anyOf) {
+      const descriptions = resolved.anyOf.map((branch) => this.describe(branch));
+      return [...new Set(descriptions)].join(' or ');
+    }
+    if (resolved.const !== undefined) {
+      return JSON.stringify(resolved.const);
+    }
+    if (resolved.enum) {
+      return `one of ${resolved.enum.map((item) => JSON.stringify(item)).join(', ')}`;
+    }
+    return resolved.type ? withArticle(resolved.type) : 'any value';
+  }
+
+  // Value types (as named by typeName) a schema may accept
+  private acceptedTypes(schema: JsonSchema): Set<string> {
+    const resolved = this.resolve(schema);
+    if (resolved.anyOf) {
+      return new Set(resolved.anyOf.flatMap((branch) => [...this.acceptedTypes(branch)]));
+    }
+    if (resolved.const !== undefined) {
+      return new Set([typeof resolved.const]);
+    }
+    if (resolved.enum) {
+      return new Set(resolved.enum.map((item) => typeof item));
+    }
+    if (resolved.type === 'integer') {
+      return new Set(['number']);
+    }
+    return new Set(resolved.type ? [resolved.type] : []);
+  }
+
+  // Follow local references of the form `#/$defs/name`
+  private resolve(schema: JsonSchema): JsonSchema {
+    if (!schema.$ref) {
+      return schema;
+    }
+    const name = schema.$ref.replace(/^#\/\$defs\//, '');
+    const target = this.root.$defs?.[name];
+    if (!target) {
+      throw new Error(`Unresolvable schema reference: ${schema.$ref}`);
+    }
+    return this.resolve(target);
+  }
+}
+
+function validateNumber(
+  schema: JsonSchema,
+  value: number,
+  path: string,
+  issues: DocumentIssue[]
+): void {
+  if (schema.minimum !== undefined && value < schema.minimum) {
+    issues.push({ path, message: `Expected a number of at least ${schema.minimum}, got ${value}` });
+  }
+  if (schema.maximum !== undefined && value > schema.maximum) {
+    issues.push({ path, message: `Expected a number of at most ${schema.maximum}, got ${value}` });
+  }
+}
+
+function matchesType(type: JsonSchemaType, value: unknown): boolean {
+  switch (type) {
+    case 'object':
+      return isObject(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'string':
+    case 'boolean':
+      return typeof value === type;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function typeName(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  return Array.isArray(value) ? 'array' : typeof value;
+}
+
+function describeValue(value: unknown): string {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean'
+    ? JSON.stringify(value)
+    : typeName(value);
+}
+
+function withArticle(type: JsonSchemaType): string {
+  return type === 'array' || type === 'object' || type === 'integer' ? `an ${type}` : `a ${type}`;
+}
+
+// JSONPath of a property, using bracket notation for names that are not identifiers
+function childPath(path: string, name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? `${path}.${name}` : `${path}[${JSON.stringify(name)}]`;
+}
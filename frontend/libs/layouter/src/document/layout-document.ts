@@ -0,0 +1,23 @@
+import type { Node } from '../node';
+
+// Version of the document format written by this library
+// Bump it whenever a change to the schema would make older documents invalid
+export const LAYOUT_DOCUMENT_VERSION = 1;
+
+// Identifier of the schema documents may refer to with `$schema`
+export const LAYOUT_DOCUMENT_SCHEMA_ID = `urn:kuumu:layout-document:v${LAYOUT_DOCUMENT_VERSION}`;
+
+// File representation of a Node tree
+export interface LayoutDocument {
+  $schema?: string;
+  version: typeof LAYOUT_DOCUMENT_VERSION;
+  root: Node;
+}
+
+export function createLayoutDocument(root: Node): LayoutDocument {
+  return {
+    $schema: LAYOUT_DOCUMENT_SCHEMA_ID,
+    version: LAYOUT_DOCUMENT_VERSION,
+    root,
+  };
+}
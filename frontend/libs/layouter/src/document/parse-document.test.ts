@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import type { Node } from '../node';
+import { u } from '../scaling';
+import { isDocumentParseError } from './error';
+import { LAYOUT_DOCUMENT_VERSION } from './layout-document';
+import { parseLayoutDocument, parseLayoutDocumentJson } from './parse-document';
+import { serializeLayoutDocument } from './serialize-document';
+
+const issuePaths = (result: unknown) =>
+  isDocumentParseError(result) ? result.issues.map((issue) => issue.path) : [];
+
+describe('parseLayoutDocumentJson', () => {
+  it('parses a valid document', () => {
+    const result = parseLayoutDocumentJson(
+      JSON.stringify({ version: 1, root: { kind: 'text', item: 'hello' } })
+    );
+
+    expect(result).toEqual({ version: 1, root: { kind: 'text', item: 'hello' } });
+  });
+
+  it('reports every problem with its JSON path', () => {
+    const result = parseLayoutDocumentJson(
+      JSON.stringify({
+        version: 1,
+        root: {
+          kind: 'vertical',
+          items: [
+            { kind: 'text', item: 'a', style: { fontSize: 'large' } },
+            { kind: 'unknown' },
+            { kind: 'text', item: 'b', extra: true },
+          ],
+        },
+      })
+    );
+
+    expect(isDocumentParseError(result)).toBe(true);
+    expect(issuePaths(result)).toEqual([
+      '$.root.items[0].style.fontSize',
+      '$.root.items[1].kind',
+      '$.root.items[2].extra',
+    ]);
+  });
+
+  it('reports syntax errors at the root', () => {
+    const result = parseLayoutDocumentJson('{"version": 1,');
+
+    expect(issuePaths(result)).toEqual(['$']);
+  });
+
+  it('requires a version and rejects other versions', () => {
+    expect(issuePaths(parseLayoutDocument({ root: { kind: 'text', item: '' } }))).toEqual(['$']);
+
+    const other = parseLayoutDocument({ version: 99, root: { kind: 'text', item: '' } });
+    expect(issuePaths(other)).toEqual(['$.version']);
+  });
+
+  it('resolves lengths written with a unit and keeps percentages', () => {
+    const result = parseLayoutDocumentJson(
+      JSON.stringify({
+        version: 1,
+        root: { kind: 'text', item: 'a', style: { fontSize: '1rem', width: '50%' } },
+      })
+    );
+
+    expect(result).toMatchObject({
+      root: { style: { fontSize: u('1rem'), width: '50%' } },
+    });
+  });
+});
+
+describe('serializeLayoutDocument', () => {
+  it('writes documents the parser reads back', () => {
+    const root: Node = {
+      kind: 'horizontal',
+      tag: 'toolbar',
+      style: { spacing: 4, padding: { top: 1, right: 2, bottom: 1, left: 2 } },
+      items: [
+        { kind: 'text', item: [{ text: 'bold', style: { fontWeight: 'bold' } }] },
+        { kind: 'container', style: { flexGrow: 1 }, item: { kind: 'text', item: 'rest' } },
+      ],
+    };
+    const result = parseLayoutDocumentJson(serializeLayoutDocument(root));
+
+    expect(result).toMatchObject({ version: LAYOUT_DOCUMENT_VERSION, root });
+  });
+});
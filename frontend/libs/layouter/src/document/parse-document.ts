@@ -0,0 +1,44 @@
+import { u } from '../scaling';
+import { createDocumentParseError, type DocumentIssue, type DocumentParseError } from './error';
+import { validateJsonSchema } from './json-schema';
+import { LAYOUT_DOCUMENT_VERSION, type LayoutDocument } from './layout-document';
+import { LAYOUT_DOCUMENT_SCHEMA, UNIT_FORMAT } from './schema';
+
+// Parse JSON text into a LayoutDocument
+// Returns DocumentParseError listing every problem with the JSONPath where it was found
+export function parseLayoutDocumentJson(text: string): LayoutDocument | DocumentParseError {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    return createDocumentParseError([
+      { path: '$', message: error instanceof Error ? error.message : 'Invalid JSON' },
+    ]);
+  }
+  return parseLayoutDocument(value);
+}
+
+// Validate an already decoded value (e.g. the result of JSON.parse) as a LayoutDocument
+// Lengths written with a unit are resolved to layout units with the current unit system
+export function parseLayoutDocument(value: unknown): LayoutDocument | DocumentParseError {
+  // Documents of another version would only produce confusing schema errors
+  const version =
+    typeof value === 'object' && value !== null && 'version' in value ? value.version : undefined;
+  if (version !== undefined && version !== LAYOUT_DOCUMENT_VERSION) {
+    return createDocumentParseError([
+      {
+        path: '$.version',
+        message: `Unsupported document version ${JSON.stringify(version)}, expected ${LAYOUT_DOCUMENT_VERSION}`,
+      },
+    ]);
+  }
+
+  const issues: DocumentIssue[] = [];
+  const document = validateJsonSchema(LAYOUT_DOCUMENT_SCHEMA, value, issues, {
+    [UNIT_FORMAT]: u,
+  });
+  if (issues.length > 0) {
+    return createDocumentParseError(issues);
+  }
+  return document as LayoutDocument;
+}
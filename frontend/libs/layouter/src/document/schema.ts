@@ -0,0 +1,455 @@
+import type {
+  BorderStyle,
+  ConnectorArrowheads,
+  ConnectorRouting,
+  FontWeight,
+  GridAlignment,
+  HorizontalAlignment,
+  ImageFit,
+  Justification,
+  Overflow,
+  OverlayAnchor,
+  TextAlign,
+  VerticalAlignment,
+  WhiteSpace,
+  WordBreak,
+} from '../style';
+import type { JsonSchema } from './json-schema';
+import { LAYOUT_DOCUMENT_SCHEMA_ID, LAYOUT_DOCUMENT_VERSION } from './layout-document';
+
+// String format for lengths written with a unit (e.g. '12px', '1.5rem'), converted with `u`
+export const UNIT_FORMAT = 'unit';
+
+const JUSTIFICATIONS = [
+  'start',
+  'center',
+  'end',
+  'space-between',
+  'space-around',
+  'space-evenly',
+] as const satisfies readonly Justification[];
+const HORIZONTAL_ALIGNMENTS = [
+  'top',
+  'center',
+  'bottom',
+  'stretch',
+  'baseline',
+] as const satisfies readonly HorizontalAlignment[];
+const VERTICAL_ALIGNMENTS = [
+  'left',
+  'center',
+  'right',
+  'stretch',
+] as const satisfies readonly VerticalAlignment[];
+const GRID_ALIGNMENTS = [
+  'start',
+  'center',
+  'end',
+  'stretch',
+] as const satisfies readonly GridAlignment[];
+const TEXT_ALIGNS = ['left', 'center', 'right'] as const satisfies readonly TextAlign[];
+const WHITE_SPACES = [
+  'normal',
+  'nowrap',
+  'pre',
+  'pre-wrap',
+  'pre-line',
+] as const satisfies readonly WhiteSpace[];
+const WORD_BREAKS = [
+  'normal',
+  'break-all',
+  'keep-all',
+  'break-word',
+] as const satisfies readonly WordBreak[];
+const FONT_WEIGHTS = ['normal', 'bold'] as const satisfies readonly FontWeight[];
+const BORDER_STYLES = ['solid', 'dashed'] as const satisfies readonly BorderStyle[];
+const CONNECTOR_ROUTINGS = [
+  'straight',
+  'orthogonal',
+  'curved',
+] as const satisfies readonly ConnectorRouting[];
+const CONNECTOR_ARROWHEADS = [
+  'none',
+  'start',
+  'end',
+  'both',
+] as const satisfies readonly ConnectorArrowheads[];
+const OVERLAY_ANCHORS = [
+  'top-left',
+  'top',
+  'top-right',
+  'left',
+  'center',
+  'right',
+  'bottom-left',
+  'bottom',
+  'bottom-right',
+] as const satisfies readonly OverlayAnchor[];
+const OVERFLOWS = ['visible', 'hidden', 'scroll'] as const satisfies readonly Overflow[];
+const IMAGE_FITS = ['contain', 'cover', 'fill'] as const satisfies readonly ImageFit[];
+
+const ref = (name: string): JsonSchema => ({ $ref: `#/$defs/${name}` });
+
+// Properties shared by every style, following the interfaces in ../style
+const SIZING_PROPERTIES: Record<string, JsonSchema> = {
+  width: { anyOf: [ref('length'), { const: 'auto' }] },
+  height: { anyOf: [ref('length'), { const: 'auto' }] },
+  minWidth: ref('length'),
+  minHeight: ref('length'),
+  maxWidth: { anyOf: [ref('length'), { const: 'none' }] },
+  maxHeight: { anyOf: [ref('length'), { const: 'none' }] },
+  flexGrow: { type: 'number', minimum: 0 },
+  flexShrink: { type: 'number', minimum: 0 },
+};
+
+const BORDER_SIDE_PROPERTIES: Record<string, JsonSchema> = {
+  color: ref('color'),
+  width: ref('dimension'),
+  style: { enum: BORDER_STYLES },
+};
+
+const APPEARANCE_PROPERTIES: Record<string, JsonSchema> = {
+  backgroundColor: ref('color'),
+  opacity: ref('opacity'),
+  wireframe: { type: 'boolean' },
+  wireframeColor: ref('color'),
+};
+
+const CONTAINER_PROPERTIES: Record<string, JsonSchema> = {
+  ...SIZING_PROPERTIES,
+  ...APPEARANCE_PROPERTIES,
+  border: ref('border'),
+  borderRadius: ref('borderRadius'),
+  backgroundGradient: { anyOf: [ref('gradient'), { const: 'none' }] },
+  shadow: { anyOf: [ref('boxShadow'), { const: 'none' }] },
+  padding: ref('padding'),
+  // Inherited by descendant text nodes
+  color: ref('color'),
+  fontSize: ref('dimension'),
+  fontFamily: { type: 'string' },
+};
+
+const LAYOUT_PROPERTIES: Record<string, JsonSchema> = {
+  ...CONTAINER_PROPERTIES,
+  spacing: ref('dimension'),
+  justification: { enum: JUSTIFICATIONS },
+};
+
+const SPAN_STYLE_PROPERTIES: Record<string, JsonSchema> = {
+  color: ref('color'),
+  fontSize: ref('dimension'),
+  fontFamily: { type: 'string' },
+  fontWeight: { enum: FONT_WEIGHTS },
+  underline: { type: 'boolean' },
+};
+
+// Common identity properties of every node
+const NODE_PROPERTIES: Record<string, JsonSchema> = {
+  id: { type: 'string' },
+  tag: { type: 'string' },
+};
+
+// Every kind but connectors has a box that can take focus
+const BOXED_NODE_PROPERTIES: Record<string, JsonSchema> = {
+  ...NODE_PROPERTIES,
+  focusable: { type: 'boolean' },
+};
+
+const strictObject = (
+  properties: Record<string, JsonSchema>,
+  required: readonly string[] = []
+): JsonSchema => ({
+  type: 'object',
+  properties,
+  required,
+  additionalProperties: false,
+});
+
+// JSON Schema of a LayoutDocument, for editors and for validation when parsing
+export const LAYOUT_DOCUMENT_SCHEMA: JsonSchema = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: LAYOUT_DOCUMENT_SCHEMA_ID,
+  title: 'Kuumu layout document',
+  ...strictObject(
+    {
+      $schema: { type: 'string' },
+      version: { const: LAYOUT_DOCUMENT_VERSION },
+      root: ref('node'),
+    },
+    ['version', 'root']
+  ),
+  $defs: {
+    unit: {
+      description: "a length with a unit such as '12px' or '1.5rem'",
+      type: 'string',
+      pattern: '^\\d+(\\.\\d+)?(rem|em|px|vw|vh|srem|prem|sem|pem)$',
+      format: UNIT_FORMAT,
+    },
+    percentage: {
+      description: "a percentage such as '50%'",
+      type: 'string',
+      pattern: '^-?\\d+(\\.\\d+)?%$',
+    },
+    // Absolute size: layout units or a length with a unit
+    dimension: { anyOf: [{ type: 'number' }, ref('unit')] },
+    // Size that may also be relative to the parent's content box
+    length: { anyOf: [{ type: 'number' }, ref('unit'), ref('percentage')] },
+    color: { description: "a color such as 'white' or '#ff8800'", type: 'string' },
+    opacity: { type: 'number', minimum: 0, maximum: 1 },
+    padding: strictObject({
+      top: ref('dimension'),
+      right: ref('dimension'),
+      bottom: ref('dimension'),
+      left: ref('dimension'),
+    }),
+    borderSide: strictObject(BORDER_SIDE_PROPERTIES),
+    border: strictObject({
+      ...BORDER_SIDE_PROPERTIES,
+      top: ref('borderSide'),
+      right: ref('borderSide'),
+      bottom: ref('borderSide'),
+      left: ref('borderSide'),
+    }),
+    borderRadius: {
+      anyOf: [
+        ref('dimension'),
+        strictObject({
+          topLeft: ref('dimension'),
+          topRight: ref('dimension'),
+          bottomRight: ref('dimension'),
+          bottomLeft: ref('dimension'),
+        }),
+      ],
+    },
+    gradientStop: strictObject(
+      { color: ref('color'), offset: { type: 'number', minimum: 0, maximum: 1 } },
+      ['color', 'offset']
+    ),
+    gradient: {
+      description: 'a gradient object with a "type"',
+      anyOf: [
+        strictObject(
+          {
+            type: { const: 'linear' },
+            angle: { type: 'number' },
+            stops: { type: 'array', items: ref('gradientStop') },
+          },
+          ['type', 'stops']
+        ),
+        strictObject(
+          {
+            type: { const: 'radial' },
+            center: strictObject(
+              {
+                x: { type: 'number', minimum: 0, maximum: 1 },
+                y: { type: 'number', minimum: 0, maximum: 1 },
+              },
+              ['x', 'y']
+            ),
+            radius: ref('dimension'),
+            stops: { type: 'array', items: ref('gradientStop') },
+          },
+          ['type', 'stops']
+        ),
+      ],
+    },
+    boxShadow: strictObject({
+      offsetX: ref('dimension'),
+      offsetY: ref('dimension'),
+      blur: ref('dimension'),
+      spread: ref('dimension'),
+      color: ref('color'),
+      opacity: ref('opacity'),
+    }),
+    gridTrack: {
+      anyOf: [
+        ref('dimension'),
+        { const: 'auto' },
+        {
+          description: 'a fraction such as { "fr": 1 }',
+          ...strictObject({ fr: { type: 'number', minimum: 0 } }, ['fr']),
+        },
+      ],
+    },
+
+    containerNodeStyle: strictObject(CONTAINER_PROPERTIES),
+    horizontalLayoutNodeStyle: strictObject({
+      ...LAYOUT_PROPERTIES,
+      alignment: { enum: HORIZONTAL_ALIGNMENTS },
+    }),
+    verticalLayoutNodeStyle: strictObject({
+      ...LAYOUT_PROPERTIES,
+      alignment: { enum: VERTICAL_ALIGNMENTS },
+    }),
+    gridLayoutNodeStyle: strictObject({
+      ...CONTAINER_PROPERTIES,
+      columns: { type: 'array', items: ref('gridTrack') },
+      rows: { type: 'array', items: ref('gridTrack') },
+      columnGap: ref('dimension'),
+      rowGap: ref('dimension'),
+      horizontalAlignment: { enum: GRID_ALIGNMENTS },
+      verticalAlignment: { enum: GRID_ALIGNMENTS },
+    }),
+    textNodeStyle: strictObject({
+      ...SIZING_PROPERTIES,
+      ...APPEARANCE_PROPERTIES,
+      ...SPAN_STYLE_PROPERTIES,
+      heightMode: { enum: ['fixed', 'dynamic'] },
+      lineHeight: { type: 'number', minimum: 0 },
+      textAlign: { enum: TEXT_ALIGNS },
+      whiteSpace: { enum: WHITE_SPACES },
+      wordBreak: { enum: WORD_BREAKS },
+    }),
+    overlayNodeStyle: strictObject({
+      ...CONTAINER_PROPERTIES,
+      anchor: { enum: OVERLAY_ANCHORS },
+    }),
+    scrollNodeStyle: strictObject({
+      ...CONTAINER_PROPERTIES,
+      overflow: { enum: OVERFLOWS },
+    }),
+    imageNodeStyle: strictObject({
+      ...CONTAINER_PROPERTIES,
+      fit: { enum: IMAGE_FITS },
+      placeholderColor: ref('color'),
+    }),
+    connectorNodeStyle: strictObject({
+      ...SIZING_PROPERTIES,
+      routing: { enum: CONNECTOR_ROUTINGS },
+      color: ref('color'),
+      lineWidth: ref('dimension'),
+      opacity: ref('opacity'),
+      arrowheads: { enum: CONNECTOR_ARROWHEADS },
+      arrowSize: ref('dimension'),
+    }),
+    textSpanStyle: strictObject(SPAN_STYLE_PROPERTIES),
+    textSpan: strictObject({ text: { type: 'string' }, style: ref('textSpanStyle') }, ['text']),
+
+    node: {
+      description: 'a node object with a "kind"',
+      anyOf: [
+        ref('verticalLayoutNode'),
+        ref('horizontalLayoutNode'),
+        ref('gridLayoutNode'),
+        ref('containerNode'),
+        ref('textNode'),
+        ref('imageNode'),
+        ref('connectorNode'),
+        ref('overlayNode'),
+        ref('scrollNode'),
+      ],
+    },
+    verticalLayoutNode: strictObject(
+      {
+        kind: { const: 'vertical' },
+        ...BOXED_NODE_PROPERTIES,
+        items: { type: 'array', items: ref('node') },
+        style: ref('verticalLayoutNodeStyle'),
+      },
+      ['kind', 'items']
+    ),
+    horizontalLayoutNode: strictObject(
+      {
+        kind: { const: 'horizontal' },
+        ...BOXED_NODE_PROPERTIES,
+        items: { type: 'array', items: ref('node') },
+        style: ref('horizontalLayoutNodeStyle'),
+      },
+      ['kind', 'items']
+    ),
+    gridLayoutNode: strictObject(
+      {
+        kind: { const: 'grid' },
+        ...BOXED_NODE_PROPERTIES,
+        cells: { type: 'array', items: ref('gridCell') },
+        style: ref('gridLayoutNodeStyle'),
+      },
+      ['kind', 'cells']
+    ),
+    gridCell: strictObject(
+      {
+        item: ref('node'),
+        row: { type: 'integer', minimum: 0 },
+        column: { type: 'integer', minimum: 0 },
+        rowSpan: { type: 'integer', minimum: 1 },
+        columnSpan: { type: 'integer', minimum: 1 },
+        horizontalAlignment: { enum: GRID_ALIGNMENTS },
+        verticalAlignment: { enum: GRID_ALIGNMENTS },
+      },
+      ['item']
+    ),
+    overlayNode: strictObject(
+      {
+        kind: { const: 'overlay' },
+        ...BOXED_NODE_PROPERTIES,
+        layers: { type: 'array', items: ref('overlayLayer') },
+        style: ref('overlayNodeStyle'),
+      },
+      ['kind', 'layers']
+    ),
+    overlayLayer: strictObject(
+      {
+        item: ref('node'),
+        anchor: { enum: OVERLAY_ANCHORS },
+        offsetX: ref('dimension'),
+        offsetY: ref('dimension'),
+      },
+      ['item']
+    ),
+    scrollNode: strictObject(
+      {
+        kind: { const: 'scroll' },
+        ...BOXED_NODE_PROPERTIES,
+        item: ref('node'),
+        scrollX: { type: 'number', minimum: 0 },
+        scrollY: { type: 'number', minimum: 0 },
+        style: ref('scrollNodeStyle'),
+      },
+      ['kind', 'item']
+    ),
+    containerNode: strictObject(
+      {
+        kind: { const: 'container' },
+        ...BOXED_NODE_PROPERTIES,
+        item: ref('node'),
+        style: ref('containerNodeStyle'),
+      },
+      ['kind', 'item']
+    ),
+    textNode: strictObject(
+      {
+        kind: { const: 'text' },
+        ...BOXED_NODE_PROPERTIES,
+        item: {
+          anyOf: [{ type: 'string' }, { type: 'array', items: ref('textSpan') }],
+        },
+        editable: { type: 'boolean' },
+        style: ref('textNodeStyle'),
+      },
+      ['kind', 'item']
+    ),
+    imageNode: strictObject(
+      {
+        kind: { const: 'image' },
+        ...BOXED_NODE_PROPERTIES,
+        source: { description: 'a URL or data URI', type: 'string' },
+        intrinsicSize: strictObject({ width: ref('dimension'), height: ref('dimension') }, [
+          'width',
+          'height',
+        ]),
+        style: ref('imageNodeStyle'),
+      },
+      ['kind', 'source']
+    ),
+    connectorNode: strictObject(
+      {
+        kind: { const: 'connector' },
+        ...NODE_PROPERTIES,
+        from: { description: 'the id or tag of a node', type: 'string' },
+        to: { description: 'the id or tag of a node', type: 'string' },
+        style: ref('connectorNodeStyle'),
+      },
+      ['kind', 'from', 'to']
+    ),
+  },
+};
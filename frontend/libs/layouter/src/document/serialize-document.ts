@@ -0,0 +1,8 @@
+import type { Node } from '../node';
+import { createLayoutDocument } from './layout-document';
+
+// Serialize a Node tree as a LayoutDocument in JSON
+// Lengths are written in layout units, as units are already resolved in a Node tree
+export function serializeLayoutDocument(root: Node, indent = 2): string {
+  return JSON.stringify(createLayoutDocument(root), null, indent);
+}
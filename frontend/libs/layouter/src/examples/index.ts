@@ -1,3 +1,10 @@
+export { simpleConnectorNode } from './simple-connector-node';
 export { simpleContainerNode } from './simple-container-node';
+export { simpleFlexLayoutNode } from './simple-flex-layout-node';
+export { simpleGridLayoutNode } from './simple-grid-layout-node';
 export { simpleHorizontalLayoutNode } from './simple-horizontal-layout-node';
+export { simpleLargeGridNode } from './simple-large-grid-node';
+export { simpleOverlayNode } from './simple-overlay-node';
+export { simpleScrollNode } from './simple-scroll-node';
+export { simpleTextWrapNode } from './simple-text-wrap-node';
 export { simpleVerticalLayoutNode } from './simple-vertical-layout-node';
@@ -0,0 +1,43 @@
+import type { VerticalLayoutNode } from '../node';
+import { px } from '../scaling';
+
+export const simpleConnectorNode = (): VerticalLayoutNode => ({
+  kind: 'vertical',
+  tag: 'simple-connector',
+  style: { spacing: px(48) },
+  items: [
+    {
+      kind: 'horizontal',
+      tag: 'top-row',
+      style: { spacing: px(96) },
+      items: [
+        { kind: 'text', tag: 'start', item: 'Start' },
+        { kind: 'text', tag: 'decision', item: 'Decide' },
+      ],
+    },
+    {
+      kind: 'horizontal',
+      tag: 'bottom-row',
+      style: { spacing: px(96) },
+      items: [
+        { kind: 'text', tag: 'option-a', item: 'Option A' },
+        { kind: 'text', tag: 'option-b', item: 'Option B' },
+      ],
+    },
+    { kind: 'connector', tag: 'start-to-decision', from: 'start', to: 'decision' },
+    {
+      kind: 'connector',
+      tag: 'decision-to-option-b',
+      from: 'decision',
+      to: 'option-b',
+      style: { routing: 'orthogonal', color: 'orange' },
+    },
+    {
+      kind: 'connector',
+      tag: 'start-to-option-a',
+      from: 'start',
+      to: 'option-a',
+      style: { routing: 'curved', arrowheads: 'both', color: 'white' },
+    },
+  ],
+});
@@ -1,8 +1,12 @@
 import type { ContainerNode } from '../node';
+import { px } from '../scaling';
 
 export const simpleContainerNode = (): ContainerNode => ({
   kind: 'container',
   tag: 'simple-container',
+  style: {
+    border: { color: 'white', width: px(2), bottom: { color: 'orange', style: 'dashed' } },
+  },
   item: {
     kind: 'text',
     tag: 'inner-text',
@@ -0,0 +1,51 @@
+import type { VerticalLayoutNode } from '../node';
+import { px } from '../scaling';
+
+// The toolbar entries and panes take focus, so Tab cycles through them and the arrow keys move
+// along the rows (left and right) and between them (up and down)
+export const simpleFlexLayoutNode = (): VerticalLayoutNode => ({
+  kind: 'vertical',
+  tag: 'simple-flex',
+  style: {
+    width: px(480),
+  },
+  items: [
+    {
+      kind: 'horizontal',
+      tag: 'toolbar',
+      style: { width: '100%' },
+      items: [
+        { kind: 'text', tag: 'toolbar-title', item: 'Toolbar', focusable: true },
+        { kind: 'text', tag: 'toolbar-spacer', item: '', style: { flexGrow: 1, opacity: 0 } },
+        {
+          kind: 'text',
+          tag: 'toolbar-action',
+          item: 'Action',
+          focusable: true,
+          style: { width: px(120) },
+        },
+      ],
+    },
+    {
+      kind: 'horizontal',
+      tag: 'split-pane',
+      style: { width: '100%' },
+      items: [
+        {
+          kind: 'text',
+          tag: 'left-pane',
+          item: 'Left Pane',
+          focusable: true,
+          style: { width: '30%' },
+        },
+        {
+          kind: 'text',
+          tag: 'right-pane',
+          item: 'Right Pane',
+          focusable: true,
+          style: { flexGrow: 1 },
+        },
+      ],
+    },
+  ],
+});
@@ -0,0 +1,21 @@
+import type { GridLayoutNode } from '../node';
+
+export const simpleGridLayoutNode = (): GridLayoutNode => ({
+  kind: 'grid',
+  tag: 'simple-grid',
+  style: {
+    columns: ['auto', { fr: 1 }, 'auto'],
+  },
+  cells: [
+    {
+      item: { kind: 'text', tag: 'header-text', item: 'Header spanning all columns' },
+      columnSpan: 3,
+      horizontalAlignment: 'center',
+    },
+    { item: { kind: 'text', tag: 'name-label', item: 'Name' } },
+    { item: { kind: 'text', tag: 'name-value', item: 'Kuumu' }, horizontalAlignment: 'stretch' },
+    { item: { kind: 'text', tag: 'name-note', item: '名前' } },
+    { item: { kind: 'text', tag: 'kind-label', item: 'Kind' } },
+    { item: { kind: 'text', tag: 'kind-value', item: 'Grid Layout' }, columnSpan: 2 },
+  ],
+});
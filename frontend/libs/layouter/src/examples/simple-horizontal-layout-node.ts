@@ -1,4 +1,5 @@
 import type { HorizontalLayoutNode } from '../node';
+import { px } from '../scaling';
 
 export const simpleHorizontalLayoutNode = (): HorizontalLayoutNode => ({
   kind: 'horizontal',
@@ -13,6 +14,8 @@ export const simpleHorizontalLayoutNode = (): HorizontalLayoutNode => ({
       kind: 'text',
       tag: 'center-text',
       item: 'Center Item',
+      // Larger text makes the cross-axis alignment modes distinguishable
+      style: { fontSize: px(24) },
     },
     {
       kind: 'text',
@@ -0,0 +1,27 @@
+import type { GridLayoutNode } from '../node';
+
+const COLUMN_COUNT = 40;
+const ROW_COUNT = 250;
+
+// Sheet of ten thousand cells, far larger than the screen, to browse by panning and zooming
+export const simpleLargeGridNode = (): GridLayoutNode => ({
+  kind: 'grid',
+  tag: 'large-grid',
+  style: {
+    columns: Array.from({ length: COLUMN_COUNT }, () => 'auto' as const),
+  },
+  cells: Array.from({ length: ROW_COUNT * COLUMN_COUNT }, (_, index) => {
+    const row = Math.floor(index / COLUMN_COUNT) + 1;
+    const column = index % COLUMN_COUNT;
+    return {
+      item: { kind: 'text', item: `${columnName(column)}${row}` },
+      horizontalAlignment: 'center',
+    };
+  }),
+});
+
+// Spreadsheet style column names: A to Z, then AA, AB and so on
+function columnName(column: number): string {
+  const letter = String.fromCharCode(65 + (column % 26));
+  return column < 26 ? letter : columnName(Math.floor(column / 26) - 1) + letter;
+}
@@ -0,0 +1,33 @@
+import type { OverlayNode } from '../node';
+import { px } from '../scaling';
+
+export const simpleOverlayNode = (): OverlayNode => ({
+  kind: 'overlay',
+  tag: 'simple-overlay',
+  layers: [
+    {
+      item: {
+        kind: 'container',
+        tag: 'card',
+        style: { width: px(240), height: px(120), backgroundColor: 'navy' },
+        item: { kind: 'text', tag: 'card-title', item: 'Overlay Card' },
+      },
+    },
+    {
+      item: {
+        kind: 'text',
+        tag: 'badge',
+        item: 'NEW',
+        style: { color: 'white', backgroundColor: 'red' },
+      },
+      anchor: 'top-right',
+      offsetX: px(8),
+      offsetY: -px(8),
+    },
+    {
+      item: { kind: 'text', tag: 'caption', item: 'Layered caption' },
+      anchor: 'bottom',
+      offsetY: -px(8),
+    },
+  ],
+});
@@ -0,0 +1,37 @@
+import type { Node, ScrollNode } from '../node';
+import { px } from '../scaling';
+
+// Outline far taller than its panel, browsed by scrolling, whose entries can be edited in place
+export const simpleScrollNode = (): ScrollNode => ({
+  kind: 'scroll',
+  tag: 'outline-panel',
+  style: { width: px(280), height: px(240), border: { width: px(1) } },
+  item: {
+    kind: 'vertical',
+    tag: 'outline',
+    style: { spacing: px(4) },
+    items: Array.from({ length: 12 }, (_, chapter) => outlineChapter(chapter + 1)),
+  },
+});
+
+function outlineChapter(chapter: number): Node {
+  return {
+    kind: 'vertical',
+    tag: `chapter-${chapter}`,
+    style: { spacing: px(2) },
+    items: [
+      {
+        kind: 'text',
+        tag: `chapter-${chapter}-title`,
+        item: `Chapter ${chapter}`,
+        editable: true,
+      },
+      ...Array.from({ length: 4 }, (_, section) => ({
+        kind: 'text' as const,
+        tag: `chapter-${chapter}-section-${section + 1}`,
+        item: `  ${chapter}.${section + 1} Section`,
+        editable: true,
+      })),
+    ],
+  };
+}
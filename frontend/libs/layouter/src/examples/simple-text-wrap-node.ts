@@ -0,0 +1,38 @@
+import type { VerticalLayoutNode } from '../node';
+import { px } from '../scaling';
+
+export const simpleTextWrapNode = (): VerticalLayoutNode => ({
+  kind: 'vertical',
+  tag: 'simple-text-wrap',
+  style: { alignment: 'stretch' },
+  items: [
+    {
+      kind: 'text',
+      tag: 'wrapped-text',
+      item: 'こんにちは、世界。Long labels mixing 日本語 and English wrap at the maximum width.',
+      style: { maxWidth: px(240), textAlign: 'left' },
+    },
+    {
+      kind: 'text',
+      tag: 'multiline-text',
+      item: 'Explicit\nline breaks\nare kept',
+      style: { textAlign: 'center', lineHeight: 1.5 },
+    },
+    {
+      kind: 'text',
+      tag: 'break-word-text',
+      item: 'Averyveryverylongidentifierwithoutspaces',
+      style: { maxWidth: px(160), wordBreak: 'break-word', textAlign: 'right' },
+    },
+    {
+      kind: 'text',
+      tag: 'rich-text',
+      item: [
+        { text: 'const', style: { color: 'purple', fontWeight: 'bold' } },
+        { text: ' label = ' },
+        { text: "'強調'", style: { color: 'brown', fontSize: px(20), underline: true } },
+        { text: ';', style: { color: 'gray' } },
+      ],
+    },
+  ],
+});
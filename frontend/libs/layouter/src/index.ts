@@ -1,2 +1,3 @@
+export * from './layout';
 export * from './node';
 export * from './style';
@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+import type { ContainerNode, Node, TextNode } from '../node';
+import type { HorizontalAlignment, Justification, Padding, VerticalAlignment } from '../style';
+import { alignCrossAxis, justifyMainAxis } from './alignment';
+import { computeLayout } from './compute-layout';
+import type { TextMeasurer } from './text-measurer';
+
+// Same padding on every side
+const uniform = (value: number): Padding => ({
+  top: value,
+  right: value,
+  bottom: value,
+  left: value,
+});
+
+// Every character advances half the font size and text is one font size tall
+const measurer: TextMeasurer = {
+  measureText: (text, style) => ({
+    width: Array.from(text).length * ((style?.fontSize ?? 10) / 2),
+    height: style?.fontSize ?? 10,
+  }),
+  measureAdvance: (text, style) => Array.from(text).length * ((style?.fontSize ?? 10) / 2),
+};
+
+const box = (width: number, height: number): ContainerNode => ({
+  kind: 'container',
+  style: { width, height, padding: uniform(0) },
+  item: { kind: 'text', item: '' },
+});
+
+// Container without a size of its own, which stretching can resize
+const wrap = (item: Node): ContainerNode => ({
+  kind: 'container',
+  style: { padding: uniform(0) },
+  item,
+});
+
+const text = (item: string, fontSize: number): TextNode => ({
+  kind: 'text',
+  item,
+  style: { fontSize },
+});
+
+describe('justifyMainAxis', () => {
+  it.each([
+    ['start', 0, 5],
+    ['center', 30, 5],
+    ['end', 60, 5],
+    ['space-between', 0, 35],
+    ['space-around', 10, 25],
+    ['space-evenly', 15, 20],
+  ] as const)('distributes free space with %s', (justification, leading, between) => {
+    expect(justifyMainAxis(justification, 60, 3, 5)).toEqual({ leading, between });
+  });
+
+  it('centers a single item with space-between and space-around alike', () => {
+    expect(justifyMainAxis('space-between', 60, 1, 5)).toEqual({ leading: 0, between: 5 });
+    expect(justifyMainAxis('space-around', 60, 1, 5)).toEqual({ leading: 30, between: 65 });
+  });
+
+  it('packs overflowing items at the start', () => {
+    const modes: Justification[] = ['center', 'end', 'space-between', 'space-evenly'];
+    for (const justification of modes) {
+      expect(justifyMainAxis(justification, -20, 3, 5)).toMatchObject({ leading: 0, between: 5 });
+    }
+  });
+});
+
+describe('alignCrossAxis', () => {
+  it('places an item at the start, center or end of the available space', () => {
+    expect(alignCrossAxis('start', 100, 20)).toBe(0);
+    expect(alignCrossAxis('center', 100, 20)).toBe(40);
+    expect(alignCrossAxis('end', 100, 20)).toBe(80);
+  });
+});
+
+describe('horizontal layout alignment', () => {
+  const row = (alignment: HorizontalAlignment, items: Node[]) =>
+    computeLayout(
+      { kind: 'horizontal', style: { padding: uniform(0), spacing: 0, alignment }, items },
+      measurer
+    ).children;
+
+  it.each([
+    ['top', 0, 20],
+    ['center', 15, 20],
+    ['bottom', 30, 20],
+    ['stretch', 0, 50],
+  ] as const)('aligns items %s in the row', (alignment, y, height) => {
+    expect(row(alignment, [box(10, 50), wrap(box(10, 20))])[1]).toMatchObject({ y, height });
+  });
+
+  it('keeps explicit heights when stretching', () => {
+    expect(row('stretch', [box(10, 50), box(10, 20)])[1]).toMatchObject({ y: 0, height: 20 });
+  });
+
+  it('lines up the first baselines of the items with baseline', () => {
+    const [small, large] = row('baseline', [text('ab', 10), text('cd', 30)]);
+    const baselines = [small, large].map((child) => child.lines?.[0].baseline);
+
+    expect(baselines[0]).toBeCloseTo(baselines[1] ?? Number.NaN);
+    expect(small.y).toBeGreaterThan(large.y);
+  });
+});
+
+describe('vertical layout alignment', () => {
+  it.each([
+    ['left', 0, 20],
+    ['center', 15, 20],
+    ['right', 30, 20],
+    ['stretch', 0, 50],
+  ] as const)('aligns items %s in the column', (alignment: VerticalAlignment, x, width) => {
+    const [, child] = computeLayout(
+      {
+        kind: 'vertical',
+        style: { padding: uniform(0), spacing: 0, alignment },
+        items: [box(50, 10), wrap(box(20, 10))],
+      },
+      measurer
+    ).children;
+
+    expect(child).toMatchObject({ x, width });
+  });
+
+  it('distributes free space along the column by justification', () => {
+    const layout = computeLayout(
+      {
+        kind: 'vertical',
+        style: {
+          height: 100,
+          padding: uniform(0),
+          spacing: 0,
+          justification: 'space-between',
+        },
+        items: [box(10, 10), box(10, 10), box(10, 10)],
+      },
+      measurer
+    );
+
+    expect(layout.children.map((child) => child.y)).toEqual([0, 45, 90]);
+  });
+});
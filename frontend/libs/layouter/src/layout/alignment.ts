@@ -0,0 +1,59 @@
+import type { Justification } from '../style';
+import type { LayoutBox } from './layout-box';
+
+// Leading offset before the first item and distance between consecutive items
+export interface MainAxisDistribution {
+  leading: number;
+  between: number;
+}
+
+// Distribute free main-axis space according to the justification mode
+// Overflowing content (negative free space) is always packed at the start
+export function justifyMainAxis(
+  justification: Justification,
+  free: number,
+  count: number,
+  spacing: number
+): MainAxisDistribution {
+  const space = Math.max(0, free);
+  switch (justification) {
+    case 'start':
+      return { leading: 0, between: spacing };
+    case 'center':
+      return { leading: space / 2, between: spacing };
+    case 'end':
+      return { leading: space, between: spacing };
+    case 'space-between':
+      return count > 1
+        ? { leading: 0, between: spacing + space / (count - 1) }
+        : { leading: 0, between: spacing };
+    case 'space-around':
+      return count > 0
+        ? { leading: space / count / 2, between: spacing + space / count }
+        : { leading: 0, between: spacing };
+    case 'space-evenly':
+      return { leading: space / (count + 1), between: spacing + space / (count + 1) };
+  }
+}
+
+// Offset of an item along the cross axis for start/center/end placement
+export function alignCrossAxis(
+  alignment: 'start' | 'center' | 'end',
+  available: number,
+  size: number
+): number {
+  switch (alignment) {
+    case 'start':
+      return 0;
+    case 'center':
+      return (available - size) / 2;
+    case 'end':
+      return available - size;
+  }
+}
+
+// Distance from the top of a box to its baseline
+// Boxes without text use their bottom edge, like CSS synthesized baselines
+export function baselineOffset(box: LayoutBox): number {
+  return (box.baseline ?? box.y + box.height) - box.y;
+}
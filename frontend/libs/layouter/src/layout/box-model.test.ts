@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import type { ContainerNode } from '../node';
+import { DEFAULT_BORDER, type Padding } from '../style';
+import { resolveBorder, resolveBorderWidths, resolveCornerRadii } from './box-model';
+import { computeLayout } from './compute-layout';
+import type { TextMeasurer } from './text-measurer';
+
+// Same padding on every side
+const uniform = (value: number): Padding => ({
+  top: value,
+  right: value,
+  bottom: value,
+  left: value,
+});
+
+const measurer: TextMeasurer = {
+  measureText: () => ({ width: 0, height: 0 }),
+  measureAdvance: () => 0,
+};
+
+describe('resolveBorder', () => {
+  it('applies the shorthand to every side and lets sides override it', () => {
+    const border = resolveBorder({ width: 2, color: 'red', left: { width: 5, style: 'dashed' } });
+
+    expect(border.top).toEqual({ width: 2, color: 'red', style: DEFAULT_BORDER.style });
+    expect(border.left).toEqual({ width: 5, color: 'red', style: 'dashed' });
+  });
+
+  it('takes no space without a border', () => {
+    expect(resolveBorderWidths(undefined)).toEqual({ top: 0, right: 0, bottom: 0, left: 0 });
+  });
+});
+
+describe('border layout', () => {
+  const bordered = (style: ContainerNode['style']): ContainerNode => ({
+    kind: 'container',
+    style: { padding: uniform(3), border: { width: 2, left: { width: 5 } }, ...style },
+    item: {
+      kind: 'container',
+      style: { width: 10, height: 10, padding: uniform(0) },
+      item: { kind: 'text', item: '' },
+    },
+  });
+
+  it('shrinks the padding and content boxes by the border widths', () => {
+    const layout = computeLayout(bordered({ width: 100, height: 50 }), measurer);
+
+    expect(layout.paddingBox).toEqual({ x: 5, y: 2, width: 93, height: 46 });
+    expect(layout.contentBox).toEqual({ x: 8, y: 5, width: 87, height: 40 });
+    expect(layout.children[0]).toMatchObject({ x: 8, y: 5 });
+  });
+
+  it('grows auto-sized boxes by the border widths', () => {
+    expect(computeLayout(bordered({}), measurer)).toMatchObject({ width: 23, height: 20 });
+  });
+});
+
+describe('resolveCornerRadii', () => {
+  const every = (radius: number) => ({
+    topLeft: radius,
+    topRight: radius,
+    bottomRight: radius,
+    bottomLeft: radius,
+  });
+
+  it('applies a uniform radius to every corner', () => {
+    expect(resolveCornerRadii(5, 100, 50)).toEqual(every(5));
+    expect(resolveCornerRadii(undefined, 100, 50)).toEqual(every(0));
+  });
+
+  it('clamps radii larger than half a side to it', () => {
+    expect(resolveCornerRadii(40, 100, 50)).toEqual(every(25));
+  });
+
+  it('scales all corners down together when adjacent ones would overlap', () => {
+    expect(resolveCornerRadii({ topLeft: 90, topRight: 30, bottomLeft: 10 }, 100, 200)).toEqual({
+      topLeft: expect.closeTo(75),
+      topRight: expect.closeTo(25),
+      bottomRight: 0,
+      bottomLeft: expect.closeTo((10 * 100) / 120),
+    });
+  });
+
+  it('treats negative radii as square corners', () => {
+    expect(resolveCornerRadii(-5, 100, 50)).toEqual(every(0));
+  });
+});
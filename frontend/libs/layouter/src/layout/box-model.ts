@@ -0,0 +1,141 @@
+import {
+  type Border,
+  type BorderRadius,
+  type BorderSide,
+  type CornerRadii,
+  DEFAULT_BORDER,
+  DEFAULT_PADDING,
+  type Padding,
+} from '../style';
+import type { LayoutBox, Rect } from './layout-box';
+
+// Padding with every side resolved to a number
+export type ResolvedPadding = Required<Padding>;
+
+// Resolve padding given as a uniform number or a partial Padding object
+export function resolvePadding(padding: Padding | number): ResolvedPadding {
+  if (typeof padding === 'number') {
+    return { top: padding, right: padding, bottom: padding, left: padding };
+  }
+  return {
+    top: padding.top ?? DEFAULT_PADDING.top,
+    right: padding.right ?? DEFAULT_PADDING.right,
+    bottom: padding.bottom ?? DEFAULT_PADDING.bottom,
+    left: padding.left ?? DEFAULT_PADDING.left,
+  };
+}
+
+// Every side of a border with the shorthand values and defaults applied
+export type ResolvedBorder = Record<keyof ResolvedPadding, Required<BorderSide>>;
+
+export function resolveBorder(border: Border): ResolvedBorder {
+  const resolveSide = (side: BorderSide | undefined): Required<BorderSide> => ({
+    color: side?.color ?? border.color ?? DEFAULT_BORDER.color,
+    width: side?.width ?? border.width ?? DEFAULT_BORDER.width,
+    style: side?.style ?? border.style ?? DEFAULT_BORDER.style,
+  });
+  return {
+    top: resolveSide(border.top),
+    right: resolveSide(border.right),
+    bottom: resolveSide(border.bottom),
+    left: resolveSide(border.left),
+  };
+}
+
+// Space taken by the border on each side; zero for nodes without a border
+export function resolveBorderWidths(border: Border | undefined): ResolvedPadding {
+  if (!border) {
+    return { top: 0, right: 0, bottom: 0, left: 0 };
+  }
+  const { top, right, bottom, left } = resolveBorder(border);
+  return { top: top.width, right: right.width, bottom: bottom.width, left: left.width };
+}
+
+// Radius of every corner of a box of the given size
+// Like CSS, all radii are scaled down together when adjacent corners would overlap, and negative
+// radii leave their corners square
+export function resolveCornerRadii(
+  radius: BorderRadius | undefined,
+  width: number,
+  height: number
+): Required<CornerRadii> {
+  const corner = (value: number | undefined) => Math.max(0, value ?? 0);
+  const radii =
+    typeof radius === 'object'
+      ? {
+          topLeft: corner(radius.topLeft),
+          topRight: corner(radius.topRight),
+          bottomRight: corner(radius.bottomRight),
+          bottomLeft: corner(radius.bottomLeft),
+        }
+      : {
+          topLeft: corner(radius),
+          topRight: corner(radius),
+          bottomRight: corner(radius),
+          bottomLeft: corner(radius),
+        };
+
+  const scale = Math.min(
+    1,
+    width / (radii.topLeft + radii.topRight || 1),
+    width / (radii.bottomLeft + radii.bottomRight || 1),
+    height / (radii.topLeft + radii.bottomLeft || 1),
+    height / (radii.topRight + radii.bottomRight || 1)
+  );
+  return {
+    topLeft: radii.topLeft * scale,
+    topRight: radii.topRight * scale,
+    bottomRight: radii.bottomRight * scale,
+    bottomLeft: radii.bottomLeft * scale,
+  };
+}
+
+// Sum of two insets, e.g. border widths and padding
+export function addInsets(a: ResolvedPadding, b: ResolvedPadding): ResolvedPadding {
+  return {
+    top: a.top + b.top,
+    right: a.right + b.right,
+    bottom: a.bottom + b.bottom,
+    left: a.left + b.left,
+  };
+}
+
+// Shrink a rectangle by the given padding
+export function insetRect(rect: Rect, padding: ResolvedPadding): Rect {
+  return {
+    x: rect.x + padding.left,
+    y: rect.y + padding.top,
+    width: Math.max(0, rect.width - padding.left - padding.right),
+    height: Math.max(0, rect.height - padding.top - padding.bottom),
+  };
+}
+
+// Move a box and all of its descendants by the given offset
+export function translateBox(box: LayoutBox, dx: number, dy: number): LayoutBox {
+  return {
+    ...box,
+    x: box.x + dx,
+    y: box.y + dy,
+    paddingBox: translateRect(box.paddingBox, dx, dy),
+    contentBox: translateRect(box.contentBox, dx, dy),
+    baseline: box.baseline === undefined ? undefined : box.baseline + dy,
+    lines: box.lines?.map((line) => ({
+      ...line,
+      x: line.x + dx,
+      baseline: line.baseline + dy,
+      runs: line.runs.map((run) => ({ ...run, x: run.x + dx })),
+    })),
+    path: box.path?.map((point) => ({ x: point.x + dx, y: point.y + dy })),
+    clip: box.clip && translateRect(box.clip, dx, dy),
+    children: box.children.map((child) => translateBox(child, dx, dy)),
+  };
+}
+
+function translateRect(rect: Rect, dx: number, dy: number): Rect {
+  return { ...rect, x: rect.x + dx, y: rect.y + dy };
+}
+
+// Baseline of the first child that has one, used as the baseline of the parent
+export function firstBaseline(children: LayoutBox[]): number | undefined {
+  return children.find((child) => child.baseline !== undefined)?.baseline;
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import type { ContainerNode, Node, TextNode } from '../node';
+import { rem } from '../scaling';
+import type { Padding } from '../style';
+import { computeLayout } from './compute-layout';
+import type { TextMeasurer } from './text-measurer';
+
+// Same padding on every side
+const uniform = (value: number): Padding => ({
+  top: value,
+  right: value,
+  bottom: value,
+  left: value,
+});
+
+// Every character advances half the font size and text is one font size tall
+const measurer: TextMeasurer = {
+  measureText: (text, style) => ({
+    width: Array.from(text).length * ((style?.fontSize ?? 10) / 2),
+    height: style?.fontSize ?? 10,
+  }),
+  measureAdvance: (text, style) => Array.from(text).length * ((style?.fontSize ?? 10) / 2),
+};
+
+const box = (width: number, height: number): ContainerNode => ({
+  kind: 'container',
+  style: { width, height, padding: uniform(0) },
+  item: text(''),
+});
+
+const text = (item: string, fontSize = 10): TextNode => ({
+  kind: 'text',
+  item,
+  style: { fontSize, whiteSpace: 'nowrap' },
+});
+
+describe('computeLayout', () => {
+  it('places the root at the origin with its measured size', () => {
+    const layout = computeLayout(box(30, 20), measurer);
+
+    expect(layout).toMatchObject({ x: 0, y: 0, width: 30, height: 20 });
+  });
+
+  it('stacks the items of a vertical layout with spacing and padding', () => {
+    const node: Node = {
+      kind: 'vertical',
+      style: { padding: uniform(5), spacing: 2 },
+      items: [box(30, 20), box(10, 40)],
+    };
+    const layout = computeLayout(node, measurer);
+
+    expect(layout).toMatchObject({ width: 40, height: 72 });
+    expect(layout.contentBox).toEqual({ x: 5, y: 5, width: 30, height: 62 });
+    expect(layout.children.map(({ x, y, width, height }) => ({ x, y, width, height }))).toEqual([
+      { x: 5, y: 5, width: 30, height: 20 },
+      { x: 5, y: 27, width: 10, height: 40 },
+    ]);
+  });
+
+  it('places the items of a horizontal layout side by side', () => {
+    const node: Node = {
+      kind: 'horizontal',
+      style: { padding: uniform(0), spacing: 4, alignment: 'top' },
+      items: [box(30, 20), box(10, 40)],
+    };
+    const layout = computeLayout(node, measurer);
+
+    expect(layout).toMatchObject({ width: 44, height: 40 });
+    expect(layout.children.map(({ x, y }) => ({ x, y }))).toEqual([
+      { x: 0, y: 0 },
+      { x: 34, y: 0 },
+    ]);
+  });
+
+  it('sizes text from the measurer, with room around the glyphs', () => {
+    const layout = computeLayout(text('abcd', 20), measurer);
+
+    expect(layout.width).toBeCloseTo(40 + rem(0.5));
+    expect(layout.lines?.map((line) => line.text)).toEqual(['abcd']);
+  });
+
+  it('keeps the node of every box', () => {
+    const first = box(10, 10);
+    const node: Node = { kind: 'vertical', items: [first] };
+    const layout = computeLayout(node, measurer);
+
+    expect(layout.node).toBe(node);
+    expect(layout.children[0].node).toBe(first);
+  });
+});
@@ -0,0 +1,120 @@
+import type { Node } from '../node';
+import {
+  isConnectorNode,
+  isContainerNode,
+  isGridLayoutNode,
+  isHorizontalLayoutNode,
+  isImageNode,
+  isOverlayNode,
+  isScrollNode,
+  isTextNode,
+  isVerticalLayoutNode,
+} from '../node';
+import { arrangeConnectorNode, measureConnectorNode, routeConnectors } from './connector-layout';
+import { arrangeContainerNode, measureContainerNode } from './container-layout';
+import { arrangeGridLayoutNode, measureGridLayoutNode } from './grid-layout';
+import { arrangeHorizontalLayoutNode, measureHorizontalLayoutNode } from './horizontal-layout';
+import { arrangeImageNode, measureImageNode } from './image-layout';
+import type { LayoutBox, Rect, Size } from './layout-box';
+import { arrangeOverlayNode, measureOverlayNode } from './overlay-layout';
+import { arrangeScrollNode, measureScrollNode } from './scroll-layout';
+import { constrainSize } from './sizing';
+import { arrangeTextNode, measureTextNode } from './text-layout';
+import type { TextMeasurer } from './text-measurer';
+import { arrangeVerticalLayoutNode, measureVerticalLayoutNode } from './vertical-layout';
+
+// State shared by every node during a single layout pass
+export interface LayoutContext {
+  textMeasurer: TextMeasurer;
+  // Intrinsic sizes already computed in this pass, so each subtree is measured once
+  measureCache: Map<Node, Size>;
+}
+
+// Compute sizes and positions for a node tree without any renderer
+// The root node is placed at the origin with its intrinsic size; connectors are routed last
+export function computeLayout(node: Node, textMeasurer: TextMeasurer): LayoutBox {
+  const context: LayoutContext = { textMeasurer, measureCache: new Map() };
+  const size = measureNode(context, node);
+  const layout = arrangeNode(context, node, { x: 0, y: 0, ...size });
+  routeConnectors(layout);
+  return layout;
+}
+
+// Measure the size a node asks for: its content size adjusted by its own size constraints
+// Percentage sizes need the parent's box and are applied later by the parent's arrange step
+export function measureNode(context: LayoutContext, node: Node): Size {
+  const cached = context.measureCache.get(node);
+  if (cached) {
+    return cached;
+  }
+  const size = constrainSize(node, measureNodeByKind(context, node));
+  context.measureCache.set(node, size);
+  return size;
+}
+
+// Place a node and its descendants inside the given frame
+export function arrangeNode(context: LayoutContext, node: Node, frame: Rect): LayoutBox {
+  if (isTextNode(node)) {
+    return arrangeTextNode(context, node, frame);
+  }
+  if (isContainerNode(node)) {
+    return arrangeContainerNode(context, node, frame);
+  }
+  if (isHorizontalLayoutNode(node)) {
+    return arrangeHorizontalLayoutNode(context, node, frame);
+  }
+  if (isVerticalLayoutNode(node)) {
+    return arrangeVerticalLayoutNode(context, node, frame);
+  }
+  if (isGridLayoutNode(node)) {
+    return arrangeGridLayoutNode(context, node, frame);
+  }
+  if (isImageNode(node)) {
+    return arrangeImageNode(context, node, frame);
+  }
+  if (isConnectorNode(node)) {
+    return arrangeConnectorNode(context, node, frame);
+  }
+  if (isOverlayNode(node)) {
+    return arrangeOverlayNode(context, node, frame);
+  }
+  if (isScrollNode(node)) {
+    return arrangeScrollNode(context, node, frame);
+  }
+  throw createUnsupportedNodeError(node);
+}
+
+function measureNodeByKind(context: LayoutContext, node: Node): Size {
+  if (isTextNode(node)) {
+    return measureTextNode(context, node);
+  }
+  if (isContainerNode(node)) {
+    return measureContainerNode(context, node);
+  }
+  if (isHorizontalLayoutNode(node)) {
+    return measureHorizontalLayoutNode(context, node);
+  }
+  if (isVerticalLayoutNode(node)) {
+    return measureVerticalLayoutNode(context, node);
+  }
+  if (isGridLayoutNode(node)) {
+    return measureGridLayoutNode(context, node);
+  }
+  if (isImageNode(node)) {
+    return measureImageNode(context, node);
+  }
+  if (isConnectorNode(node)) {
+    return measureConnectorNode(context, node);
+  }
+  if (isOverlayNode(node)) {
+    return measureOverlayNode(context, node);
+  }
+  if (isScrollNode(node)) {
+    return measureScrollNode(context, node);
+  }
+  throw createUnsupportedNodeError(node);
+}
+
+function createUnsupportedNodeError(node: never): Error {
+  return new Error(`Unsupported node type: ${JSON.stringify(node)}`);
+}
@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import type { ConnectorNode, Node } from '../node';
+import type { ConnectorRouting, Padding } from '../style';
+import { computeLayout } from './compute-layout';
+import { routeConnectors } from './connector-layout';
+import type { LayoutBox, Rect } from './layout-box';
+import type { TextMeasurer } from './text-measurer';
+
+// Same padding on every side
+const uniform = (value: number): Padding => ({
+  top: value,
+  right: value,
+  bottom: value,
+  left: value,
+});
+
+const measurer: TextMeasurer = {
+  measureText: () => ({ width: 0, height: 0 }),
+  measureAdvance: () => 0,
+};
+
+const box = (node: Node, rect: Rect, children: LayoutBox[] = []): LayoutBox => ({
+  node,
+  ...rect,
+  paddingBox: rect,
+  contentBox: rect,
+  children,
+});
+
+const empty = (id: string): Node => ({ kind: 'text', id, item: '' });
+
+// Route of a connector from a box at `from` to one at `to`
+const route = (from: Rect, to: Rect, routing: ConnectorRouting, target = 'b') => {
+  const connector: ConnectorNode = { kind: 'connector', from: 'a', to: target, style: { routing } };
+  const line = box(connector, { x: 0, y: 0, width: 0, height: 0 });
+  routeConnectors(
+    box({ kind: 'vertical', items: [] }, { x: 0, y: 0, width: 100, height: 100 }, [
+      box(empty('a'), from),
+      box(empty('b'), to),
+      line,
+    ])
+  );
+  return line.path;
+};
+
+const a = { x: 0, y: 0, width: 10, height: 10 };
+
+describe('routeConnectors', () => {
+  it('draws straight routes from edge to edge toward the centers', () => {
+    expect(route(a, { x: 30, y: 0, width: 10, height: 10 }, 'straight')).toEqual([
+      { x: 10, y: 5 },
+      { x: 30, y: 5 },
+    ]);
+    expect(route(a, { x: 30, y: 30, width: 10, height: 10 }, 'straight')).toEqual([
+      { x: 10, y: 10 },
+      { x: 30, y: 30 },
+    ]);
+  });
+
+  it('turns orthogonal routes halfway between the boxes', () => {
+    expect(route(a, { x: 30, y: 20, width: 10, height: 10 }, 'orthogonal')).toEqual([
+      { x: 10, y: 5 },
+      { x: 20, y: 5 },
+      { x: 20, y: 25 },
+      { x: 30, y: 25 },
+    ]);
+  });
+
+  it('leaves out the turns of boxes lined up with each other', () => {
+    expect(route(a, { x: 30, y: 0, width: 10, height: 10 }, 'orthogonal')).toEqual([
+      { x: 10, y: 5 },
+      { x: 30, y: 5 },
+    ]);
+  });
+
+  it('anchors at the facing sides along the axis with the wider gap', () => {
+    // Below: bottom to top
+    expect(route(a, { x: 0, y: 40, width: 10, height: 10 }, 'orthogonal')).toEqual([
+      { x: 5, y: 10 },
+      { x: 5, y: 40 },
+    ]);
+    // To the left: left to right
+    expect(route({ ...a, x: 30 }, { ...a, x: 0 }, 'orthogonal')).toEqual([
+      { x: 30, y: 5 },
+      { x: 10, y: 5 },
+    ]);
+    // Curves start and end at the same anchors
+    const curve = route(a, { x: 30, y: 20, width: 10, height: 10 }, 'curved') ?? [];
+    expect(curve[0]).toEqual({ x: 10, y: 5 });
+    expect(curve[curve.length - 1]).toEqual({ x: 30, y: 25 });
+  });
+
+  it('leaves the route empty when an end is missing', () => {
+    expect(route(a, { x: 30, y: 0, width: 10, height: 10 }, 'straight', 'missing')).toEqual([]);
+  });
+
+  it('looks ids up before tags', () => {
+    const connector: ConnectorNode = { kind: 'connector', from: 'a', to: 'b' };
+    const line = box(connector, { x: 0, y: 0, width: 0, height: 0 });
+    routeConnectors(
+      box({ kind: 'vertical', items: [] }, { x: 0, y: 0, width: 100, height: 100 }, [
+        box(empty('a'), a),
+        box({ kind: 'text', tag: 'b', item: '' }, { x: 0, y: 30, width: 10, height: 10 }),
+        box(empty('b'), { x: 30, y: 0, width: 10, height: 10 }),
+        line,
+      ])
+    );
+
+    expect(line.path?.[1]).toEqual({ x: 30, y: 5 });
+  });
+});
+
+describe('connector layout', () => {
+  it('takes no space and routes between the laid out boxes', () => {
+    const node: Node = {
+      kind: 'horizontal',
+      style: { padding: uniform(0), spacing: 20 },
+      items: [
+        {
+          kind: 'container',
+          id: 'a',
+          style: { width: 10, height: 10, padding: uniform(0) },
+          item: empty('x'),
+        },
+        { kind: 'connector', from: 'a', to: 'b' },
+        {
+          kind: 'container',
+          id: 'b',
+          style: { width: 10, height: 10, padding: uniform(0) },
+          item: empty('y'),
+        },
+      ],
+    };
+    const layout = computeLayout(node, measurer);
+    const line = layout.children.find((child) => child.node.kind === 'connector');
+
+    expect(layout.width).toBe(40);
+    expect(line?.path).toEqual([
+      { x: 10, y: 5 },
+      { x: 30, y: 5 },
+    ]);
+  });
+});
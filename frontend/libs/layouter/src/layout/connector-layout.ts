@@ -0,0 +1,174 @@
+import { type ConnectorNode, isConnectorNode, type Node } from '../node';
+import { type ConnectorRouting, DEFAULT_CONNECTOR_NODE_STYLE } from '../style';
+import { arrangeNode, type LayoutContext } from './compute-layout';
+import type { LayoutBox, Point, Rect, Size } from './layout-box';
+
+// Number of straight pieces a curved route is approximated with
+const CURVE_SEGMENTS = 24;
+
+// Connectors take no space; their route is filled in once every box is placed
+export function measureConnectorNode(_context: LayoutContext, _node: ConnectorNode): Size {
+  return { width: 0, height: 0 };
+}
+
+export function arrangeConnectorNode(
+  _context: LayoutContext,
+  node: ConnectorNode,
+  frame: Rect
+): LayoutBox {
+  const rect = { x: frame.x, y: frame.y, width: 0, height: 0 };
+  return { node, ...rect, paddingBox: rect, contentBox: rect, path: [], children: [] };
+}
+
+// Items of a horizontal/vertical layout that take part in its flow
+export function flowItems(items: Node[]): Node[] {
+  return items.filter((item) => !isConnectorNode(item));
+}
+
+// Boxes of the connectors among the items of a layout, placed at the top-left of its content box
+export function arrangeConnectors(
+  context: LayoutContext,
+  items: Node[],
+  contentBox: Rect
+): LayoutBox[] {
+  return items
+    .filter(isConnectorNode)
+    .map((item) =>
+      arrangeNode(context, item, { x: contentBox.x, y: contentBox.y, width: 0, height: 0 })
+    );
+}
+
+// Compute the route of every connector in a laid out tree from the boxes it connects
+// Ids are looked up before tags; routes of connectors whose ends are missing stay empty
+export function routeConnectors(root: LayoutBox): void {
+  const byId = new Map<string, LayoutBox>();
+  const byTag = new Map<string, LayoutBox>();
+  const connectors: { box: LayoutBox; node: ConnectorNode }[] = [];
+  const visit = (box: LayoutBox): void => {
+    const { node } = box;
+    if (isConnectorNode(node)) {
+      connectors.push({ box, node });
+    } else {
+      if (node.id !== undefined && !byId.has(node.id)) {
+        byId.set(node.id, box);
+      }
+      if (node.tag !== undefined && !byTag.has(node.tag)) {
+        byTag.set(node.tag, box);
+      }
+    }
+    box.children.forEach(visit);
+  };
+  visit(root);
+
+  const find = (reference: string) => byId.get(reference) ?? byTag.get(reference);
+  for (const { box, node } of connectors) {
+    const from = find(node.from);
+    const to = find(node.to);
+    const routing = node.style?.routing ?? DEFAULT_CONNECTOR_NODE_STYLE.routing;
+    box.path = from && to ? routeBetween(routing, from, to) : [];
+  }
+}
+
+function routeBetween(routing: ConnectorRouting, from: Rect, to: Rect): Point[] {
+  switch (routing) {
+    case 'straight':
+      return routeStraight(from, to);
+    case 'orthogonal':
+      return routeOrthogonal(from, to);
+    case 'curved':
+      return routeCurved(from, to);
+  }
+}
+
+// From edge to edge along the line between the two centers
+function routeStraight(from: Rect, to: Rect): Point[] {
+  const start = center(from);
+  const end = center(to);
+  return [edgePoint(from, end), edgePoint(to, start)];
+}
+
+// Leaves and enters at the midpoints of the facing sides, turning halfway between them
+function routeOrthogonal(from: Rect, to: Rect): Point[] {
+  const { start, end, horizontal } = facingSides(from, to);
+  // Boxes lined up with each other need no turns
+  if (horizontal ? start.y === end.y : start.x === end.x) {
+    return [start, end];
+  }
+  const middle = horizontal ? (start.x + end.x) / 2 : (start.y + end.y) / 2;
+  const corners = horizontal
+    ? [
+        { x: middle, y: start.y },
+        { x: middle, y: end.y },
+      ]
+    : [
+        { x: start.x, y: middle },
+        { x: end.x, y: middle },
+      ];
+  return [start, ...corners, end];
+}
+
+// Cubic curve between the facing sides, leaving and entering perpendicular to them
+function routeCurved(from: Rect, to: Rect): Point[] {
+  const { start, end, horizontal } = facingSides(from, to);
+  const pull = horizontal ? (end.x - start.x) / 2 : (end.y - start.y) / 2;
+  const control1 = horizontal
+    ? { x: start.x + pull, y: start.y }
+    : { x: start.x, y: start.y + pull };
+  const control2 = horizontal ? { x: end.x - pull, y: end.y } : { x: end.x, y: end.y - pull };
+
+  return Array.from({ length: CURVE_SEGMENTS + 1 }, (_, index) => {
+    const t = index / CURVE_SEGMENTS;
+    const u = 1 - t;
+    const a = u * u * u;
+    const b = 3 * u * u * t;
+    const c = 3 * u * t * t;
+    const d = t * t * t;
+    return {
+      x: a * start.x + b * control1.x + c * control2.x + d * end.x,
+      y: a * start.y + b * control1.y + c * control2.y + d * end.y,
+    };
+  });
+}
+
+// Midpoints of the sides the two boxes show each other, along the axis with the wider gap between
+// them, so that routes never have to double back
+function facingSides(from: Rect, to: Rect): { start: Point; end: Point; horizontal: boolean } {
+  const a = center(from);
+  const b = center(to);
+  const gapX = Math.max(to.x - (from.x + from.width), from.x - (to.x + to.width));
+  const gapY = Math.max(to.y - (from.y + from.height), from.y - (to.y + to.height));
+  const horizontal = gapX >= gapY;
+  if (horizontal) {
+    const forward = b.x >= a.x;
+    return {
+      start: { x: forward ? from.x + from.width : from.x, y: a.y },
+      end: { x: forward ? to.x : to.x + to.width, y: b.y },
+      horizontal,
+    };
+  }
+  const forward = b.y >= a.y;
+  return {
+    start: { x: a.x, y: forward ? from.y + from.height : from.y },
+    end: { x: b.x, y: forward ? to.y : to.y + to.height },
+    horizontal,
+  };
+}
+
+// Point where the line from the center of a rect toward `target` crosses its edge
+function edgePoint(rect: Rect, target: Point): Point {
+  const origin = center(rect);
+  const dx = target.x - origin.x;
+  const dy = target.y - origin.y;
+  if (dx === 0 && dy === 0) {
+    return origin;
+  }
+  const scale = Math.min(
+    dx === 0 ? Number.POSITIVE_INFINITY : rect.width / 2 / Math.abs(dx),
+    dy === 0 ? Number.POSITIVE_INFINITY : rect.height / 2 / Math.abs(dy)
+  );
+  return { x: origin.x + dx * scale, y: origin.y + dy * scale };
+}
+
+function center(rect: Rect): Point {
+  return { x: rect.x + rect.width / 2, y: rect.y + rect.height / 2 };
+}
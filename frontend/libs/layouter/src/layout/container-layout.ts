@@ -0,0 +1,48 @@
+import type { ContainerNode } from '../node';
+import { DEFAULT_CONTAINER_NODE_STYLE } from '../style';
+import { addInsets, insetRect, resolveBorderWidths, resolvePadding } from './box-model';
+import { arrangeNode, type LayoutContext, measureNode } from './compute-layout';
+import type { LayoutBox, Rect, Size } from './layout-box';
+import { constrainSize } from './sizing';
+import { fitTextHeightToWidth } from './text-layout';
+
+// Measure container node: its single item surrounded by padding and border
+export function measureContainerNode(context: LayoutContext, node: ContainerNode): Size {
+  const insets = addInsets(
+    resolveBorderWidths(node.style?.border),
+    resolvePadding(node.style?.padding ?? DEFAULT_CONTAINER_NODE_STYLE.padding)
+  );
+  const itemSize = measureNode(context, node.item);
+
+  return {
+    width: itemSize.width + insets.left + insets.right,
+    height: itemSize.height + insets.top + insets.bottom,
+  };
+}
+
+// Arrange container node: item is placed at the top-left of the content box
+export function arrangeContainerNode(
+  context: LayoutContext,
+  node: ContainerNode,
+  frame: Rect
+): LayoutBox {
+  const padding = resolvePadding(node.style?.padding ?? DEFAULT_CONTAINER_NODE_STYLE.padding);
+  const paddingBox = insetRect(frame, resolveBorderWidths(node.style?.border));
+  const contentBox = insetRect(paddingBox, padding);
+  const itemSize = fitTextHeightToWidth(
+    context,
+    node.item,
+    constrainSize(node.item, measureNode(context, node.item), contentBox),
+    contentBox.height
+  );
+  const item = arrangeNode(context, node.item, { x: contentBox.x, y: contentBox.y, ...itemSize });
+
+  return {
+    node,
+    ...frame,
+    paddingBox,
+    contentBox,
+    baseline: item.baseline,
+    children: [item],
+  };
+}
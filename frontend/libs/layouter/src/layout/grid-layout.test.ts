@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import type { ContainerNode, GridCell, GridLayoutNode, Node } from '../node';
+import type { GridLayoutNodeStyle, Padding } from '../style';
+import { computeLayout } from './compute-layout';
+import type { LayoutBox } from './layout-box';
+import type { TextMeasurer } from './text-measurer';
+
+// Same padding on every side
+const uniform = (value: number): Padding => ({
+  top: value,
+  right: value,
+  bottom: value,
+  left: value,
+});
+
+const measurer: TextMeasurer = {
+  measureText: () => ({ width: 0, height: 0 }),
+  measureAdvance: () => 0,
+};
+
+const box = (width: number, height: number): ContainerNode => ({
+  kind: 'container',
+  style: { width, height, padding: uniform(0) },
+  item: { kind: 'text', item: '' },
+});
+
+const grid = (cells: GridCell[], style: GridLayoutNodeStyle = {}): GridLayoutNode => ({
+  kind: 'grid',
+  style: { padding: uniform(0), columnGap: 0, rowGap: 0, ...style },
+  cells,
+});
+
+const rects = (layout: LayoutBox) =>
+  layout.children.map(({ x, y, width, height }) => ({ x, y, width, height }));
+
+describe('grid layout', () => {
+  it('sizes auto tracks to their largest item', () => {
+    const layout = computeLayout(
+      grid(
+        [{ item: box(10, 5) }, { item: box(30, 8) }, { item: box(20, 12) }, { item: box(15, 4) }],
+        { columns: ['auto', 'auto'], verticalAlignment: 'start' }
+      ),
+      measurer
+    );
+
+    expect(layout).toMatchObject({ width: 50, height: 20 });
+    expect(rects(layout)).toEqual([
+      { x: 0, y: 0, width: 10, height: 5 },
+      { x: 20, y: 0, width: 30, height: 8 },
+      { x: 0, y: 8, width: 20, height: 12 },
+      { x: 20, y: 8, width: 15, height: 4 },
+    ]);
+  });
+
+  it('keeps fixed tracks at their size and adds gaps between tracks', () => {
+    const layout = computeLayout(
+      grid([{ item: box(10, 10) }, { item: box(10, 10) }], {
+        columns: [40, 25],
+        columnGap: 5,
+        horizontalAlignment: 'start',
+      }),
+      measurer
+    );
+
+    expect(layout.width).toBe(70);
+    expect(layout.children[1].x).toBe(45);
+  });
+
+  it('shares free space between fraction tracks by their factors', () => {
+    // The stretched grid takes the width of the 100 wide box above it
+    const node: Node = {
+      kind: 'vertical',
+      style: { padding: uniform(0), alignment: 'stretch' },
+      items: [
+        box(100, 0),
+        grid([{ item: box(0, 10) }, { item: box(0, 10) }], {
+          columns: [{ fr: 1 }, { fr: 3 }],
+          horizontalAlignment: 'stretch',
+        }),
+      ],
+    };
+    const layout = computeLayout(node, measurer);
+    const cells = layout.children[1].children;
+
+    expect(cells.map((cell) => cell.width)).toEqual([25, 75]);
+    expect(cells[1].x).toBe(25);
+  });
+
+  it('grows the tracks under a spanning item evenly', () => {
+    const layout = computeLayout(
+      grid([{ item: box(10, 10) }, { item: box(10, 10) }, { item: box(40, 10), columnSpan: 2 }], {
+        columns: ['auto', 'auto'],
+        columnGap: 4,
+        horizontalAlignment: 'start',
+      }),
+      measurer
+    );
+
+    // 40 = 18 + 4 + 18, after each track grew by the same share
+    expect(layout.width).toBe(40);
+    expect(layout.children[1].x).toBe(22);
+    expect(rects(layout)[2]).toMatchObject({ x: 0, width: 40 });
+  });
+
+  it('auto-places cells around explicitly placed ones', () => {
+    const layout = computeLayout(
+      grid(
+        [
+          { item: box(10, 10) },
+          { item: box(10, 10), row: 0, column: 0 },
+          { item: box(10, 10) },
+          { item: box(10, 10) },
+        ],
+        { columns: [10, 10] }
+      ),
+      measurer
+    );
+
+    expect(rects(layout).map(({ x, y }) => [x, y])).toEqual([
+      [10, 0],
+      [0, 0],
+      [0, 10],
+      [10, 10],
+    ]);
+  });
+
+  it('aligns items inside their cell area', () => {
+    const layout = computeLayout(
+      grid(
+        [
+          { item: box(20, 20) },
+          { item: box(10, 10), horizontalAlignment: 'end', verticalAlignment: 'center' },
+          { item: box(10, 10), horizontalAlignment: 'stretch', verticalAlignment: 'stretch' },
+        ],
+        { columns: [20, 20, 20] }
+      ),
+      measurer
+    );
+
+    expect(rects(layout)[1]).toEqual({ x: 30, y: 5, width: 10, height: 10 });
+    expect(rects(layout)[2]).toEqual({ x: 40, y: 0, width: 20, height: 20 });
+  });
+});
@@ -0,0 +1,344 @@
+import type { GridCell, GridLayoutNode } from '../node';
+import {
+  DEFAULT_GRID_LAYOUT_NODE_STYLE,
+  type GridAlignment,
+  type GridLayoutNodeStyle,
+  type GridTrack,
+} from '../style';
+import {
+  addInsets,
+  firstBaseline,
+  insetRect,
+  resolveBorderWidths,
+  resolvePadding,
+} from './box-model';
+import { arrangeNode, type LayoutContext, measureNode } from './compute-layout';
+import type { LayoutBox, Rect, Size } from './layout-box';
+import { constrainSize } from './sizing';
+import { fitTextHeightToWidth } from './text-layout';
+
+// Cell resolved to concrete track indices
+interface GridPlacement {
+  cell: GridCell;
+  row: number;
+  column: number;
+  rowSpan: number;
+  columnSpan: number;
+}
+
+// All cells placed on the grid together with the resulting track counts
+interface GridPlan {
+  placements: GridPlacement[];
+  rowCount: number;
+  columnCount: number;
+}
+
+// Extent of an item along one axis, used for track sizing
+interface TrackItem {
+  start: number;
+  span: number;
+  size: number;
+}
+
+// Measure grid layout node: sum of content-sized tracks and gaps, plus padding and border
+export function measureGridLayoutNode(context: LayoutContext, node: GridLayoutNode): Size {
+  const style = resolveGridStyle(node);
+  // The resolved style always has a border, so only an explicitly set one counts
+  const insets = addInsets(resolveBorderWidths(node.style?.border), resolvePadding(style.padding));
+  const { columnWidths, rowHeights } = sizeGrid(context, node, style);
+
+  return {
+    width: totalTrackLength(columnWidths, style.columnGap) + insets.left + insets.right,
+    height: totalTrackLength(rowHeights, style.rowGap) + insets.top + insets.bottom,
+  };
+}
+
+// Arrange grid layout node: size tracks to the frame, then align each item within its area
+export function arrangeGridLayoutNode(
+  context: LayoutContext,
+  node: GridLayoutNode,
+  frame: Rect
+): LayoutBox {
+  const style = resolveGridStyle(node);
+  const padding = resolvePadding(style.padding);
+  const paddingBox = insetRect(frame, resolveBorderWidths(node.style?.border));
+  const contentBox = insetRect(paddingBox, padding);
+  const { plan, sizes, columnWidths, rowHeights } = sizeGrid(context, node, style, contentBox);
+  const columnOffsets = trackOffsets(columnWidths, style.columnGap);
+  const rowOffsets = trackOffsets(rowHeights, style.rowGap);
+
+  const children = plan.placements.map((placement, index) => {
+    const area: Rect = {
+      x: contentBox.x + columnOffsets[placement.column],
+      y: contentBox.y + rowOffsets[placement.row],
+      width: spanLength(columnWidths, placement.column, placement.columnSpan, style.columnGap),
+      height: spanLength(rowHeights, placement.row, placement.rowSpan, style.rowGap),
+    };
+    const itemSize = fitTextHeightToWidth(
+      context,
+      placement.cell.item,
+      constrainSize(placement.cell.item, sizes[index], area),
+      area.height
+    );
+    const horizontal = alignInArea(
+      placement.cell.horizontalAlignment ?? style.horizontalAlignment,
+      area.width,
+      itemSize.width
+    );
+    const vertical = alignInArea(
+      placement.cell.verticalAlignment ?? style.verticalAlignment,
+      area.height,
+      itemSize.height
+    );
+    return arrangeNode(context, placement.cell.item, {
+      x: area.x + horizontal.offset,
+      y: area.y + vertical.offset,
+      width: horizontal.size,
+      height: vertical.size,
+    });
+  });
+
+  return {
+    node,
+    ...frame,
+    paddingBox,
+    contentBox,
+    baseline: firstBaseline(children),
+    children,
+  };
+}
+
+function resolveGridStyle(node: GridLayoutNode): Required<GridLayoutNodeStyle> {
+  return { ...DEFAULT_GRID_LAYOUT_NODE_STYLE, ...node.style };
+}
+
+// Place cells and size both axes; tracks grow to fill `available` when given
+function sizeGrid(
+  context: LayoutContext,
+  node: GridLayoutNode,
+  style: Required<GridLayoutNodeStyle>,
+  available?: Size
+) {
+  const plan = planGrid(node, style.columns.length);
+  const sizes = plan.placements.map((placement) => measureNode(context, placement.cell.item));
+
+  const columnWidths = sizeTracks(
+    style.columns,
+    plan.columnCount,
+    plan.placements.map((p, index) => ({
+      start: p.column,
+      span: p.columnSpan,
+      size: sizes[index].width,
+    })),
+    style.columnGap,
+    available?.width
+  );
+  const rowHeights = sizeTracks(
+    style.rows,
+    plan.rowCount,
+    plan.placements.map((p, index) => ({
+      start: p.row,
+      span: p.rowSpan,
+      size: sizes[index].height,
+    })),
+    style.rowGap,
+    available?.height
+  );
+
+  return { plan, sizes, columnWidths, rowHeights };
+}
+
+// Resolve every cell to a row/column, auto-placing cells without explicit coordinates
+function planGrid(node: GridLayoutNode, explicitColumnCount: number): GridPlan {
+  const columnCount = Math.max(
+    1,
+    explicitColumnCount,
+    ...node.cells.map((cell) => (cell.column ?? 0) + Math.max(1, cell.columnSpan ?? 1))
+  );
+  const occupied = new Set<string>();
+  const isFree = (row: number, column: number, rowSpan: number, columnSpan: number) => {
+    if (column + columnSpan > columnCount) {
+      return false;
+    }
+    for (let r = row; r < row + rowSpan; r++) {
+      for (let c = column; c < column + columnSpan; c++) {
+        if (occupied.has(`${r},${c}`)) {
+          return false;
+        }
+      }
+    }
+    return true;
+  };
+  const occupy = (placement: GridPlacement) => {
+    for (let r = placement.row; r < placement.row + placement.rowSpan; r++) {
+      for (let c = placement.column; c < placement.column + placement.columnSpan; c++) {
+        occupied.add(`${r},${c}`);
+      }
+    }
+  };
+
+  const placements = new Map<GridCell, GridPlacement>();
+
+  // Cells with both coordinates are placed first so auto-placement flows around them
+  for (const cell of node.cells) {
+    if (cell.row !== undefined && cell.column !== undefined) {
+      const placement = createPlacement(
+        cell,
+        cell.row,
+        cell.column,
+        Math.max(1, cell.rowSpan ?? 1),
+        Math.max(1, cell.columnSpan ?? 1)
+      );
+      occupy(placement);
+      placements.set(cell, placement);
+    }
+  }
+
+  let cursorRow = 0;
+  let cursorColumn = 0;
+  for (const cell of node.cells) {
+    if (placements.has(cell)) {
+      continue;
+    }
+    const rowSpan = Math.max(1, cell.rowSpan ?? 1);
+    const columnSpan = Math.min(columnCount, Math.max(1, cell.columnSpan ?? 1));
+
+    let row = cell.row ?? cursorRow;
+    let column = cell.column ?? (cell.row !== undefined ? 0 : cursorColumn);
+    while (!isFree(row, column, rowSpan, columnSpan)) {
+      if (cell.column !== undefined) {
+        row++;
+      } else if (column + 1 + columnSpan <= columnCount) {
+        column++;
+      } else {
+        // Row is full (even an explicitly requested one); continue on the next row
+        row++;
+        column = 0;
+      }
+    }
+
+    const placement = createPlacement(cell, row, column, rowSpan, columnSpan);
+    occupy(placement);
+    placements.set(cell, placement);
+    if (cell.row === undefined && cell.column === undefined) {
+      cursorRow = row;
+      cursorColumn = column + columnSpan;
+    }
+  }
+
+  const ordered = node.cells.map((cell) => placements.get(cell)!);
+  const rowCount = Math.max(0, ...ordered.map((placement) => placement.row + placement.rowSpan));
+  return { placements: ordered, rowCount, columnCount };
+}
+
+function createPlacement(
+  cell: GridCell,
+  row: number,
+  column: number,
+  rowSpan: number,
+  columnSpan: number
+): GridPlacement {
+  return { cell, row: Math.max(0, row), column: Math.max(0, column), rowSpan, columnSpan };
+}
+
+// Size the tracks of one axis
+// Fixed tracks keep their size; 'auto' tracks grow to fit their items; fraction tracks
+// share a common unit large enough for their items, and absorb any space left in `available`
+function sizeTracks(
+  definitions: GridTrack[],
+  count: number,
+  items: TrackItem[],
+  gap: number,
+  available?: number
+): number[] {
+  const tracks = Array.from({ length: count }, (_, index) => definitions[index] ?? 'auto');
+  const sizes = tracks.map((track) => (typeof track === 'number' ? track : 0));
+  const fractionOf = (index: number) => {
+    const track = tracks[index];
+    return typeof track === 'object' ? Math.max(0, track.fr) : 0;
+  };
+
+  // Single-span items determine auto tracks and the fraction unit
+  let fractionUnit = 0;
+  for (const item of items) {
+    if (item.span !== 1) {
+      continue;
+    }
+    const track = tracks[item.start];
+    if (track === 'auto') {
+      sizes[item.start] = Math.max(sizes[item.start], item.size);
+    } else if (typeof track === 'object' && fractionOf(item.start) > 0) {
+      fractionUnit = Math.max(fractionUnit, item.size / fractionOf(item.start));
+    }
+  }
+  tracks.forEach((_, index) => {
+    if (fractionOf(index) > 0) {
+      sizes[index] = fractionUnit * fractionOf(index);
+    }
+  });
+
+  // Spanning items grow their non-fixed tracks evenly, smallest spans first
+  const spanning = items.filter((item) => item.span > 1).sort((a, b) => a.span - b.span);
+  for (const item of spanning) {
+    const indices = Array.from({ length: item.span }, (_, offset) => item.start + offset);
+    const current = spanLength(sizes, item.start, item.span, gap);
+    const flexible = indices.filter((index) => typeof tracks[index] !== 'number');
+    if (item.size > current && flexible.length > 0) {
+      const share = (item.size - current) / flexible.length;
+      for (const index of flexible) {
+        sizes[index] += share;
+      }
+    }
+  }
+
+  // Remaining space is distributed to fraction tracks in proportion to their factors
+  const totalFraction = tracks.reduce<number>((sum, _, index) => sum + fractionOf(index), 0);
+  if (available !== undefined && totalFraction > 0) {
+    const free = available - totalTrackLength(sizes, gap);
+    if (free > 0) {
+      tracks.forEach((_, index) => {
+        sizes[index] += (free * fractionOf(index)) / totalFraction;
+      });
+    }
+  }
+
+  return sizes;
+}
+
+function totalTrackLength(sizes: number[], gap: number): number {
+  return sizes.reduce((sum, size) => sum + size, 0) + gap * Math.max(0, sizes.length - 1);
+}
+
+// Start offset of every track relative to the content box
+function trackOffsets(sizes: number[], gap: number): number[] {
+  const offsets: number[] = [];
+  let offset = 0;
+  for (const size of sizes) {
+    offsets.push(offset);
+    offset += size + gap;
+  }
+  return offsets;
+}
+
+// Length covered by `span` tracks starting at `start`, including the gaps between them
+function spanLength(sizes: number[], start: number, span: number, gap: number): number {
+  return totalTrackLength(sizes.slice(start, start + span), gap);
+}
+
+// Offset and size of an item inside a cell area along one axis
+function alignInArea(
+  alignment: GridAlignment,
+  areaSize: number,
+  itemSize: number
+): { offset: number; size: number } {
+  switch (alignment) {
+    case 'start':
+      return { offset: 0, size: itemSize };
+    case 'center':
+      return { offset: (areaSize - itemSize) / 2, size: itemSize };
+    case 'end':
+      return { offset: areaSize - itemSize, size: itemSize };
+    case 'stretch':
+      return { offset: 0, size: Math.max(areaSize, itemSize) };
+  }
+}
@@ -0,0 +1,151 @@
+import type { HorizontalLayoutNode, Node } from '../node';
+import { DEFAULT_HORIZONTAL_LAYOUT_NODE_STYLE, type HorizontalAlignment } from '../style';
+import { alignCrossAxis, baselineOffset, justifyMainAxis } from './alignment';
+import {
+  addInsets,
+  firstBaseline,
+  insetRect,
+  resolveBorderWidths,
+  resolvePadding,
+  translateBox,
+} from './box-model';
+import { arrangeNode, type LayoutContext, measureNode } from './compute-layout';
+import { arrangeConnectors, flowItems } from './connector-layout';
+import type { LayoutBox, Rect, Size } from './layout-box';
+import { clampToBounds, constrainSize, distributeMainAxis } from './sizing';
+import { fitTextHeightToWidth } from './text-layout';
+
+// Measure horizontal layout node: items side by side with spacing, plus padding and border
+export function measureHorizontalLayoutNode(
+  context: LayoutContext,
+  node: HorizontalLayoutNode
+): Size {
+  const insets = addInsets(
+    resolveBorderWidths(node.style?.border),
+    resolvePadding(node.style?.padding ?? DEFAULT_HORIZONTAL_LAYOUT_NODE_STYLE.padding)
+  );
+  const spacing = node.style?.spacing ?? DEFAULT_HORIZONTAL_LAYOUT_NODE_STYLE.spacing;
+  // Connectors are drawn over the layout and take no space in it
+  const items = flowItems(node.items);
+  const alignment = node.style?.alignment ?? DEFAULT_HORIZONTAL_LAYOUT_NODE_STYLE.alignment;
+  const itemSizes = items.map((item) => measureNode(context, item));
+
+  const contentWidth =
+    itemSizes.reduce((sum, size) => sum + size.width, 0) +
+    spacing * Math.max(0, itemSizes.length - 1);
+  const contentHeight =
+    alignment === 'baseline'
+      ? measureBaselineAlignedHeight(context, items, itemSizes)
+      : Math.max(0, ...itemSizes.map((size) => size.height));
+
+  return {
+    width: contentWidth + insets.left + insets.right,
+    height: contentHeight + insets.top + insets.bottom,
+  };
+}
+
+// Arrange horizontal layout node: items from left to right, aligned vertically
+export function arrangeHorizontalLayoutNode(
+  context: LayoutContext,
+  node: HorizontalLayoutNode,
+  frame: Rect
+): LayoutBox {
+  const padding = resolvePadding(
+    node.style?.padding ?? DEFAULT_HORIZONTAL_LAYOUT_NODE_STYLE.padding
+  );
+  const spacing = node.style?.spacing ?? DEFAULT_HORIZONTAL_LAYOUT_NODE_STYLE.spacing;
+  // Connectors are drawn over the layout and take no space in it
+  const items = flowItems(node.items);
+  const alignment = node.style?.alignment ?? DEFAULT_HORIZONTAL_LAYOUT_NODE_STYLE.alignment;
+  const justification =
+    node.style?.justification ?? DEFAULT_HORIZONTAL_LAYOUT_NODE_STYLE.justification;
+  const paddingBox = insetRect(frame, resolveBorderWidths(node.style?.border));
+  const contentBox = insetRect(paddingBox, padding);
+
+  // Items start from their requested size, then grow or shrink to fill the main axis
+  const baseSizes = items.map((item) =>
+    constrainSize(item, measureNode(context, item), contentBox)
+  );
+  const available = contentBox.width - spacing * Math.max(0, items.length - 1);
+  const mainSizes = distributeMainAxis(
+    items,
+    baseSizes.map((size) => size.width),
+    'width',
+    available,
+    contentBox.width
+  );
+
+  // Whatever the items leave over is distributed by justification
+  const free = available - mainSizes.reduce((sum, size) => sum + size, 0);
+  const { leading, between } = justifyMainAxis(justification, free, items.length, spacing);
+
+  let xOffset = contentBox.x + leading;
+  const arranged = items.map((item, index) => {
+    const size = fitTextHeightToWidth(
+      context,
+      item,
+      { ...baseSizes[index], width: mainSizes[index] },
+      contentBox.height
+    );
+    if (alignment === 'stretch' && (item.style?.height ?? 'auto') === 'auto') {
+      size.height = clampToBounds(item, 'height', contentBox.height, contentBox.height);
+    }
+    const y = contentBox.y + alignVertically(alignment, contentBox.height, size.height);
+    const child = arrangeNode(context, item, { x: xOffset, y, ...size });
+    xOffset += size.width + between;
+    return child;
+  });
+
+  const children = [
+    ...(alignment === 'baseline' ? alignBaselines(arranged) : arranged),
+    ...arrangeConnectors(context, node.items, contentBox),
+  ];
+
+  return {
+    node,
+    ...frame,
+    paddingBox,
+    contentBox,
+    baseline: firstBaseline(children),
+    children,
+  };
+}
+
+// Offset of an item from the top of the content box
+// Stretched items fill the content box and baseline-aligned items are shifted afterwards
+function alignVertically(
+  alignment: HorizontalAlignment,
+  contentHeight: number,
+  itemHeight: number
+): number {
+  switch (alignment) {
+    case 'top':
+    case 'stretch':
+    case 'baseline':
+      return alignCrossAxis('start', contentHeight, itemHeight);
+    case 'center':
+      return alignCrossAxis('center', contentHeight, itemHeight);
+    case 'bottom':
+      return alignCrossAxis('end', contentHeight, itemHeight);
+  }
+}
+
+// Shift top-aligned items down so that all of their baselines line up
+function alignBaselines(children: LayoutBox[]): LayoutBox[] {
+  const maxOffset = Math.max(0, ...children.map(baselineOffset));
+  return children.map((child) => translateBox(child, 0, maxOffset - baselineOffset(child)));
+}
+
+// Height of a row whose items share a baseline: tallest ascent plus deepest descent
+function measureBaselineAlignedHeight(
+  context: LayoutContext,
+  items: Node[],
+  itemSizes: Size[]
+): number {
+  const boxes = items.map((item, index) =>
+    arrangeNode(context, item, { x: 0, y: 0, ...itemSizes[index] })
+  );
+  const ascent = Math.max(0, ...boxes.map(baselineOffset));
+  const descent = Math.max(0, ...boxes.map((box) => box.height - baselineOffset(box)));
+  return ascent + descent;
+}
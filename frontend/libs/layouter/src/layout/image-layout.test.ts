@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import type { ImageNode } from '../node';
+import { px } from '../scaling';
+import type { ImageNodeStyle, Padding } from '../style';
+import { computeLayout } from './compute-layout';
+import type { TextMeasurer } from './text-measurer';
+
+// Same padding on every side
+const uniform = (value: number): Padding => ({
+  top: value,
+  right: value,
+  bottom: value,
+  left: value,
+});
+
+const measurer: TextMeasurer = {
+  measureText: () => ({ width: 0, height: 0 }),
+  measureAdvance: () => 0,
+};
+
+// A 200×100 image without padding
+const image = (style: ImageNodeStyle = {}, intrinsicSize = { width: 200, height: 100 }) =>
+  computeLayout(
+    { kind: 'image', source: 'image.png', intrinsicSize, style: { padding: uniform(0), ...style } },
+    measurer
+  );
+
+describe('image layout', () => {
+  it('takes its intrinsic size', () => {
+    expect(image()).toMatchObject({ width: 200, height: 100 });
+  });
+
+  it('falls back to a default size without an intrinsic size', () => {
+    const node: ImageNode = { kind: 'image', source: 'icon.svg', style: { padding: uniform(0) } };
+
+    expect(computeLayout(node, measurer)).toMatchObject({ width: px(64), height: px(64) });
+  });
+
+  it('keeps the aspect ratio when only one side is fixed', () => {
+    expect(image({ width: 50 })).toMatchObject({ width: 50, height: 25 });
+    expect(image({ height: 50 })).toMatchObject({ width: 100, height: 50 });
+  });
+
+  it('stretches to both fixed sides, leaving the fit to the renderer', () => {
+    expect(image({ width: 50, height: 50 })).toMatchObject({ width: 50, height: 50 });
+  });
+
+  it('keeps the aspect ratio of the content box inside padding and border', () => {
+    const layout = image({ width: 60, padding: uniform(5), border: { width: 5 } });
+
+    expect(layout).toMatchObject({ width: 60, height: 40 });
+    expect(layout.contentBox).toEqual({ x: 10, y: 10, width: 40, height: 20 });
+  });
+});
@@ -0,0 +1,48 @@
+import type { ImageNode } from '../node';
+import { px } from '../scaling';
+import { DEFAULT_IMAGE_NODE_STYLE } from '../style';
+import { addInsets, insetRect, resolveBorderWidths, resolvePadding } from './box-model';
+import type { LayoutContext } from './compute-layout';
+import type { LayoutBox, Rect, Size } from './layout-box';
+
+// Content size of images that do not declare their intrinsic size
+const DEFAULT_IMAGE_SIZE = (): Size => ({ width: px(64), height: px(64) });
+
+// Measure image node: its intrinsic size surrounded by padding and border
+// A fixed width or height alone scales the other axis to keep the intrinsic aspect ratio
+export function measureImageNode(_context: LayoutContext, node: ImageNode): Size {
+  const insets = addInsets(
+    resolveBorderWidths(node.style?.border),
+    resolvePadding(node.style?.padding ?? DEFAULT_IMAGE_NODE_STYLE.padding)
+  );
+  const horizontal = insets.left + insets.right;
+  const vertical = insets.top + insets.bottom;
+  const intrinsic = node.intrinsicSize ?? DEFAULT_IMAGE_SIZE();
+  const width = node.style?.width ?? DEFAULT_IMAGE_NODE_STYLE.width;
+  const height = node.style?.height ?? DEFAULT_IMAGE_NODE_STYLE.height;
+
+  if (typeof width === 'number' && height === 'auto' && intrinsic.width > 0) {
+    const contentWidth = Math.max(0, width - horizontal);
+    return { width, height: (contentWidth * intrinsic.height) / intrinsic.width + vertical };
+  }
+  if (typeof height === 'number' && width === 'auto' && intrinsic.height > 0) {
+    const contentHeight = Math.max(0, height - vertical);
+    return { width: (contentHeight * intrinsic.width) / intrinsic.height + horizontal, height };
+  }
+  return { width: intrinsic.width + horizontal, height: intrinsic.height + vertical };
+}
+
+// Arrange image node: the image is fitted into the content box by the renderer
+export function arrangeImageNode(_context: LayoutContext, node: ImageNode, frame: Rect): LayoutBox {
+  const padding = resolvePadding(node.style?.padding ?? DEFAULT_IMAGE_NODE_STYLE.padding);
+  const paddingBox = insetRect(frame, resolveBorderWidths(node.style?.border));
+  const contentBox = insetRect(paddingBox, padding);
+
+  return {
+    node,
+    ...frame,
+    paddingBox,
+    contentBox,
+    children: [],
+  };
+}
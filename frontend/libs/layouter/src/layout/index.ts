@@ -0,0 +1,33 @@
+/**
+ * Renderer-independent layout computation for node trees
+ */
+
+export type { MainAxisDistribution } from './alignment';
+export { alignCrossAxis, baselineOffset, justifyMainAxis } from './alignment';
+export type { ResolvedBorder, ResolvedPadding } from './box-model';
+export {
+  addInsets,
+  firstBaseline,
+  insetRect,
+  resolveBorder,
+  resolveBorderWidths,
+  resolveCornerRadii,
+  resolvePadding,
+  translateBox,
+} from './box-model';
+export type { LayoutContext } from './compute-layout';
+export { arrangeNode, computeLayout, measureNode } from './compute-layout';
+export { arrangeConnectors, flowItems, routeConnectors } from './connector-layout';
+export type { LayoutBox, Point, Rect, Size, TextLine, TextLineRun } from './layout-box';
+export type { BrokenLine, BrokenRun, TextRun } from './line-breaking';
+export { breakLines, breakRuns } from './line-breaking';
+export type { Axis } from './sizing';
+export { clampToBounds, constrainSize, distributeMainAxis, resolveLength } from './sizing';
+export type { CaretStop } from './text-caret';
+export {
+  textCaretIndexAt,
+  textCaretRect,
+  textCaretStops,
+  textSelectionRects,
+} from './text-caret';
+export type { TextMeasurement, TextMeasurer } from './text-measurer';
@@ -0,0 +1,71 @@
+import type { Node } from '../node';
+
+// Axis-aligned rectangle in layout space (x grows right, y grows down)
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+// Single line of a text node, positioned in layout space
+export interface TextLine {
+  text: string;
+  // Pen position where the line starts
+  x: number;
+  baseline: number;
+  // Advance width of the line
+  width: number;
+  // Index in the text of the node's spans joined where the line starts
+  start: number;
+  // Differently styled pieces of the line, all sitting on its baseline
+  runs: TextLineRun[];
+}
+
+// Piece of a line drawn with the style of one span of the TextNode
+export interface TextLineRun {
+  text: string;
+  // Index into the spans of the TextNode
+  span: number;
+  // Index of each character (code point) of `text` in the text of the node's spans joined;
+  // collapsed whitespace leaves gaps
+  offsets: number[];
+  x: number;
+  width: number;
+}
+
+// Computed geometry of a node and its descendants
+// x/y/width/height describe the outer box, relative to the root node's top-left corner
+export interface LayoutBox<T extends Node = Node> {
+  node: T;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Area enclosed by the node's border (background is painted here)
+  paddingBox: Rect;
+  // Area available to the node's children or text after padding is removed
+  contentBox: Rect;
+  // Y coordinate of the first text baseline inside the box, if it contains any text
+  baseline?: number;
+  // Wrapped lines, for text nodes only
+  lines?: TextLine[];
+  // Route of a connector from its source to its target, for connector nodes only
+  // Empty when either connected node can not be found
+  path?: Point[];
+  // Area outside of which descendants are not drawn, for scroll nodes that clip their item
+  clip?: Rect;
+  // Largest scroll offsets the item allows, for scroll nodes with overflow scroll
+  scrollRange?: Size;
+  children: LayoutBox[];
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import type { WhiteSpace, WordBreak } from '../style';
+import { breakLines, breakRuns } from './line-breaking';
+
+// Every character is one unit wide
+const advance = (text: string) => Array.from(text).length;
+
+const lines = (
+  text: string,
+  maxWidth?: number,
+  whiteSpace: WhiteSpace = 'normal',
+  wordBreak: WordBreak = 'normal'
+) => breakLines(text, whiteSpace, wordBreak, advance, maxWidth);
+
+describe('breakLines', () => {
+  it('wraps between words at the last break that fits', () => {
+    expect(lines('the quick brown fox', 10)).toEqual(['the quick', 'brown fox']);
+  });
+
+  it('keeps a word longer than the line on a line of its own', () => {
+    expect(lines('a extraordinary b', 5)).toEqual(['a', 'extraordinary', 'b']);
+  });
+
+  it('breaks long words anywhere with break-word', () => {
+    expect(lines('abcdefgh', 3, 'normal', 'break-word')).toEqual(['abc', 'def', 'gh']);
+  });
+
+  it('breaks between any characters with break-all', () => {
+    expect(lines('ab cdef', 4, 'normal', 'break-all')).toEqual(['ab c', 'def']);
+  });
+
+  describe('white space', () => {
+    const text = '  a   b\nc  ';
+
+    it('collapses spaces and newlines with normal', () => {
+      expect(lines(text, undefined, 'normal')).toEqual(['a b c']);
+    });
+
+    it('keeps newlines but collapses spaces with pre-line', () => {
+      expect(lines(text, undefined, 'pre-line')).toEqual(['a b', 'c']);
+    });
+
+    it('keeps everything with pre, and never wraps', () => {
+      expect(lines(text, 2, 'pre')).toEqual(['  a   b', 'c  ']);
+    });
+
+    it('never wraps with nowrap', () => {
+      expect(lines('one two three', 3, 'nowrap')).toEqual(['one two three']);
+    });
+
+    it('treats CRLF as one line ending', () => {
+      expect(lines('a\r\nb', undefined, 'pre')).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('CJK text', () => {
+    it('breaks between any two ideographs or kana', () => {
+      expect(lines('日本語の文章です', 3)).toEqual(['日本語', 'の文章', 'です']);
+    });
+
+    it('keeps closing punctuation off the start of a line', () => {
+      expect(lines('あいう。えお', 3)).toEqual(['あい', 'う。え', 'お']);
+    });
+
+    it('keeps opening brackets off the end of a line', () => {
+      expect(lines('あいう「え」', 4)).toEqual(['あいう', '「え」']);
+    });
+
+    it('keeps CJK runs together with keep-all', () => {
+      expect(lines('日本語 文章', 3, 'normal', 'keep-all')).toEqual(['日本語', '文章']);
+    });
+  });
+});
+
+describe('breakRuns', () => {
+  it('breaks across runs and keeps where each character came from', () => {
+    const result = breakRuns(
+      [
+        { text: 'ab c', span: 0 },
+        { text: 'd ef', span: 1 },
+      ],
+      'normal',
+      'normal',
+      (runs) => runs.reduce((sum, run) => sum + advance(run.text), 0),
+      4
+    );
+
+    expect(result).toEqual([
+      { runs: [{ text: 'ab', span: 0, offsets: [0, 1] }], start: 0 },
+      {
+        runs: [
+          { text: 'c', span: 0, offsets: [3] },
+          { text: 'd', span: 1, offsets: [4] },
+        ],
+        start: 3,
+      },
+      { runs: [{ text: 'ef', span: 1, offsets: [6, 7] }], start: 6 },
+    ]);
+  });
+});
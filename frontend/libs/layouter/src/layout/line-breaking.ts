@@ -0,0 +1,282 @@
+import type { WhiteSpace, WordBreak } from '../style';
+
+// Piece of text drawn with a single style; `span` indexes the spans of the TextNode
+export interface TextRun {
+  text: string;
+  span: number;
+}
+
+// Run of a broken line, with where each of its characters came from
+export interface BrokenRun extends TextRun {
+  // Index of every character (code point) in the text of all input runs joined
+  offsets: number[];
+}
+
+export interface BrokenLine {
+  runs: BrokenRun[];
+  // Index in the joined text where the line starts; empty lines have no characters to tell
+  start: number;
+}
+
+// Tolerance for comparing a line against the wrap width, so that text laid out at exactly its
+// measured width is not wrapped again because of floating point error
+const WRAP_EPSILON = 1e-6;
+
+// Hiragana, katakana, CJK ideographs and punctuation, hangul and fullwidth forms
+const CJK_PATTERN =
+  /[\u1100-\u11ff\u2e80-\u2fdf\u3000-\u30ff\u3100-\u31ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef]/;
+
+// Line-breaking rules for Japanese (kinsoku shori): characters that may not start a line
+const NO_BREAK_BEFORE = new Set(
+  Array.from(
+    '、。，．・：；？！ー）］｝」』】〕〉》〙〗〟’”ゝゞヽヾ々〻ぁぃぅぇぉっゃゅょゎゕゖァィゥェォッャュョヮヵヶ゠‐–〜～' +
+      ')]},.:;!?'
+  )
+);
+
+// Characters that may not end a line
+const NO_BREAK_AFTER = new Set(Array.from('（［｛「『【〔〈《〘〖〝‘“([{'));
+
+// Single character together with the span it came from and its index in the joined text
+interface StyledChar {
+  char: string;
+  span: number;
+  offset: number;
+}
+
+// Characters of one paragraph, starting at `start` in the joined text
+interface Paragraph {
+  chars: StyledChar[];
+  start: number;
+}
+
+// Split text into the lines it is rendered on
+// Newlines and spaces are processed according to `whiteSpace`; when `maxWidth` is given and the
+// mode allows wrapping, lines are broken at the last allowed opportunity that still fits
+export function breakLines(
+  text: string,
+  whiteSpace: WhiteSpace,
+  wordBreak: WordBreak,
+  measureAdvance: (text: string) => number,
+  maxWidth?: number
+): string[] {
+  const lines = breakRuns(
+    [{ text, span: 0 }],
+    whiteSpace,
+    wordBreak,
+    (runs) => measureAdvance(joinRuns(runs)),
+    maxWidth
+  );
+  return lines.map((line) => joinRuns(line.runs));
+}
+
+// Same as breakLines, for text made of differently styled runs
+// Breaking ignores run boundaries; each resulting line lists the runs it contains
+export function breakRuns(
+  runs: TextRun[],
+  whiteSpace: WhiteSpace,
+  wordBreak: WordBreak,
+  measureAdvance: (runs: TextRun[]) => number,
+  maxWidth?: number
+): BrokenLine[] {
+  const paragraphs = splitParagraphs(toStyledChars(runs), whiteSpace);
+  const wraps = maxWidth !== undefined && whiteSpace !== 'nowrap' && whiteSpace !== 'pre';
+  return paragraphs.flatMap((paragraph) => {
+    const lines = wraps
+      ? wrapParagraph(
+          paragraph.chars,
+          wordBreak,
+          (chars) => measureAdvance(toRuns(chars)),
+          maxWidth
+        )
+      : [paragraph.chars];
+    return lines.map((chars) => ({
+      runs: toRuns(chars),
+      start: chars[0]?.offset ?? paragraph.start,
+    }));
+  });
+}
+
+function joinRuns(runs: TextRun[]): string {
+  return runs.map((run) => run.text).join('');
+}
+
+// Line endings become '\n' and tabs four spaces, which all keep the offset of the original
+function toStyledChars(runs: TextRun[]): StyledChar[] {
+  const chars: StyledChar[] = [];
+  let offset = 0;
+  for (const run of runs) {
+    const codePoints = Array.from(run.text);
+    codePoints.forEach((char, index) => {
+      if (char === '\r' && codePoints[index + 1] !== '\n') {
+        chars.push({ char: '\n', span: run.span, offset });
+      } else if (char === '\t') {
+        chars.push(...Array.from('    ', (space) => ({ char: space, span: run.span, offset })));
+      } else if (char !== '\r') {
+        chars.push({ char, span: run.span, offset });
+      }
+      offset += char.length;
+    });
+  }
+  return chars;
+}
+
+// Merge consecutive characters of the same span back into runs
+function toRuns(chars: StyledChar[]): BrokenRun[] {
+  const runs: BrokenRun[] = [];
+  for (const { char, span, offset } of chars) {
+    const last = runs[runs.length - 1];
+    if (last && last.span === span) {
+      last.text += char;
+      last.offsets.push(offset);
+    } else {
+      runs.push({ text: char, span, offsets: [offset] });
+    }
+  }
+  return runs;
+}
+
+// Apply whitespace collapsing and split at preserved newlines
+function splitParagraphs(chars: StyledChar[], whiteSpace: WhiteSpace): Paragraph[] {
+  switch (whiteSpace) {
+    case 'normal':
+    case 'nowrap':
+      return [
+        {
+          chars: collapseSpaces(chars.map((c) => (c.char === '\n' ? { ...c, char: ' ' } : c))),
+          start: 0,
+        },
+      ];
+    case 'pre-line':
+      return splitAtNewlines(chars).map((paragraph) => ({
+        ...paragraph,
+        chars: collapseSpaces(paragraph.chars),
+      }));
+    case 'pre':
+    case 'pre-wrap':
+      return splitAtNewlines(chars);
+  }
+}
+
+function splitAtNewlines(chars: StyledChar[]): Paragraph[] {
+  const paragraphs: Paragraph[] = [{ chars: [], start: 0 }];
+  chars.forEach((c, index) => {
+    if (c.char === '\n') {
+      // A paragraph starts right after the line ending, whether it was one or two characters
+      paragraphs.push({ chars: [], start: chars[index + 1]?.offset ?? c.offset + 1 });
+    } else {
+      paragraphs[paragraphs.length - 1].chars.push(c);
+    }
+  });
+  return paragraphs;
+}
+
+// Reduce runs of spaces to one and drop spaces at both ends
+function collapseSpaces(chars: StyledChar[]): StyledChar[] {
+  const collapsed = chars.filter(
+    (c, index) => !(c.char === ' ' && (index === 0 || chars[index - 1].char === ' '))
+  );
+  return trimEnd(collapsed);
+}
+
+function trimEnd(chars: StyledChar[]): StyledChar[] {
+  let end = chars.length;
+  while (end > 0 && isSpace(chars[end - 1].char)) {
+    end--;
+  }
+  return chars.slice(0, end);
+}
+
+// Greedily fill lines with segments between break opportunities
+function wrapParagraph(
+  paragraph: StyledChar[],
+  wordBreak: WordBreak,
+  measureAdvance: (chars: StyledChar[]) => number,
+  maxWidth: number
+): StyledChar[][] {
+  const fits = (line: StyledChar[]) => measureAdvance(trimEnd(line)) <= maxWidth + WRAP_EPSILON;
+  const lines: StyledChar[][] = [];
+  let current: StyledChar[] = [];
+
+  for (const segment of segmentText(paragraph, wordBreak)) {
+    const candidate = [...current, ...segment];
+    if (current.length > 0 && !fits(candidate)) {
+      lines.push(trimEnd(current));
+      current = segment;
+    } else {
+      current = candidate;
+    }
+
+    // A single segment wider than the line is split between arbitrary characters
+    if (wordBreak === 'break-word' && !fits(current)) {
+      const pieces = splitAnywhere(current, fits);
+      lines.push(...pieces.slice(0, -1));
+      current = pieces[pieces.length - 1];
+    }
+  }
+
+  lines.push(trimEnd(current));
+  return lines;
+}
+
+// Split text into units that must stay on the same line
+// Whitespace is attached to the end of the preceding unit so that it can hang past the edge
+function segmentText(chars: StyledChar[], wordBreak: WordBreak): StyledChar[][] {
+  const segments: StyledChar[][] = [];
+  let current: StyledChar[] = [];
+
+  chars.forEach((c, index) => {
+    if (index > 0 && canBreakBetween(chars[index - 1].char, c.char, wordBreak)) {
+      segments.push(current);
+      current = [];
+    }
+    current.push(c);
+  });
+
+  if (current.length > 0) {
+    segments.push(current);
+  }
+  return segments;
+}
+
+function canBreakBetween(previous: string, next: string, wordBreak: WordBreak): boolean {
+  if (isSpace(next)) {
+    return false;
+  }
+  if (isSpace(previous)) {
+    return true;
+  }
+  if (NO_BREAK_BEFORE.has(next) || NO_BREAK_AFTER.has(previous)) {
+    return false;
+  }
+  switch (wordBreak) {
+    case 'break-all':
+      return true;
+    case 'keep-all':
+      return false;
+    case 'normal':
+    case 'break-word':
+      // CJK text has no spaces between words, so every character boundary is an opportunity
+      return CJK_PATTERN.test(previous) || CJK_PATTERN.test(next);
+  }
+}
+
+function isSpace(char: string): boolean {
+  return char === ' ' || char === '\u3000';
+}
+
+// Break text between characters, keeping as many characters on each line as fit
+function splitAnywhere(chars: StyledChar[], fits: (line: StyledChar[]) => boolean): StyledChar[][] {
+  const pieces: StyledChar[][] = [];
+  let current: StyledChar[] = [];
+  for (const c of chars) {
+    if (current.length > 0 && !fits([...current, c])) {
+      pieces.push(trimEnd(current));
+      current = isSpace(c.char) ? [] : [c];
+    } else {
+      current.push(c);
+    }
+  }
+  pieces.push(current);
+  return pieces;
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import type { ContainerNode, Node, OverlayLayer, OverlayNode } from '../node';
+import type { OverlayAnchor, Padding } from '../style';
+import { computeLayout } from './compute-layout';
+import type { TextMeasurer } from './text-measurer';
+
+// Same padding on every side
+const uniform = (value: number): Padding => ({
+  top: value,
+  right: value,
+  bottom: value,
+  left: value,
+});
+
+const measurer: TextMeasurer = {
+  measureText: () => ({ width: 0, height: 0 }),
+  measureAdvance: () => 0,
+};
+
+const box = (width: number, height: number): ContainerNode => ({
+  kind: 'container',
+  style: { width, height, padding: uniform(0) },
+  item: { kind: 'text', item: '' },
+});
+
+// A 100×60 backdrop with a 20×10 badge on top
+const overlay = (badge: Omit<OverlayLayer, 'item'>, anchor?: OverlayAnchor): OverlayNode => ({
+  kind: 'overlay',
+  style: { padding: uniform(0), anchor },
+  layers: [{ item: box(100, 60) }, { item: box(20, 10), ...badge }],
+});
+
+const badgePosition = (node: Node) => {
+  const { x, y } = computeLayout(node, measurer).children[1];
+  return { x, y };
+};
+
+describe('overlay layout', () => {
+  it.each([
+    ['top-left', 0, 0],
+    ['top', 40, 0],
+    ['top-right', 80, 0],
+    ['left', 0, 25],
+    ['center', 40, 25],
+    ['right', 80, 25],
+    ['bottom-left', 0, 50],
+    ['bottom', 40, 50],
+    ['bottom-right', 80, 50],
+  ] as const)('places a layer anchored %s', (anchor, x, y) => {
+    expect(badgePosition(overlay({ anchor }))).toEqual({ x, y });
+  });
+
+  it('falls back to the anchor of the overlay, then to top-left', () => {
+    expect(badgePosition(overlay({}, 'bottom-right'))).toEqual({ x: 80, y: 50 });
+    expect(badgePosition(overlay({ anchor: 'center' }, 'bottom-right'))).toEqual({ x: 40, y: 25 });
+    expect(badgePosition(overlay({}))).toEqual({ x: 0, y: 0 });
+  });
+
+  it('shifts layers by their offsets from the anchored position', () => {
+    expect(badgePosition(overlay({ anchor: 'top-right', offsetX: 5, offsetY: -3 }))).toEqual({
+      x: 85,
+      y: -3,
+    });
+  });
+
+  it('is as large as its largest layer, whatever the offsets', () => {
+    const layout = computeLayout(
+      overlay({ anchor: 'bottom-right', offsetX: 50, offsetY: 50 }),
+      measurer
+    );
+
+    expect(layout).toMatchObject({ width: 100, height: 60 });
+  });
+
+  it('takes only the size of its largest layer in its parent', () => {
+    const node: Node = {
+      kind: 'vertical',
+      style: { padding: uniform(0), spacing: 0 },
+      items: [overlay({ offsetY: 100 }), box(10, 10)],
+    };
+    const layout = computeLayout(node, measurer);
+
+    expect(layout.height).toBe(70);
+    expect(layout.children[1].y).toBe(60);
+  });
+});
@@ -0,0 +1,84 @@
+import type { OverlayNode } from '../node';
+import { DEFAULT_OVERLAY_NODE_STYLE, type OverlayAnchor } from '../style';
+import { alignCrossAxis } from './alignment';
+import {
+  addInsets,
+  firstBaseline,
+  insetRect,
+  resolveBorderWidths,
+  resolvePadding,
+} from './box-model';
+import { arrangeNode, type LayoutContext, measureNode } from './compute-layout';
+import type { LayoutBox, Rect, Size } from './layout-box';
+import { constrainSize } from './sizing';
+import { fitTextHeightToWidth } from './text-layout';
+
+type Placement = 'start' | 'center' | 'end';
+
+// Horizontal and vertical placement of each anchor
+const ANCHOR_PLACEMENTS: Record<OverlayAnchor, [Placement, Placement]> = {
+  'top-left': ['start', 'start'],
+  top: ['center', 'start'],
+  'top-right': ['end', 'start'],
+  left: ['start', 'center'],
+  center: ['center', 'center'],
+  right: ['end', 'center'],
+  'bottom-left': ['start', 'end'],
+  bottom: ['center', 'end'],
+  'bottom-right': ['end', 'end'],
+};
+
+// Measure overlay node: large enough for its largest layer, plus padding and border
+// Offsets move layers without growing the overlay, like CSS relative positioning
+export function measureOverlayNode(context: LayoutContext, node: OverlayNode): Size {
+  const insets = addInsets(
+    resolveBorderWidths(node.style?.border),
+    resolvePadding(node.style?.padding ?? DEFAULT_OVERLAY_NODE_STYLE.padding)
+  );
+  const layerSizes = node.layers.map((layer) => measureNode(context, layer.item));
+
+  return {
+    width: Math.max(0, ...layerSizes.map((size) => size.width)) + insets.left + insets.right,
+    height: Math.max(0, ...layerSizes.map((size) => size.height)) + insets.top + insets.bottom,
+  };
+}
+
+// Arrange overlay node: every layer is placed in the content box by its anchor and offset
+export function arrangeOverlayNode(
+  context: LayoutContext,
+  node: OverlayNode,
+  frame: Rect
+): LayoutBox {
+  const padding = resolvePadding(node.style?.padding ?? DEFAULT_OVERLAY_NODE_STYLE.padding);
+  const defaultAnchor = node.style?.anchor ?? DEFAULT_OVERLAY_NODE_STYLE.anchor;
+  const paddingBox = insetRect(frame, resolveBorderWidths(node.style?.border));
+  const contentBox = insetRect(paddingBox, padding);
+
+  const children = node.layers.map((layer) => {
+    const size = fitTextHeightToWidth(
+      context,
+      layer.item,
+      constrainSize(layer.item, measureNode(context, layer.item), contentBox),
+      contentBox.height
+    );
+    const [horizontal, vertical] = ANCHOR_PLACEMENTS[layer.anchor ?? defaultAnchor];
+    const x =
+      contentBox.x +
+      alignCrossAxis(horizontal, contentBox.width, size.width) +
+      (layer.offsetX ?? 0);
+    const y =
+      contentBox.y +
+      alignCrossAxis(vertical, contentBox.height, size.height) +
+      (layer.offsetY ?? 0);
+    return arrangeNode(context, layer.item, { x, y, ...size });
+  });
+
+  return {
+    node,
+    ...frame,
+    paddingBox,
+    contentBox,
+    baseline: firstBaseline(children),
+    children,
+  };
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import type { ContainerNode, ScrollNode } from '../node';
+import type { Overflow, Padding } from '../style';
+import { computeLayout } from './compute-layout';
+import type { TextMeasurer } from './text-measurer';
+
+// Same padding on every side
+const uniform = (value: number): Padding => ({
+  top: value,
+  right: value,
+  bottom: value,
+  left: value,
+});
+
+const measurer: TextMeasurer = {
+  measureText: () => ({ width: 0, height: 0 }),
+  measureAdvance: () => 0,
+};
+
+const box = (width: number, height: number): ContainerNode => ({
+  kind: 'container',
+  style: { width, height, padding: uniform(0) },
+  item: { kind: 'text', item: '' },
+});
+
+// A 100×50 viewport with a padding of 5, which leaves a 90×40 content box
+const viewport = (
+  item: ContainerNode,
+  scroll: Pick<ScrollNode, 'scrollX' | 'scrollY'> = {},
+  overflow: Overflow = 'scroll'
+): ScrollNode => ({
+  kind: 'scroll',
+  item,
+  ...scroll,
+  style: { width: 100, height: 50, padding: uniform(5), overflow },
+});
+
+describe('scroll layout', () => {
+  it('scrolls by as much as the item exceeds the content box', () => {
+    const layout = computeLayout(viewport(box(300, 200), { scrollX: 30, scrollY: 20 }), measurer);
+
+    expect(layout.scrollRange).toEqual({ width: 210, height: 160 });
+    expect(layout.children[0]).toMatchObject({ x: -25, y: -15, width: 300, height: 200 });
+  });
+
+  it('has nothing to scroll when the item fits', () => {
+    const layout = computeLayout(viewport(box(20, 20), { scrollX: 10, scrollY: 10 }), measurer);
+
+    expect(layout.scrollRange).toEqual({ width: 0, height: 0 });
+    expect(layout.children[0]).toMatchObject({ x: 5, y: 5 });
+  });
+
+  it('clamps the scroll offsets to the range', () => {
+    const layout = computeLayout(
+      viewport(box(300, 200), { scrollX: 1000, scrollY: -10 }),
+      measurer
+    );
+
+    expect(layout.children[0]).toMatchObject({ x: 5 - 210, y: 5 });
+  });
+
+  it('clips descendants to the padding box unless overflow is visible', () => {
+    const clip = (overflow: Overflow) =>
+      computeLayout(viewport(box(300, 200), {}, overflow), measurer).clip;
+
+    expect(clip('scroll')).toEqual({ x: 0, y: 0, width: 100, height: 50 });
+    expect(clip('hidden')).toEqual({ x: 0, y: 0, width: 100, height: 50 });
+    expect(clip('visible')).toBeUndefined();
+  });
+
+  it('ignores the scroll offsets without overflow scroll', () => {
+    const layout = computeLayout(
+      viewport(box(300, 200), { scrollX: 30, scrollY: 20 }, 'hidden'),
+      measurer
+    );
+
+    expect(layout.scrollRange).toBeUndefined();
+    expect(layout.children[0]).toMatchObject({ x: 5, y: 5 });
+  });
+});
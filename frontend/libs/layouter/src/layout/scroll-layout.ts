@@ -0,0 +1,68 @@
+import type { ScrollNode } from '../node';
+import { DEFAULT_SCROLL_NODE_STYLE } from '../style';
+import { addInsets, insetRect, resolveBorderWidths, resolvePadding } from './box-model';
+import { arrangeNode, type LayoutContext, measureNode } from './compute-layout';
+import type { LayoutBox, Rect, Size } from './layout-box';
+import { constrainSize } from './sizing';
+import { fitTextHeightToWidth } from './text-layout';
+
+// Measure scroll node: its item surrounded by padding and border, like a container
+// The sizing style then turns this into a fixed viewport
+export function measureScrollNode(context: LayoutContext, node: ScrollNode): Size {
+  const insets = addInsets(
+    resolveBorderWidths(node.style?.border),
+    resolvePadding(node.style?.padding ?? DEFAULT_SCROLL_NODE_STYLE.padding)
+  );
+  const itemSize = measureNode(context, node.item);
+
+  return {
+    width: itemSize.width + insets.left + insets.right,
+    height: itemSize.height + insets.top + insets.bottom,
+  };
+}
+
+// Arrange scroll node: the item keeps its own size and is shifted by the scroll offsets
+// Unless overflow is visible, descendants are clipped to the padding box
+export function arrangeScrollNode(
+  context: LayoutContext,
+  node: ScrollNode,
+  frame: Rect
+): LayoutBox {
+  const padding = resolvePadding(node.style?.padding ?? DEFAULT_SCROLL_NODE_STYLE.padding);
+  const overflow = node.style?.overflow ?? DEFAULT_SCROLL_NODE_STYLE.overflow;
+  const paddingBox = insetRect(frame, resolveBorderWidths(node.style?.border));
+  const contentBox = insetRect(paddingBox, padding);
+  const itemSize = fitTextHeightToWidth(
+    context,
+    node.item,
+    constrainSize(node.item, measureNode(context, node.item), contentBox),
+    contentBox.height
+  );
+
+  const scrollRange = {
+    width: Math.max(0, itemSize.width - contentBox.width),
+    height: Math.max(0, itemSize.height - contentBox.height),
+  };
+  const scrollX = overflow === 'scroll' ? clampScroll(node.scrollX, scrollRange.width) : 0;
+  const scrollY = overflow === 'scroll' ? clampScroll(node.scrollY, scrollRange.height) : 0;
+  const item = arrangeNode(context, node.item, {
+    x: contentBox.x - scrollX,
+    y: contentBox.y - scrollY,
+    ...itemSize,
+  });
+
+  return {
+    node,
+    ...frame,
+    paddingBox,
+    contentBox,
+    baseline: item.baseline,
+    ...(overflow === 'visible' ? {} : { clip: paddingBox }),
+    ...(overflow === 'scroll' ? { scrollRange } : {}),
+    children: [item],
+  };
+}
+
+function clampScroll(offset: number | undefined, range: number): number {
+  return Math.min(Math.max(offset ?? 0, 0), range);
+}
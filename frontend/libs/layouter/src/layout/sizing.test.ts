@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import type { ContainerNode, Node } from '../node';
+import type { ContainerNodeStyle, Padding } from '../style';
+import { computeLayout } from './compute-layout';
+import { constrainSize, distributeMainAxis, resolveLength } from './sizing';
+import type { TextMeasurer } from './text-measurer';
+
+// Same padding on every side
+const uniform = (value: number): Padding => ({
+  top: value,
+  right: value,
+  bottom: value,
+  left: value,
+});
+
+const measurer: TextMeasurer = {
+  measureText: () => ({ width: 0, height: 0 }),
+  measureAdvance: () => 0,
+};
+
+const box = (style: ContainerNodeStyle): ContainerNode => ({
+  kind: 'container',
+  style: { padding: uniform(0), ...style },
+  item: { kind: 'text', item: '' },
+});
+
+describe('resolveLength', () => {
+  it('resolves percentages against the reference', () => {
+    expect(resolveLength('25%', 200)).toBe(50);
+    expect(resolveLength('25%')).toBeUndefined();
+    expect(resolveLength(12)).toBe(12);
+    expect(resolveLength('auto', 200)).toBeUndefined();
+  });
+});
+
+describe('constrainSize', () => {
+  it('prefers the requested size and clamps it to min and max', () => {
+    expect(constrainSize(box({ width: 50, maxWidth: 40 }), { width: 10, height: 10 })).toEqual({
+      width: 40,
+      height: 10,
+    });
+    // min wins over max, as in CSS
+    expect(constrainSize(box({ minHeight: 30, maxHeight: 20 }), { width: 10, height: 10 })).toEqual(
+      { width: 10, height: 30 }
+    );
+    expect(
+      constrainSize(box({ width: '50%' }), { width: 10, height: 10 }, { width: 80, height: 0 })
+    ).toMatchObject({ width: 40 });
+  });
+});
+
+describe('distributeMainAxis', () => {
+  it('keeps the base sizes without flex factors', () => {
+    expect(distributeMainAxis([box({}), box({})], [10, 20], 'width', 100)).toEqual([10, 20]);
+  });
+
+  it('shares free space by flexGrow', () => {
+    const nodes = [box({ flexGrow: 1 }), box({ flexGrow: 3 }), box({})];
+    expect(distributeMainAxis(nodes, [10, 10, 10], 'width', 70)).toEqual([20, 40, 10]);
+  });
+
+  it('takes overflow back by flexShrink weighted by base size', () => {
+    const nodes = [box({ flexShrink: 1 }), box({ flexShrink: 1 })];
+    expect(distributeMainAxis(nodes, [20, 60], 'width', 60)).toEqual([15, 45]);
+  });
+
+  it('freezes items at their bounds and gives the rest to the others', () => {
+    const nodes = [box({ flexGrow: 1, maxWidth: 20 }), box({ flexGrow: 1 })];
+    expect(distributeMainAxis(nodes, [10, 10], 'width', 100)).toEqual([20, 80]);
+
+    const shrinking = [box({ flexShrink: 1, minWidth: 45 }), box({ flexShrink: 1 })];
+    expect(distributeMainAxis(shrinking, [50, 50], 'width', 60)).toEqual([45, 15]);
+  });
+
+  it('never shrinks an item below zero', () => {
+    const nodes = [box({ flexShrink: 1 }), box({})];
+    expect(distributeMainAxis(nodes, [10, 50], 'width', 20)).toEqual([0, 50]);
+  });
+});
+
+describe('flex layout', () => {
+  it('grows the items of a horizontal layout to fill its width', () => {
+    const node: Node = {
+      kind: 'horizontal',
+      style: { width: 100, padding: uniform(0), spacing: 10 },
+      items: [box({ width: 10, height: 10, flexGrow: 1 }), box({ width: 10, height: 10 })],
+    };
+    const layout = computeLayout(node, measurer);
+
+    expect(layout.children.map(({ x, width }) => ({ x, width }))).toEqual([
+      { x: 0, width: 80 },
+      { x: 90, width: 10 },
+    ]);
+  });
+
+  it('resolves percentage sizes against the content box', () => {
+    const node: Node = {
+      kind: 'vertical',
+      style: { width: 200, padding: uniform(10) },
+      items: [box({ width: '50%', height: 10 })],
+    };
+    const layout = computeLayout(node, measurer);
+
+    expect(layout.children[0].width).toBe(90);
+  });
+});
@@ -0,0 +1,103 @@
+import type { Node } from '../node';
+import { DEFAULT_SIZING_STYLE, type Length } from '../style';
+import type { Size } from './layout-box';
+
+export type Axis = 'width' | 'height';
+
+const MIN_KEYS = { width: 'minWidth', height: 'minHeight' } as const;
+const MAX_KEYS = { width: 'maxWidth', height: 'maxHeight' } as const;
+
+// Apply the node's width/height and min/max constraints to a content-driven size
+// Percentages resolve against `reference` (the parent's content box) and are ignored without it
+export function constrainSize(node: Node, size: Size, reference?: Size): Size {
+  return {
+    width: constrainAxis(node, 'width', size.width, reference?.width),
+    height: constrainAxis(node, 'height', size.height, reference?.height),
+  };
+}
+
+// Clamp a size along one axis to the node's min/max constraints (min wins over max, as in CSS)
+export function clampToBounds(node: Node, axis: Axis, value: number, reference?: number): number {
+  const min = resolveLength(
+    node.style?.[MIN_KEYS[axis]] ?? DEFAULT_SIZING_STYLE[MIN_KEYS[axis]],
+    reference
+  );
+  const max = resolveLength(
+    node.style?.[MAX_KEYS[axis]] ?? DEFAULT_SIZING_STYLE[MAX_KEYS[axis]],
+    reference
+  );
+  return Math.max(min ?? 0, Math.min(value, max ?? Number.POSITIVE_INFINITY));
+}
+
+// Distribute the main-axis space of a horizontal/vertical layout among its items
+// Free space is shared by flexGrow, overflow is taken back by flexShrink weighted by item size;
+// items that hit a min/max bound are frozen and the rest is redistributed among the others
+export function distributeMainAxis(
+  nodes: Node[],
+  baseSizes: number[],
+  axis: Axis,
+  available: number,
+  reference?: number
+): number[] {
+  const sizes = [...baseSizes];
+  const frozen = new Set<number>();
+
+  for (let pass = 0; pass <= nodes.length; pass++) {
+    const free = available - sizes.reduce((sum, size) => sum + size, 0);
+    if (Math.abs(free) < 1e-9) {
+      break;
+    }
+    const growing = free > 0;
+    const weights = nodes.map((node, index) => {
+      if (frozen.has(index)) {
+        return 0;
+      }
+      const grow = node.style?.flexGrow ?? DEFAULT_SIZING_STYLE.flexGrow;
+      const shrink = node.style?.flexShrink ?? DEFAULT_SIZING_STYLE.flexShrink;
+      return Math.max(0, growing ? grow : shrink * baseSizes[index]);
+    });
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    if (totalWeight <= 0) {
+      break;
+    }
+
+    let clamped = false;
+    nodes.forEach((node, index) => {
+      if (weights[index] === 0) {
+        return;
+      }
+      const target = Math.max(0, sizes[index] + (free * weights[index]) / totalWeight);
+      const bounded = clampToBounds(node, axis, target, reference);
+      if (bounded !== target) {
+        frozen.add(index);
+        clamped = true;
+      }
+      sizes[index] = bounded;
+    });
+    if (!clamped) {
+      break;
+    }
+  }
+
+  return sizes;
+}
+
+function constrainAxis(node: Node, axis: Axis, content: number, reference?: number): number {
+  const preferred = resolveLength(node.style?.[axis] ?? DEFAULT_SIZING_STYLE[axis], reference);
+  return clampToBounds(node, axis, preferred ?? content, reference);
+}
+
+// Convert a Length to layout units; undefined when it cannot be resolved ('auto', 'none', or a
+// percentage without a reference size)
+export function resolveLength(
+  length: Length | 'auto' | 'none',
+  reference?: number
+): number | undefined {
+  if (typeof length === 'number') {
+    return length;
+  }
+  if (length === 'auto' || length === 'none' || reference === undefined) {
+    return undefined;
+  }
+  return (Number.parseFloat(length) / 100) * reference;
+}
@@ -0,0 +1,124 @@
+import { getTextSpanStyle, getTextSpans, type TextNode } from '../node';
+import { DEFAULT_TEXT_NODE_STYLE } from '../style';
+import type { LayoutBox, Point, Rect, TextLine } from './layout-box';
+import type { TextMeasurer } from './text-measurer';
+
+// Indices below refer to the text of a node's spans joined, in UTF-16 code units like string
+// offsets, so that they can be used with String.prototype.slice
+
+// Place between two characters of a line where a caret can be put
+export interface CaretStop {
+  index: number;
+  x: number;
+}
+
+// How far a caret reaches above and below the baseline, relative to the font size
+const CARET_ASCENT = 0.9;
+const CARET_DESCENT = 0.25;
+
+// Caret stops of a laid out line, from left to right
+// Characters are measured by their advances, so stops fall exactly between rendered glyphs
+export function textCaretStops(
+  measurer: TextMeasurer,
+  box: LayoutBox<TextNode>,
+  line: TextLine
+): CaretStop[] {
+  const spans = getTextSpans(box.node);
+  const stops = line.runs.flatMap((run) => {
+    const style = getTextSpanStyle(box.node, spans[run.span]);
+    const chars = Array.from(run.text);
+    return Array.from({ length: chars.length + 1 }, (_, count) => ({
+      index:
+        count < chars.length
+          ? run.offsets[count]
+          : run.offsets[count - 1] + chars[count - 1].length,
+      x: run.x + measurer.measureAdvance(chars.slice(0, count).join(''), style),
+    }));
+  });
+  return stops.length > 0 ? stops : [{ index: line.start, x: line.x }];
+}
+
+// Caret index closest to a point in layout space, e.g. where the text was clicked
+export function textCaretIndexAt(
+  measurer: TextMeasurer,
+  box: LayoutBox<TextNode>,
+  point: Point
+): number {
+  const lines = box.lines ?? [];
+  if (lines.length === 0) {
+    return 0;
+  }
+  const distance = (line: TextLine) => {
+    const { top, bottom } = lineExtent(box, line);
+    return Math.max(top - point.y, point.y - bottom, 0);
+  };
+  const line = lines.reduce((nearest, candidate) =>
+    distance(candidate) < distance(nearest) ? candidate : nearest
+  );
+  const stop = textCaretStops(measurer, box, line).reduce((nearest, candidate) =>
+    Math.abs(candidate.x - point.x) < Math.abs(nearest.x - point.x) ? candidate : nearest
+  );
+  return stop.index;
+}
+
+// Zero-width rect of a caret at the index, spanning the glyphs of its line
+// An index between the lines of a wrapped paragraph is shown at the start of the later line,
+// and an index inside collapsed whitespace at the stop before it
+export function textCaretRect(
+  measurer: TextMeasurer,
+  box: LayoutBox<TextNode>,
+  index: number
+): Rect {
+  let found: { line: TextLine; stop: CaretStop } | undefined;
+  for (const line of box.lines ?? []) {
+    for (const stop of textCaretStops(measurer, box, line)) {
+      if (!found || stop.index <= index) {
+        found = { line, stop };
+      }
+    }
+  }
+  if (!found) {
+    return { ...box.contentBox, width: 0 };
+  }
+  const { top, bottom } = lineExtent(box, found.line);
+  return { x: found.stop.x, y: top, width: 0, height: bottom - top };
+}
+
+// Rects covering the characters between two indices, one for every line they appear on
+export function textSelectionRects(
+  measurer: TextMeasurer,
+  box: LayoutBox<TextNode>,
+  start: number,
+  end: number
+): Rect[] {
+  const from = Math.min(start, end);
+  const to = Math.max(start, end);
+  return (box.lines ?? []).flatMap((line) => {
+    const xs = textCaretStops(measurer, box, line)
+      .filter((stop) => stop.index >= from && stop.index <= to)
+      .map((stop) => stop.x);
+    if (xs.length < 2) {
+      return [];
+    }
+    const { top, bottom } = lineExtent(box, line);
+    const left = Math.min(...xs);
+    return [{ x: left, y: top, width: Math.max(...xs) - left, height: bottom - top }];
+  });
+}
+
+// Vertical extent of the glyphs of a line, taken from its largest font size
+function lineExtent(box: LayoutBox<TextNode>, line: TextLine): { top: number; bottom: number } {
+  const spans = getTextSpans(box.node);
+  const fontSizes = line.runs.map(
+    (run) =>
+      getTextSpanStyle(box.node, spans[run.span]).fontSize ?? DEFAULT_TEXT_NODE_STYLE.fontSize
+  );
+  const fontSize =
+    fontSizes.length > 0
+      ? Math.max(...fontSizes)
+      : (box.node.style?.fontSize ?? DEFAULT_TEXT_NODE_STYLE.fontSize);
+  return {
+    top: line.baseline - fontSize * CARET_ASCENT,
+    bottom: line.baseline + fontSize * CARET_DESCENT,
+  };
+}
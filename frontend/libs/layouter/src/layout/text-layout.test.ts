@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import type { Node, TextNode } from '../node';
+import { rem } from '../scaling';
+import type { Padding, TextNodeStyle } from '../style';
+import { computeLayout } from './compute-layout';
+import type { TextMeasurer } from './text-measurer';
+
+// Same padding on every side
+const uniform = (value: number): Padding => ({
+  top: value,
+  right: value,
+  bottom: value,
+  left: value,
+});
+
+// Every character advances half the font size and text is one font size tall
+const measurer: TextMeasurer = {
+  measureText: (text, style) => ({
+    width: Array.from(text).length * ((style?.fontSize ?? 10) / 2),
+    height: style?.fontSize ?? 10,
+  }),
+  measureAdvance: (text, style) => Array.from(text).length * ((style?.fontSize ?? 10) / 2),
+};
+
+const text = (item: string, style: TextNodeStyle = {}): TextNode => ({
+  kind: 'text',
+  item,
+  style: { fontSize: 10, ...style },
+});
+
+describe('text layout', () => {
+  it('wraps at maxWidth and spaces baselines by lineHeight', () => {
+    const layout = computeLayout(
+      text('aaaa bbbb cccc', { maxWidth: 20 + rem(0.5), lineHeight: 1.5 }),
+      measurer
+    );
+    const lines = layout.lines ?? [];
+
+    expect(lines.map((line) => line.text)).toEqual(['aaaa', 'bbbb', 'cccc']);
+    expect(lines[1].baseline - lines[0].baseline).toBeCloseTo(15);
+    expect(lines[2].baseline - lines[1].baseline).toBeCloseTo(15);
+  });
+
+  it('grows with every line it wraps to', () => {
+    const single = computeLayout(text('aaaa'), measurer);
+    const double = computeLayout(text('aaaa\nbbbb', { lineHeight: 2 }), measurer);
+
+    expect(double.height - single.height).toBeCloseTo(20);
+  });
+
+  it('aligns lines with textAlign', () => {
+    const style: TextNodeStyle = { width: 100, whiteSpace: 'pre' };
+    const padding = rem(0.5);
+    const lineX = (textAlign: TextNodeStyle['textAlign']) =>
+      computeLayout(text('aa\naaaa', { ...style, textAlign }), measurer).lines?.map(
+        (line) => line.x
+      );
+
+    expect(lineX('left')).toEqual([padding / 2, padding / 2]);
+    expect(lineX('center')).toEqual([45, 40]);
+    expect(lineX('right')).toEqual([100 - padding / 2 - 10, 100 - padding / 2 - 20]);
+  });
+
+  it('lays out runs of spans with their own sizes', () => {
+    const node: TextNode = {
+      kind: 'text',
+      item: [{ text: 'ab' }, { text: 'cd', style: { fontSize: 20 } }],
+      style: { fontSize: 10, textAlign: 'left' },
+    };
+    const [line] = computeLayout(node, measurer).lines ?? [];
+
+    expect(line.runs.map(({ text, width }) => ({ text, width }))).toEqual([
+      { text: 'ab', width: 10 },
+      { text: 'cd', width: 20 },
+    ]);
+    expect(line.runs[1].x - line.runs[0].x).toBe(10);
+  });
+
+  describe('narrower than measured', () => {
+    const padding = rem(0.5);
+    const wrapped = computeLayout(text('aaaa bbbb', { maxWidth: 20 + padding }), measurer);
+
+    it('grows when a percentage width wraps it to more lines', () => {
+      const node: Node = {
+        kind: 'vertical',
+        style: { width: 2 * (20 + padding), padding: uniform(0) },
+        items: [text('aaaa bbbb', { width: '50%' })],
+      };
+      const [child] = computeLayout(node, measurer).children;
+
+      expect(child.lines).toHaveLength(2);
+      expect(child.height).toBeCloseTo(wrapped.height);
+    });
+
+    it('grows when shrinking wraps it to more lines', () => {
+      const node: Node = {
+        kind: 'horizontal',
+        style: { width: 20 + padding, padding: uniform(0) },
+        items: [text('aaaa bbbb', { flexShrink: 1 })],
+      };
+      const [child] = computeLayout(node, measurer).children;
+
+      expect(child.width).toBeCloseTo(20 + padding);
+      expect(child.height).toBeCloseTo(wrapped.height);
+    });
+  });
+});
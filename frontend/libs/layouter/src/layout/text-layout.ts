@@ -0,0 +1,190 @@
+import { getTextSpanStyle, getTextSpans, isTextNode, type Node, type TextNode } from '../node';
+import { rem } from '../scaling';
+import { DEFAULT_SIZING_STYLE, DEFAULT_TEXT_NODE_STYLE, type TextNodeStyle } from '../style';
+import { type LayoutContext, measureNode } from './compute-layout';
+import type { LayoutBox, Rect, Size, TextLine } from './layout-box';
+import { type BrokenRun, breakRuns, type TextRun } from './line-breaking';
+import { clampToBounds, resolveLength } from './sizing';
+
+// Measure text node: rendered text extent plus breathing room around the glyphs
+export function measureTextNode(context: LayoutContext, node: TextNode): Size {
+  const style = resolveTextStyle(node);
+  const horizontalPadding = rem(0.5);
+  const lines = layoutLines(context, node, style, wrapWidthLimit(style, horizontalPadding));
+
+  return {
+    width: Math.max(0, ...lines.map((line) => line.width)) + horizontalPadding,
+    height: textBoxHeight(style, lines),
+  };
+}
+
+// Size of an item once its parent has settled its width: a text node with an automatic height
+// that ends up narrower than it asked for wraps to more lines, so its height is measured again
+// at that width to keep the lines inside the box. Percentages resolve against `reference`
+export function fitTextHeightToWidth(
+  context: LayoutContext,
+  node: Node,
+  size: Size,
+  reference?: number
+): Size {
+  if (!isTextNode(node) || (node.style?.height ?? DEFAULT_SIZING_STYLE.height) !== 'auto') {
+    return size;
+  }
+  if (size.width >= measureNode(context, node).width) {
+    return size;
+  }
+  const style = resolveTextStyle(node);
+  const lines = layoutLines(context, node, style, size.width - rem(0.5));
+  return {
+    ...size,
+    height: clampToBounds(node, 'height', textBoxHeight(style, lines), reference),
+  };
+}
+
+// Arrange text node: lines are wrapped to the frame and the block is centered on its visual middle
+export function arrangeTextNode(context: LayoutContext, node: TextNode, frame: Rect): LayoutBox {
+  const style = resolveTextStyle(node);
+  const horizontalPadding = rem(0.5);
+  const lines = layoutLines(context, node, style, frame.width - horizontalPadding);
+
+  const offsets = baselineOffsets(style, lines);
+  const blockOffset = offsets[offsets.length - 1] / 2;
+  const centerY = frame.y + frame.height / 2;
+  const positioned: TextLine[] = lines.map((line, index) => {
+    const x = alignLine(style, frame, horizontalPadding, line.width);
+    let runX = x;
+    return {
+      text: line.runs.map((run) => run.text).join(''),
+      x,
+      baseline: centerY + offsets[index] - blockOffset + line.visualCenter,
+      width: line.width,
+      start: line.start,
+      runs: line.runs.map((run) => {
+        const positionedRun = { ...run, x: runX };
+        runX += run.width;
+        return positionedRun;
+      }),
+    };
+  });
+
+  return {
+    node,
+    ...frame,
+    paddingBox: { ...frame },
+    contentBox: { ...frame },
+    baseline: positioned[0].baseline,
+    lines: positioned,
+    children: [],
+  };
+}
+
+// Line with the combined metrics of its runs
+interface MeasuredLine {
+  runs: (BrokenRun & { width: number })[];
+  // Index in the node's text where the line starts
+  start: number;
+  width: number;
+  // Largest font size on the line, which determines the distance to neighbouring lines
+  fontSize: number;
+  height: number;
+  // Height above the baseline of the line's visual center, taken from its largest run
+  visualCenter: number;
+}
+
+function resolveTextStyle(node: TextNode): Required<TextNodeStyle> {
+  return { ...DEFAULT_TEXT_NODE_STYLE, ...node.style };
+}
+
+// Break the spans into lines no wider than `maxWidth` and measure each of them
+function layoutLines(
+  context: LayoutContext,
+  node: TextNode,
+  style: Required<TextNodeStyle>,
+  maxWidth?: number
+): MeasuredLine[] {
+  const { textMeasurer } = context;
+  const spanStyles = getTextSpans(node).map((span) => getTextSpanStyle(node, span));
+  const measureRun = (run: TextRun) => textMeasurer.measureAdvance(run.text, spanStyles[run.span]);
+
+  const lines = breakRuns(
+    getTextSpans(node).map((span, index) => ({ text: span.text, span: index })),
+    style.whiteSpace,
+    style.wordBreak,
+    (runs) => runs.reduce((sum, run) => sum + measureRun(run), 0),
+    maxWidth
+  );
+
+  return lines.map(({ runs, start }) => {
+    const measuredRuns = runs.map((run) => ({ ...run, width: measureRun(run) }));
+    const measurements = runs.map((run) =>
+      textMeasurer.measureText(run.text, spanStyles[run.span])
+    );
+    return {
+      runs: measuredRuns,
+      start,
+      width: measuredRuns.reduce((sum, run) => sum + run.width, 0),
+      fontSize:
+        runs.length > 0
+          ? Math.max(...runs.map((run) => spanStyles[run.span].fontSize ?? style.fontSize))
+          : style.fontSize,
+      height: Math.max(0, ...measurements.map((measurement) => measurement.height)),
+      visualCenter: Math.max(
+        0,
+        ...measurements.map((measurement) => measurement.visualCenter ?? measurement.height / 2)
+      ),
+    };
+  });
+}
+
+// Widest line the text may occupy before it has a frame: the smaller of an absolute
+// `width` and `maxWidth`; percentages are only known once the parent arranges the node
+function wrapWidthLimit(style: Required<TextNodeStyle>, horizontalPadding: number) {
+  const limits = [resolveLength(style.width), resolveLength(style.maxWidth)].filter(
+    (limit) => limit !== undefined
+  );
+  return limits.length > 0 ? Math.min(...limits) - horizontalPadding : undefined;
+}
+
+// Distance of every line's center from the first one
+// Consecutive lines are spaced by lineHeight times the larger of their font sizes
+function baselineOffsets(style: Required<TextNodeStyle>, lines: MeasuredLine[]): number[] {
+  const offsets = [0];
+  for (let index = 1; index < lines.length; index++) {
+    const fontSize = Math.max(lines[index - 1].fontSize, lines[index].fontSize);
+    offsets.push(offsets[index - 1] + fontSize * style.lineHeight);
+  }
+  return offsets;
+}
+
+// Height of the text itself: one line box, plus the spacing to every additional line
+function textBlockHeight(style: Required<TextNodeStyle>, lines: MeasuredLine[]): number {
+  // 'fixed' keeps every line the same height regardless of ascenders/descenders
+  const lineHeight =
+    style.heightMode === 'fixed'
+      ? Math.max(...lines.map((line) => line.fontSize))
+      : Math.max(0, ...lines.map((line) => line.height));
+  const offsets = baselineOffsets(style, lines);
+  return lineHeight + offsets[offsets.length - 1];
+}
+
+// Height of the node's box: the text block plus breathing room above and below the glyphs
+function textBoxHeight(style: Required<TextNodeStyle>, lines: MeasuredLine[]): number {
+  return textBlockHeight(style, lines) + style.fontSize * 0.6;
+}
+
+// Pen position of a line of the given width according to textAlign
+function alignLine(
+  style: Required<TextNodeStyle>,
+  frame: Rect,
+  horizontalPadding: number,
+  width: number
+): number {
+  switch (style.textAlign) {
+    case 'left':
+      return frame.x + horizontalPadding / 2;
+    case 'center':
+      return frame.x + (frame.width - width) / 2;
+    case 'right':
+      return frame.x + frame.width - horizontalPadding / 2 - width;
+  }
+}
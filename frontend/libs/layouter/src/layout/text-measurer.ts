@@ -0,0 +1,17 @@
+import type { TextNodeStyle } from '../style';
+
+// Visual extent of a rendered string in layout units
+export interface TextMeasurement {
+  width: number;
+  height: number;
+  // Height above the baseline that sits at the vertical center of the text box
+  // (e.g. half the cap height); when omitted the baseline is placed at the bottom of the glyphs
+  visualCenter?: number;
+}
+
+// Renderer-provided text metrics so that layout can be computed without a scene
+export interface TextMeasurer {
+  measureText(text: string, style?: TextNodeStyle): TextMeasurement;
+  // Horizontal distance the pen moves when drawing the text (sum of glyph advances)
+  measureAdvance(text: string, style?: TextNodeStyle): number;
+}
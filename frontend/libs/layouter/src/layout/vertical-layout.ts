@@ -0,0 +1,112 @@
+import type { VerticalLayoutNode } from '../node';
+import { DEFAULT_VERTICAL_LAYOUT_NODE_STYLE, type VerticalAlignment } from '../style';
+import { alignCrossAxis, justifyMainAxis } from './alignment';
+import {
+  addInsets,
+  firstBaseline,
+  insetRect,
+  resolveBorderWidths,
+  resolvePadding,
+} from './box-model';
+import { arrangeNode, type LayoutContext, measureNode } from './compute-layout';
+import { arrangeConnectors, flowItems } from './connector-layout';
+import type { LayoutBox, Rect, Size } from './layout-box';
+import { clampToBounds, constrainSize, distributeMainAxis } from './sizing';
+import { fitTextHeightToWidth } from './text-layout';
+
+// Measure vertical layout node: items stacked with spacing, plus padding and border
+export function measureVerticalLayoutNode(context: LayoutContext, node: VerticalLayoutNode): Size {
+  const insets = addInsets(
+    resolveBorderWidths(node.style?.border),
+    resolvePadding(node.style?.padding ?? DEFAULT_VERTICAL_LAYOUT_NODE_STYLE.padding)
+  );
+  const spacing = node.style?.spacing ?? DEFAULT_VERTICAL_LAYOUT_NODE_STYLE.spacing;
+  // Connectors are drawn over the layout and take no space in it
+  const items = flowItems(node.items);
+  const itemSizes = items.map((item) => measureNode(context, item));
+
+  const contentWidth = Math.max(0, ...itemSizes.map((size) => size.width));
+  const contentHeight =
+    itemSizes.reduce((sum, size) => sum + size.height, 0) +
+    spacing * Math.max(0, itemSizes.length - 1);
+
+  return {
+    width: contentWidth + insets.left + insets.right,
+    height: contentHeight + insets.top + insets.bottom,
+  };
+}
+
+// Arrange vertical layout node: items from top to bottom, aligned horizontally
+export function arrangeVerticalLayoutNode(
+  context: LayoutContext,
+  node: VerticalLayoutNode,
+  frame: Rect
+): LayoutBox {
+  const padding = resolvePadding(node.style?.padding ?? DEFAULT_VERTICAL_LAYOUT_NODE_STYLE.padding);
+  const spacing = node.style?.spacing ?? DEFAULT_VERTICAL_LAYOUT_NODE_STYLE.spacing;
+  // Connectors are drawn over the layout and take no space in it
+  const items = flowItems(node.items);
+  const alignment = node.style?.alignment ?? DEFAULT_VERTICAL_LAYOUT_NODE_STYLE.alignment;
+  const justification =
+    node.style?.justification ?? DEFAULT_VERTICAL_LAYOUT_NODE_STYLE.justification;
+  const paddingBox = insetRect(frame, resolveBorderWidths(node.style?.border));
+  const contentBox = insetRect(paddingBox, padding);
+
+  // Items start from their requested size at their final width, then grow or shrink to fill the
+  // main axis
+  const baseSizes = items.map((item) => {
+    const size = constrainSize(item, measureNode(context, item), contentBox);
+    if (alignment === 'stretch' && (item.style?.width ?? 'auto') === 'auto') {
+      size.width = clampToBounds(item, 'width', contentBox.width, contentBox.width);
+    }
+    return fitTextHeightToWidth(context, item, size, contentBox.height);
+  });
+  const available = contentBox.height - spacing * Math.max(0, items.length - 1);
+  const mainSizes = distributeMainAxis(
+    items,
+    baseSizes.map((size) => size.height),
+    'height',
+    available,
+    contentBox.height
+  );
+
+  // Whatever the items leave over is distributed by justification
+  const free = available - mainSizes.reduce((sum, size) => sum + size, 0);
+  const { leading, between } = justifyMainAxis(justification, free, items.length, spacing);
+
+  let yOffset = contentBox.y + leading;
+  const children = items.map((item, index) => {
+    const size = { ...baseSizes[index], height: mainSizes[index] };
+    const x = contentBox.x + alignHorizontally(alignment, contentBox.width, size.width);
+    const child = arrangeNode(context, item, { x, y: yOffset, ...size });
+    yOffset += size.height + between;
+    return child;
+  });
+  children.push(...arrangeConnectors(context, node.items, contentBox));
+
+  return {
+    node,
+    ...frame,
+    paddingBox,
+    contentBox,
+    baseline: firstBaseline(children),
+    children,
+  };
+}
+
+// Offset of an item from the left of the content box
+function alignHorizontally(
+  alignment: VerticalAlignment,
+  contentWidth: number,
+  itemWidth: number
+): number {
+  switch (alignment) {
+    case 'left':
+    case 'stretch':
+      return alignCrossAxis('start', contentWidth, itemWidth);
+    case 'center':
+      return alignCrossAxis('center', contentWidth, itemWidth);
+    case 'right':
+      return alignCrossAxis('end', contentWidth, itemWidth);
+  }
+}
@@ -0,0 +1,27 @@
+import type { ConnectorNodeStyle } from '../style';
+import type { Node } from './node';
+
+// Line drawn between two other nodes of the same tree
+// It takes no space in horizontal and vertical layouts; its route follows the computed boxes of
+// the nodes it connects
+export interface ConnectorNode {
+  kind: 'connector';
+  // Stable identity used to match the node across updates; falls back to tag when omitted
+  id?: string;
+  tag?: string;
+  // Id of the connected node, or its tag when no node has that id
+  from: string;
+  to: string;
+  style?: ConnectorNodeStyle;
+}
+
+export function isConnectorNode(node: Node): node is ConnectorNode {
+  return node.kind === 'connector';
+}
+
+export function updateConnectorNodeStyle(
+  node: ConnectorNode,
+  style: Partial<ConnectorNodeStyle>
+): void {
+  node.style = { ...node.style, ...style };
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { findDirectionalFocus, findTabFocus, getFocusOrder } from './focus-navigation';
+import type { HorizontalLayoutNode } from './horizontal-layout-node';
+import type { TextNode } from './text-node';
+import type { VerticalLayoutNode } from './vertical-layout-node';
+
+const button = (item: string): TextNode => ({ kind: 'text', item, focusable: true });
+
+// a b label
+// field
+// c d
+const a = button('a');
+const b = button('b');
+const label: TextNode = { kind: 'text', item: 'label' };
+const field: TextNode = { kind: 'text', item: 'field', editable: true };
+const c = button('c');
+const d = button('d');
+const top: HorizontalLayoutNode = { kind: 'horizontal', items: [a, b, label] };
+const bottom: HorizontalLayoutNode = { kind: 'horizontal', items: [c, d] };
+const root: VerticalLayoutNode = { kind: 'vertical', items: [top, field, bottom] };
+
+describe('getFocusOrder', () => {
+  it('lists focusable and editable nodes in tree order', () => {
+    expect(getFocusOrder(root)).toEqual([a, b, field, c, d]);
+  });
+
+  it('skips editable text marked as not focusable', () => {
+    const node: TextNode = { kind: 'text', item: '', editable: true, focusable: false };
+    expect(getFocusOrder(node)).toEqual([]);
+  });
+});
+
+describe('findTabFocus', () => {
+  it('moves forward and backward, wrapping around at either end', () => {
+    expect(findTabFocus(root, b, 1)).toBe(field);
+    expect(findTabFocus(root, field, -1)).toBe(b);
+    expect(findTabFocus(root, d, 1)).toBe(a);
+    expect(findTabFocus(root, a, -1)).toBe(d);
+  });
+
+  it('starts at either end without a focused node', () => {
+    expect(findTabFocus(root, undefined, 1)).toBe(a);
+    expect(findTabFocus(root, label, -1)).toBe(d);
+  });
+});
+
+describe('findDirectionalFocus', () => {
+  it('moves along a horizontal stack with left and right', () => {
+    expect(findDirectionalFocus(root, a, 'right')).toBe(b);
+    expect(findDirectionalFocus(root, d, 'left')).toBe(c);
+    expect(findDirectionalFocus(root, b, 'right')).toBeUndefined();
+  });
+
+  it('moves to the closest node of the neighbouring item with up and down', () => {
+    expect(findDirectionalFocus(root, b, 'down')).toBe(field);
+    expect(findDirectionalFocus(root, field, 'up')).toBe(b);
+    expect(findDirectionalFocus(root, field, 'down')).toBe(c);
+    expect(findDirectionalFocus(root, a, 'up')).toBeUndefined();
+  });
+});
@@ -0,0 +1,86 @@
+import { isConnectorNode } from './connector-node';
+import { isHorizontalLayoutNode } from './horizontal-layout-node';
+import { getChildNodes, type Node, traverseNode } from './node';
+import { isTextNode } from './text-node';
+import { isVerticalLayoutNode } from './vertical-layout-node';
+
+export type FocusDirection = 'up' | 'down' | 'left' | 'right';
+
+// Whether a node takes keyboard focus: when marked focusable, and editable text unless it is
+// marked otherwise
+export function isFocusable(node: Node): boolean {
+  if (isConnectorNode(node)) {
+    return false;
+  }
+  return node.focusable ?? (isTextNode(node) && node.editable === true);
+}
+
+// Focusable nodes in tab order, which is the order of the tree
+export function getFocusOrder(root: Node): Node[] {
+  const nodes: Node[] = [];
+  traverseNode(root, (node) => {
+    if (isFocusable(node)) {
+      nodes.push(node);
+    }
+  });
+  return nodes;
+}
+
+// Node Tab (1) or Shift+Tab (-1) moves focus to, wrapping around at either end
+// Without a current node in the tree, focus goes to the first or the last node
+export function findTabFocus(
+  root: Node,
+  current: Node | undefined,
+  step: 1 | -1
+): Node | undefined {
+  const order = getFocusOrder(root);
+  const index = current ? order.indexOf(current) : -1;
+  if (index < 0) {
+    return step > 0 ? order[0] : order[order.length - 1];
+  }
+  return order[(index + step + order.length) % order.length];
+}
+
+// Node an arrow key moves focus to, within the innermost stack along the key's axis that has a
+// focusable node past the current one: vertical stacks for up and down, horizontal ones for left
+// and right. Of the nearest item holding focusable nodes, the one closest to the current node is
+// taken, e.g. the last node of the item above when moving up
+export function findDirectionalFocus(
+  root: Node,
+  current: Node,
+  direction: FocusDirection
+): Node | undefined {
+  const path = findNodePath(root, current) ?? [];
+  const vertical = direction === 'up' || direction === 'down';
+  const step = direction === 'up' || direction === 'left' ? -1 : 1;
+
+  for (let level = 1; level < path.length; level++) {
+    const stack = path[level];
+    const alongAxis = vertical ? isVerticalLayoutNode(stack) : isHorizontalLayoutNode(stack);
+    if (!alongAxis) {
+      continue;
+    }
+    const items = getChildNodes(stack);
+    for (let index = items.indexOf(path[level - 1]) + step; items[index]; index += step) {
+      const candidates = getFocusOrder(items[index]);
+      if (candidates.length > 0) {
+        return step > 0 ? candidates[0] : candidates[candidates.length - 1];
+      }
+    }
+  }
+  return undefined;
+}
+
+// The target followed by its ancestors up to the root, or undefined when it is not in the tree
+export function findNodePath(root: Node, target: Node): Node[] | undefined {
+  if (root === target) {
+    return [root];
+  }
+  for (const child of getChildNodes(root)) {
+    const path = findNodePath(child, target);
+    if (path) {
+      return [...path, root];
+    }
+  }
+  return undefined;
+}
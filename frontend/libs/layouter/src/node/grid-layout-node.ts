@@ -0,0 +1,37 @@
+import type { GridAlignment, GridLayoutNodeStyle } from '../style';
+import type { Node } from './node';
+
+// An item of a grid together with its placement
+// Cells without row/column are auto-placed in row-major order
+export interface GridCell {
+  item: Node;
+  row?: number;
+  column?: number;
+  rowSpan?: number;
+  columnSpan?: number;
+  // Overrides the grid-wide alignment for this cell
+  horizontalAlignment?: GridAlignment;
+  verticalAlignment?: GridAlignment;
+}
+
+export interface GridLayoutNode {
+  kind: 'grid';
+  // Stable identity used to match the node across updates; falls back to tag when omitted
+  id?: string;
+  tag?: string;
+  // Can take keyboard focus, reachable with Tab and the arrow keys
+  focusable?: boolean;
+  cells: GridCell[];
+  style?: GridLayoutNodeStyle;
+}
+
+export function isGridLayoutNode(node: Node): node is GridLayoutNode {
+  return node.kind === 'grid';
+}
+
+export function updateGridLayoutNodeStyle(
+  node: GridLayoutNode,
+  style: Partial<GridLayoutNodeStyle>
+): void {
+  node.style = { ...node.style, ...style };
+}
@@ -3,7 +3,11 @@ import type { Node } from './node';
 
 export interface HorizontalLayoutNode {
   kind: 'horizontal';
+  // Stable identity used to match the node across updates; falls back to tag when omitted
+  id?: string;
   tag?: string;
+  // Can take keyboard focus, reachable with Tab and the arrow keys
+  focusable?: boolean;
   items: Node[];
   style?: HorizontalLayoutNodeStyle;
 }
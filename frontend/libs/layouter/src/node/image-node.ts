@@ -0,0 +1,24 @@
+import type { ImageNodeStyle } from '../style';
+import type { Node } from './node';
+
+export interface ImageNode {
+  kind: 'image';
+  // Stable identity used to match the node across updates; falls back to tag when omitted
+  id?: string;
+  tag?: string;
+  // Can take keyboard focus, reachable with Tab and the arrow keys
+  focusable?: boolean;
+  // URL or data URI of a bitmap or SVG image
+  source: string;
+  // Natural size of the image in layout units; layout can not wait for the image to load
+  intrinsicSize?: { width: number; height: number };
+  style?: ImageNodeStyle;
+}
+
+export function isImageNode(node: Node): node is ImageNode {
+  return node.kind === 'image';
+}
+
+export function updateImageNodeStyle(node: ImageNode, style: Partial<ImageNodeStyle>): void {
+  node.style = { ...node.style, ...style };
+}
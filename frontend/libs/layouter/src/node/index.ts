@@ -3,17 +3,42 @@
  */
 
 // Re-export all specific node types and utilities
+export type { ConnectorNode } from './connector-node';
+export { isConnectorNode, updateConnectorNodeStyle } from './connector-node';
 export type { ContainerNode } from './container-node';
 export { isContainerNode, updateContainerNodeStyle } from './container-node';
+export type { FocusDirection } from './focus-navigation';
+export {
+  findDirectionalFocus,
+  findNodePath,
+  findTabFocus,
+  getFocusOrder,
+  isFocusable,
+} from './focus-navigation';
+export type { GridCell, GridLayoutNode } from './grid-layout-node';
+export { isGridLayoutNode, updateGridLayoutNodeStyle } from './grid-layout-node';
 export type { HorizontalLayoutNode } from './horizontal-layout-node.js';
 export {
   isHorizontalLayoutNode,
   updateHorizontalLayoutNodeStyle,
 } from './horizontal-layout-node.js';
+export type { ImageNode } from './image-node';
+export { isImageNode, updateImageNodeStyle } from './image-node';
 export type { Node } from './node';
-export { traverseNode } from './node';
-export type { TextNode } from './text-node';
-export { isTextNode, updateTextNodeStyle } from './text-node';
+export { getChildNodes, mapChildNodes, traverseNode } from './node';
+export type { OverlayLayer, OverlayNode } from './overlay-node';
+export { isOverlayNode, updateOverlayNodeStyle } from './overlay-node';
+export type { ScrollNode } from './scroll-node';
+export { isScrollNode, updateScrollNodeStyle } from './scroll-node';
+export type { TextNode, TextSpan } from './text-node';
+export {
+  getTextNodeText,
+  getTextSpanStyle,
+  getTextSpans,
+  isTextNode,
+  spliceTextNode,
+  updateTextNodeStyle,
+} from './text-node';
 export type { VerticalLayoutNode } from './vertical-layout-node.js';
 export {
   isVerticalLayoutNode,
@@ -1,19 +1,71 @@
+import type { ConnectorNode } from './connector-node';
 import type { ContainerNode } from './container-node';
 import { isContainerNode } from './container-node';
+import type { GridLayoutNode } from './grid-layout-node';
+import { isGridLayoutNode } from './grid-layout-node';
 import type { HorizontalLayoutNode } from './horizontal-layout-node';
 import { isHorizontalLayoutNode } from './horizontal-layout-node';
+import type { ImageNode } from './image-node';
+import type { OverlayNode } from './overlay-node';
+import { isOverlayNode } from './overlay-node';
+import type { ScrollNode } from './scroll-node';
+import { isScrollNode } from './scroll-node';
 import type { TextNode } from './text-node';
 import type { VerticalLayoutNode } from './vertical-layout-node';
 import { isVerticalLayoutNode } from './vertical-layout-node';
 
-export type Node = VerticalLayoutNode | HorizontalLayoutNode | ContainerNode | TextNode;
+export type Node =
+  | VerticalLayoutNode
+  | HorizontalLayoutNode
+  | GridLayoutNode
+  | ContainerNode
+  | TextNode
+  | ImageNode
+  | ConnectorNode
+  | OverlayNode
+  | ScrollNode;
 
 export function traverseNode(node: Node, callback: (node: Node) => void): void {
   callback(node);
+  for (const child of getChildNodes(node)) {
+    traverseNode(child, callback);
+  }
+}
+
+// Direct children of a node, in tree order
+export function getChildNodes(node: Node): Node[] {
+  if (isVerticalLayoutNode(node) || isHorizontalLayoutNode(node)) {
+    return node.items;
+  }
+  if (isGridLayoutNode(node)) {
+    return node.cells.map((cell) => cell.item);
+  }
+  if (isContainerNode(node) || isScrollNode(node)) {
+    return [node.item];
+  }
+  if (isOverlayNode(node)) {
+    return node.layers.map((layer) => layer.item);
+  }
+  return [];
+}
 
+// Copy of a node whose direct children are replaced by the results of `callback`
+// Nodes without children are returned as they are
+export function mapChildNodes(node: Node, callback: (child: Node) => Node): Node {
   if (isVerticalLayoutNode(node) || isHorizontalLayoutNode(node)) {
-    node.items.forEach((child) => traverseNode(child, callback));
-  } else if (isContainerNode(node)) {
-    traverseNode(node.item, callback);
+    return { ...node, items: node.items.map(callback) };
+  }
+  if (isGridLayoutNode(node)) {
+    return { ...node, cells: node.cells.map((cell) => ({ ...cell, item: callback(cell.item) })) };
+  }
+  if (isContainerNode(node) || isScrollNode(node)) {
+    return { ...node, item: callback(node.item) };
+  }
+  if (isOverlayNode(node)) {
+    return {
+      ...node,
+      layers: node.layers.map((layer) => ({ ...layer, item: callback(layer.item) })),
+    };
   }
+  return node;
 }
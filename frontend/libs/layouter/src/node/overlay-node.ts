@@ -0,0 +1,32 @@
+import type { OverlayAnchor, OverlayNodeStyle } from '../style';
+import type { Node } from './node';
+
+// An item of an overlay together with its placement
+export interface OverlayLayer {
+  item: Node;
+  // Overrides the overlay-wide anchor for this layer
+  anchor?: OverlayAnchor;
+  // Shift from the anchored position; positive values move the layer right and down
+  offsetX?: number;
+  offsetY?: number;
+}
+
+// Layers share the content box and are stacked in order, the last one in front
+export interface OverlayNode {
+  kind: 'overlay';
+  // Stable identity used to match the node across updates; falls back to tag when omitted
+  id?: string;
+  tag?: string;
+  // Can take keyboard focus, reachable with Tab and the arrow keys
+  focusable?: boolean;
+  layers: OverlayLayer[];
+  style?: OverlayNodeStyle;
+}
+
+export function isOverlayNode(node: Node): node is OverlayNode {
+  return node.kind === 'overlay';
+}
+
+export function updateOverlayNodeStyle(node: OverlayNode, style: Partial<OverlayNodeStyle>): void {
+  node.style = { ...node.style, ...style };
+}
@@ -0,0 +1,27 @@
+import type { ScrollNodeStyle } from '../style';
+import type { Node } from './node';
+
+// Fixed viewport onto a single item that may be larger than it
+// The viewport size comes from the sizing style; without one the node grows with its item
+export interface ScrollNode {
+  kind: 'scroll';
+  // Stable identity used to match the node across updates; falls back to tag when omitted
+  id?: string;
+  tag?: string;
+  // Can take keyboard focus, reachable with Tab and the arrow keys
+  focusable?: boolean;
+  item: Node;
+  // Distance the item is scrolled by from its top-left corner, clamped to the scrollable range
+  // Only used when overflow is scroll
+  scrollX?: number;
+  scrollY?: number;
+  style?: ScrollNodeStyle;
+}
+
+export function isScrollNode(node: Node): node is ScrollNode {
+  return node.kind === 'scroll';
+}
+
+export function updateScrollNodeStyle(node: ScrollNode, style: Partial<ScrollNodeStyle>): void {
+  node.style = { ...node.style, ...style };
+}
@@ -1,10 +1,23 @@
-import type { TextNodeStyle } from '../style';
+import type { TextNodeStyle, TextSpanStyle } from '../style';
 import type { Node } from './node';
 
+// Run of text with its own style inside a rich TextNode
+export interface TextSpan {
+  text: string;
+  style?: TextSpanStyle;
+}
+
 export interface TextNode {
   kind: 'text';
+  // Stable identity used to match the node across updates; falls back to tag when omitted
+  id?: string;
   tag?: string;
-  item: string;
+  // Can take keyboard focus, reachable with Tab and the arrow keys
+  focusable?: boolean;
+  // Plain string, or spans that are laid out one after another on shared baselines
+  item: string | TextSpan[];
+  // Lets the text be edited in place, e.g. with a TextEditor of the renderer
+  editable?: boolean;
   style?: TextNodeStyle;
 }
 
@@ -15,3 +28,53 @@ export function isTextNode(node: Node): node is TextNode {
 export function updateTextNodeStyle(node: TextNode, style: Partial<TextNodeStyle>): void {
   node.style = { ...node.style, ...style };
 }
+
+// Spans of a TextNode; a plain string is a single unstyled span
+export function getTextSpans(node: TextNode): TextSpan[] {
+  return typeof node.item === 'string' ? [{ text: node.item }] : node.item;
+}
+
+// Effective style of a span: the node's style overridden by the span's own style
+export function getTextSpanStyle(node: TextNode, span: TextSpan): TextNodeStyle {
+  return { ...node.style, ...span.style };
+}
+
+// Text of all spans joined, which caret and selection indices refer to
+export function getTextNodeText(node: TextNode): string {
+  return getTextSpans(node)
+    .map((span) => span.text)
+    .join('');
+}
+
+// Replace the text between two indices of the joined text, keeping the spans around it
+// Inserted text takes the style of the span it lands in; at a boundary, the span that ends there
+export function spliceTextNode(node: TextNode, start: number, end: number, text: string): void {
+  if (typeof node.item === 'string') {
+    node.item = node.item.slice(0, start) + text + node.item.slice(end);
+    return;
+  }
+
+  let spanStart = 0;
+  let inserted = false;
+  const spans = node.item.map((span) => {
+    const from = clamp(start - spanStart, span.text.length);
+    const to = clamp(end - spanStart, span.text.length);
+    const insertsHere = !inserted && start <= spanStart + span.text.length;
+    if (insertsHere) {
+      inserted = true;
+    }
+    spanStart += span.text.length;
+    return {
+      ...span,
+      text: span.text.slice(0, from) + (insertsHere ? text : '') + span.text.slice(to),
+    };
+  });
+  if (!inserted) {
+    spans.push({ text });
+  }
+  node.item = spans.filter((span) => span.text.length > 0);
+}
+
+function clamp(value: number, max: number): number {
+  return Math.min(Math.max(value, 0), max);
+}
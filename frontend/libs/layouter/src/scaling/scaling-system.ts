@@ -32,6 +32,15 @@ export class ScalingSystem {
 
   // Get current viewport information
   getViewportInfo(): ViewportInfo {
+    // Outside the browser (e.g. headless layout in Node.js), fall back to the reference viewport
+    if (typeof window === 'undefined') {
+      return {
+        width: this.config.referenceViewportWidth,
+        height: this.config.referenceViewportHeight,
+        devicePixelRatio: 1,
+        aspectRatio: this.config.referenceViewportWidth / this.config.referenceViewportHeight,
+      };
+    }
     return {
       width: window.innerWidth,
       height: window.innerHeight,
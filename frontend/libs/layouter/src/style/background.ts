@@ -0,0 +1,28 @@
+// Color at a position along a gradient, `offset` ranging from 0 to 1
+export interface GradientStop {
+  color: string;
+  offset: number;
+}
+
+// Gradient along a line through the box center, like CSS `linear-gradient`
+// `angle` is in degrees: 0 runs from bottom to top, 90 from left to right, 180 (the default) from
+// top to bottom
+export interface LinearGradient {
+  type: 'linear';
+  angle?: number;
+  stops: GradientStop[];
+}
+
+// Circular gradient, like CSS `radial-gradient(circle ...)`
+// `center` is relative to the box (0..1, y down); `radius` defaults to the farthest corner
+export interface RadialGradient {
+  type: 'radial';
+  center?: { x: number; y: number };
+  radius?: number;
+  stops: GradientStop[];
+}
+
+export type Gradient = LinearGradient | RadialGradient;
+
+// Number of stops a gradient may have; further stops are ignored when rendering
+export const MAX_GRADIENT_STOPS = 8;
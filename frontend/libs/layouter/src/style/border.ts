@@ -1,8 +1,39 @@
 import { px } from '../scaling';
 
-export interface Border {
+// Line pattern of a border side
+export type BorderStyle = 'solid' | 'dashed';
+
+export interface BorderSide {
   color?: string;
   width?: number;
+  style?: BorderStyle;
+}
+
+// Border drawn around the padding box of a node
+// The shorthand values apply to every side; top/right/bottom/left override them per side
+export interface Border extends BorderSide {
+  top?: BorderSide;
+  right?: BorderSide;
+  bottom?: BorderSide;
+  left?: BorderSide;
 }
 
 export const DEFAULT_BORDER_WIDTH = px(1); // 1px border
+
+// Values used for sides that a node's border leaves unset
+export const DEFAULT_BORDER: Required<BorderSide> = {
+  color: 'blue',
+  width: DEFAULT_BORDER_WIDTH,
+  style: 'solid',
+} as const;
+
+// Radius of each corner of the border box
+export interface CornerRadii {
+  topLeft?: number;
+  topRight?: number;
+  bottomRight?: number;
+  bottomLeft?: number;
+}
+
+// Uniform radius for every corner, or per-corner radii
+export type BorderRadius = number | CornerRadii;
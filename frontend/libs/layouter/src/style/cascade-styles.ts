@@ -0,0 +1,147 @@
+import {
+  isConnectorNode,
+  isContainerNode,
+  isGridLayoutNode,
+  isHorizontalLayoutNode,
+  isImageNode,
+  isOverlayNode,
+  isScrollNode,
+  isTextNode,
+  isVerticalLayoutNode,
+  type Node,
+} from '../node';
+import type { ContainerNodeStyle } from './container-node-style';
+import type { LayoutNodeStyle } from './layout-node-style';
+import { definedProperties } from './style-utilities';
+import type { InheritedTextStyle } from './text-node-style';
+import type { Theme } from './theme';
+
+// Copy of a node tree with inherited text properties passed down to its text nodes, and with
+// the properties its styles leave unset taken from the theme
+// Without a theme, properties nobody sets keep falling back to the DEFAULT_* styles
+export function cascadeStyles(node: Node, theme?: Theme): Node {
+  const inherited: InheritedTextStyle = theme
+    ? {
+        color: theme.colors.text,
+        fontSize: theme.typography.body,
+        fontFamily: theme.typography.fontFamily,
+      }
+    : {};
+  return cascadeNode(node, inherited, theme);
+}
+
+function cascadeNode(node: Node, inherited: InheritedTextStyle, theme?: Theme): Node {
+  if (isTextNode(node)) {
+    return {
+      ...node,
+      style: {
+        ...inherited,
+        ...(theme && { backgroundColor: theme.colors.surface }),
+        ...definedProperties(node.style),
+      },
+    };
+  }
+  if (isConnectorNode(node)) {
+    return theme
+      ? { ...node, style: withDefaults({ color: theme.colors.accent }, node.style) }
+      : node;
+  }
+
+  // Everything but text and connectors has a box, and passes inherited properties on
+  const passed = { ...inherited, ...definedProperties(pickInherited(node.style)) };
+  const cascade = (item: Node) => cascadeNode(item, passed, theme);
+  if (isVerticalLayoutNode(node)) {
+    return {
+      ...node,
+      style: themeBox(theme && flowDefaults(theme), node.style, theme),
+      items: node.items.map(cascade),
+    };
+  }
+  if (isHorizontalLayoutNode(node)) {
+    return {
+      ...node,
+      style: themeBox(theme && flowDefaults(theme), node.style, theme),
+      items: node.items.map(cascade),
+    };
+  }
+  if (isGridLayoutNode(node)) {
+    const defaults = theme && {
+      ...layoutDefaults(theme),
+      columnGap: theme.spacing.small,
+      rowGap: theme.spacing.small,
+    };
+    return {
+      ...node,
+      style: themeBox(defaults, node.style, theme),
+      cells: node.cells.map((cell) => ({ ...cell, item: cascade(cell.item) })),
+    };
+  }
+  if (isOverlayNode(node)) {
+    return {
+      ...node,
+      style: themeBox(theme && layoutDefaults(theme), node.style, theme),
+      layers: node.layers.map((layer) => ({ ...layer, item: cascade(layer.item) })),
+    };
+  }
+  if (isScrollNode(node)) {
+    return {
+      ...node,
+      style: themeBox(theme && layoutDefaults(theme), node.style, theme),
+      item: cascade(node.item),
+    };
+  }
+  if (isContainerNode(node)) {
+    return {
+      ...node,
+      style: themeBox(theme && surfaceDefaults(theme), node.style, theme),
+      item: cascade(node.item),
+    };
+  }
+  if (isImageNode(node)) {
+    const defaults = theme && { ...surfaceDefaults(theme), placeholderColor: theme.colors.muted };
+    return { ...node, style: themeBox(defaults, node.style, theme) };
+  }
+  return node;
+}
+
+function layoutDefaults(theme: Theme): ContainerNodeStyle {
+  return { backgroundColor: theme.colors.background, padding: uniformPadding(theme) };
+}
+
+function flowDefaults(theme: Theme): LayoutNodeStyle {
+  return { ...layoutDefaults(theme), spacing: theme.spacing.small };
+}
+
+function surfaceDefaults(theme: Theme): ContainerNodeStyle {
+  return { backgroundColor: theme.colors.surface, padding: uniformPadding(theme) };
+}
+
+function uniformPadding(theme: Theme): ContainerNodeStyle['padding'] {
+  const { small } = theme.spacing;
+  return { top: small, right: small, bottom: small, left: small };
+}
+
+// Style of a boxed node with theme defaults applied, borders included
+function themeBox<T extends ContainerNodeStyle>(
+  defaults: Partial<T> | undefined,
+  style: T | undefined,
+  theme?: Theme
+): T | undefined {
+  if (!theme) {
+    return style;
+  }
+  const themed = withDefaults(defaults ?? {}, style);
+  // Sides that set neither their own color nor the shorthand one use the theme's border color
+  if (themed.border && themed.border.color === undefined) {
+    themed.border = { ...themed.border, color: theme.colors.border };
+  }
+  return themed;
+}
+
+function withDefaults<T extends object>(defaults: Partial<T>, style: T | undefined): T {
+  return { ...defaults, ...definedProperties(style) } as T;
+}
+
+function pickInherited(style: InheritedTextStyle | undefined): InheritedTextStyle {
+  return { color: style?.color, fontSize: style?.fontSize, fontFamily: style?.fontFamily };
+}
@@ -0,0 +1,32 @@
+import { px } from '../scaling';
+import { DEFAULT_SIZING_STYLE, type SizingStyle } from './sizing';
+
+// Shape of the line between the two connected boxes
+// - straight:   direct line between the box edges, aimed at the box centers
+// - orthogonal: horizontal and vertical segments, leaving and entering at side midpoints
+// - curved:     smooth curve between the same side midpoints as orthogonal
+export type ConnectorRouting = 'straight' | 'orthogonal' | 'curved';
+
+// Ends of the line that get an arrowhead
+export type ConnectorArrowheads = 'none' | 'start' | 'end' | 'both';
+
+// Connectors take no space in the layout, so sizing properties have no effect on them
+export interface ConnectorNodeStyle extends SizingStyle {
+  routing?: ConnectorRouting;
+  color?: string;
+  lineWidth?: number;
+  opacity?: number;
+  arrowheads?: ConnectorArrowheads;
+  // Length of an arrowhead; its base is as wide as it is long
+  arrowSize?: number;
+}
+
+export const DEFAULT_CONNECTOR_NODE_STYLE: Required<ConnectorNodeStyle> = {
+  ...DEFAULT_SIZING_STYLE,
+  routing: 'straight',
+  color: 'black',
+  lineWidth: px(2),
+  opacity: 1.0,
+  arrowheads: 'end',
+  arrowSize: px(8),
+} as const;
@@ -1,21 +1,39 @@
-import type { Border } from './border';
-import { DEFAULT_BORDER_WIDTH } from './border';
+import type { Gradient } from './background';
+import type { Border, BorderRadius } from './border';
+import { DEFAULT_BORDER } from './border';
 import { DEFAULT_PADDING, type Padding } from './padding';
+import type { BoxShadow } from './shadow';
+import { DEFAULT_SIZING_STYLE, type SizingStyle } from './sizing';
+import { DEFAULT_TEXT_NODE_STYLE, type InheritedTextStyle } from './text-node-style';
 
-export interface ContainerNodeStyle {
+// color, fontSize and fontFamily are not used by the node itself but inherited by its text nodes
+export interface ContainerNodeStyle extends SizingStyle, InheritedTextStyle {
   backgroundColor?: string;
+  // Nodes have no border unless one is set; sides it leaves unset use DEFAULT_BORDER
   border?: Border;
   opacity?: number;
   wireframe?: boolean;
   wireframeColor?: string;
   padding?: Padding;
+  // Rounds the corners of the background and border
+  borderRadius?: BorderRadius;
+  // Painted instead of backgroundColor when set
+  backgroundGradient?: Gradient | 'none';
+  shadow?: BoxShadow | 'none';
 }
 
 export const DEFAULT_CONTAINER_NODE_STYLE: Required<ContainerNodeStyle> = {
+  ...DEFAULT_SIZING_STYLE,
   backgroundColor: 'green',
-  border: { color: 'blue', width: DEFAULT_BORDER_WIDTH },
+  border: DEFAULT_BORDER,
   opacity: 0.6,
   wireframe: false,
   wireframeColor: 'green',
   padding: DEFAULT_PADDING,
+  borderRadius: 0,
+  backgroundGradient: 'none',
+  shadow: 'none',
+  color: DEFAULT_TEXT_NODE_STYLE.color,
+  fontSize: DEFAULT_TEXT_NODE_STYLE.fontSize,
+  fontFamily: DEFAULT_TEXT_NODE_STYLE.fontFamily,
 } as const;
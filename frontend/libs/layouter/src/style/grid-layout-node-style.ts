@@ -0,0 +1,40 @@
+import { px } from '../scaling';
+import type { Border } from './border';
+import { type ContainerNodeStyle, DEFAULT_CONTAINER_NODE_STYLE } from './container-node-style';
+
+// Fractional share of the free space in a grid, like CSS `fr`
+export interface GridFraction {
+  fr: number;
+}
+
+// Track size: fixed length, sized to content ('auto'), or a share of remaining space
+export type GridTrack = number | 'auto' | GridFraction;
+
+// Placement of an item within its cell area
+export type GridAlignment = 'start' | 'center' | 'end' | 'stretch';
+
+export interface GridLayoutNodeStyle extends ContainerNodeStyle {
+  backgroundColor?: string;
+  border?: Border;
+  opacity?: number;
+  wireframe?: boolean;
+  wireframeColor?: string;
+  // Explicit track definitions; tracks needed beyond these are sized 'auto'
+  columns?: GridTrack[];
+  rows?: GridTrack[];
+  columnGap?: number;
+  rowGap?: number;
+  // Default alignment of items inside their cells
+  horizontalAlignment?: GridAlignment;
+  verticalAlignment?: GridAlignment;
+}
+
+export const DEFAULT_GRID_LAYOUT_NODE_STYLE: Required<GridLayoutNodeStyle> = {
+  ...DEFAULT_CONTAINER_NODE_STYLE,
+  columns: [],
+  rows: [],
+  columnGap: px(2),
+  rowGap: px(2),
+  horizontalAlignment: 'start',
+  verticalAlignment: 'center',
+} as const;
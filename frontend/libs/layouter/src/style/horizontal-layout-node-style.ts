@@ -1,7 +1,10 @@
 import type { Border } from './border';
 import { DEFAULT_LAYOUT_NODE_STYLE, type LayoutNodeStyle } from './layout-node-style';
 
-export type HorizontalAlignment = 'center' | 'top';
+// Cross-axis (vertical) placement of items in a horizontal layout
+// 'stretch' fills the row height for items without an explicit height;
+// 'baseline' lines up the first text baseline of every item
+export type HorizontalAlignment = 'top' | 'center' | 'bottom' | 'stretch' | 'baseline';
 
 export interface HorizontalLayoutNodeStyle extends LayoutNodeStyle {
   backgroundColor?: string;
@@ -0,0 +1,22 @@
+import { type ContainerNodeStyle, DEFAULT_CONTAINER_NODE_STYLE } from './container-node-style';
+
+// How an image is scaled into the content box, following CSS `object-fit`
+// - contain: whole image visible, aspect ratio kept, letterboxed
+// - cover:   box filled, aspect ratio kept, overflow cropped
+// - fill:    stretched to the box
+export type ImageFit = 'contain' | 'cover' | 'fill';
+
+export interface ImageNodeStyle extends ContainerNodeStyle {
+  fit?: ImageFit;
+  // Shown in place of the image while it loads, and when it fails to load
+  placeholderColor?: string;
+}
+
+export const DEFAULT_IMAGE_NODE_STYLE: Required<ImageNodeStyle> = {
+  ...DEFAULT_CONTAINER_NODE_STYLE,
+  // The image itself is drawn with the node's opacity
+  opacity: 1.0,
+  backgroundColor: 'white',
+  fit: 'contain',
+  placeholderColor: 'lightgray',
+} as const;
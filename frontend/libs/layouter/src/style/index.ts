@@ -1,16 +1,71 @@
-export type { Border } from './border';
+export type {
+  Gradient,
+  GradientStop,
+  LinearGradient,
+  RadialGradient,
+} from './background';
+export { MAX_GRADIENT_STOPS } from './background';
+export type {
+  Border,
+  BorderRadius,
+  BorderSide,
+  BorderStyle,
+  CornerRadii,
+} from './border';
+export { DEFAULT_BORDER, DEFAULT_BORDER_WIDTH } from './border';
+export { cascadeStyles } from './cascade-styles';
+export type {
+  ConnectorArrowheads,
+  ConnectorNodeStyle,
+  ConnectorRouting,
+} from './connector-node-style';
+export { DEFAULT_CONNECTOR_NODE_STYLE } from './connector-node-style';
 export type { ContainerNodeStyle } from './container-node-style';
 export { DEFAULT_CONTAINER_NODE_STYLE } from './container-node-style';
+export type {
+  GridAlignment,
+  GridFraction,
+  GridLayoutNodeStyle,
+  GridTrack,
+} from './grid-layout-node-style';
+export { DEFAULT_GRID_LAYOUT_NODE_STYLE } from './grid-layout-node-style';
 export type {
   HorizontalAlignment,
   HorizontalLayoutNodeStyle,
 } from './horizontal-layout-node-style';
 export { DEFAULT_HORIZONTAL_LAYOUT_NODE_STYLE } from './horizontal-layout-node-style';
-export type { LayoutNodeStyle } from './layout-node-style';
+export type { ImageFit, ImageNodeStyle } from './image-node-style';
+export { DEFAULT_IMAGE_NODE_STYLE } from './image-node-style';
+export type { Justification, LayoutNodeStyle } from './layout-node-style';
 export { DEFAULT_LAYOUT_NODE_STYLE } from './layout-node-style';
+export type { OverlayAnchor, OverlayNodeStyle } from './overlay-node-style';
+export { DEFAULT_OVERLAY_NODE_STYLE } from './overlay-node-style';
 export type { Padding } from './padding';
 export { DEFAULT_PADDING } from './padding';
-export type { TextNodeStyle } from './text-node-style';
+export type { Overflow, ScrollNodeStyle } from './scroll-node-style';
+export { DEFAULT_SCROLL_NODE_STYLE } from './scroll-node-style';
+export type { BoxShadow } from './shadow';
+export { DEFAULT_BOX_SHADOW } from './shadow';
+export type { Length, SizingStyle } from './sizing';
+export { DEFAULT_SIZING_STYLE } from './sizing';
+export type { NodeStyle, StyleRule, StyleSheet } from './style-sheet';
+export { applyStyleSheet, createStyleSheet } from './style-sheet';
+export type { StyleSheetError } from './style-sheet-error';
+export { createStyleSheetError, isStyleSheetError } from './style-sheet-error';
+export type {
+  FontWeight,
+  InheritedTextStyle,
+  TextAlign,
+  TextNodeStyle,
+  TextSpanStyle,
+  WhiteSpace,
+  WordBreak,
+} from './text-node-style';
 export { DEFAULT_TEXT_NODE_STYLE } from './text-node-style';
-export type { VerticalLayoutNodeStyle } from './vertical-layout-node-style';
+export type { SpacingScale, Theme, ThemeColors, TypographyScale } from './theme';
+export { DARK_THEME, LIGHT_THEME } from './theme';
+export type {
+  VerticalAlignment,
+  VerticalLayoutNodeStyle,
+} from './vertical-layout-node-style';
 export { DEFAULT_VERTICAL_LAYOUT_NODE_STYLE } from './vertical-layout-node-style';
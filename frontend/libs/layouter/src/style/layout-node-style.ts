@@ -1,11 +1,22 @@
 import { px } from '../scaling';
 import { type ContainerNodeStyle, DEFAULT_CONTAINER_NODE_STYLE } from './container-node-style';
 
+// Distribution of free space along the main axis of a horizontal/vertical layout
+export type Justification =
+  | 'start'
+  | 'center'
+  | 'end'
+  | 'space-between'
+  | 'space-around'
+  | 'space-evenly';
+
 export interface LayoutNodeStyle extends ContainerNodeStyle {
   spacing?: number;
+  justification?: Justification;
 }
 
 export const DEFAULT_LAYOUT_NODE_STYLE: Required<LayoutNodeStyle> = {
   ...DEFAULT_CONTAINER_NODE_STYLE,
   spacing: px(2),
+  justification: 'start',
 } as const;
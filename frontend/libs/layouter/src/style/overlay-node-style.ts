@@ -0,0 +1,23 @@
+import { type ContainerNodeStyle, DEFAULT_CONTAINER_NODE_STYLE } from './container-node-style';
+
+// Point of the content box a layer is attached to; the same point of the layer is placed there
+export type OverlayAnchor =
+  | 'top-left'
+  | 'top'
+  | 'top-right'
+  | 'left'
+  | 'center'
+  | 'right'
+  | 'bottom-left'
+  | 'bottom'
+  | 'bottom-right';
+
+export interface OverlayNodeStyle extends ContainerNodeStyle {
+  // Default anchor of layers that do not set their own
+  anchor?: OverlayAnchor;
+}
+
+export const DEFAULT_OVERLAY_NODE_STYLE: Required<OverlayNodeStyle> = {
+  ...DEFAULT_CONTAINER_NODE_STYLE,
+  anchor: 'top-left',
+} as const;
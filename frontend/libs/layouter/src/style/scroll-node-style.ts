@@ -0,0 +1,14 @@
+import { type ContainerNodeStyle, DEFAULT_CONTAINER_NODE_STYLE } from './container-node-style';
+
+// What happens to the parts of the item that do not fit in the viewport
+// hidden clips them; scroll clips them too and lets the scroll offsets move the item
+export type Overflow = 'visible' | 'hidden' | 'scroll';
+
+export interface ScrollNodeStyle extends ContainerNodeStyle {
+  overflow?: Overflow;
+}
+
+export const DEFAULT_SCROLL_NODE_STYLE: Required<ScrollNodeStyle> = {
+  ...DEFAULT_CONTAINER_NODE_STYLE,
+  overflow: 'scroll',
+} as const;
@@ -0,0 +1,23 @@
+import { px } from '../scaling';
+
+// Drop shadow cast by the border box, like CSS `box-shadow`
+export interface BoxShadow {
+  // Offset of the shadow; positive values move it right and down
+  offsetX?: number;
+  offsetY?: number;
+  // Length over which the shadow fades out
+  blur?: number;
+  // Growth of the shadow shape beyond the border box
+  spread?: number;
+  color?: string;
+  opacity?: number;
+}
+
+export const DEFAULT_BOX_SHADOW: Required<BoxShadow> = {
+  offsetX: px(2),
+  offsetY: px(2),
+  blur: px(8),
+  spread: 0,
+  color: 'black',
+  opacity: 0.4,
+} as const;
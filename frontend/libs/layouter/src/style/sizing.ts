@@ -0,0 +1,29 @@
+// Length in layout units, or a percentage of the parent's content box (e.g. '50%')
+export type Length = number | `${number}%`;
+
+export interface SizingStyle {
+  // Preferred size; 'auto' sizes the node to its content
+  width?: Length | 'auto';
+  height?: Length | 'auto';
+  minWidth?: Length;
+  minHeight?: Length;
+  // 'none' leaves the size unbounded
+  maxWidth?: Length | 'none';
+  maxHeight?: Length | 'none';
+  // Share of the free space this node takes along the main axis of a horizontal/vertical layout
+  flexGrow?: number;
+  // Share of the overflow this node gives up along the main axis of a horizontal/vertical layout
+  flexShrink?: number;
+}
+
+// Nodes keep their content size unless a size or flex factor is requested
+export const DEFAULT_SIZING_STYLE: Required<SizingStyle> = {
+  width: 'auto',
+  height: 'auto',
+  minWidth: 0,
+  minHeight: 0,
+  maxWidth: 'none',
+  maxHeight: 'none',
+  flexGrow: 0,
+  flexShrink: 0,
+} as const;
@@ -0,0 +1,23 @@
+// Selector of a style rule that could not be parsed
+export interface StyleSheetError {
+  kind: 'StyleSheetError';
+  message: string;
+  selector: string;
+}
+
+export function createStyleSheetError(selector: string, reason: string): StyleSheetError {
+  return {
+    kind: 'StyleSheetError',
+    message: `Invalid selector '${selector}': ${reason}`,
+    selector,
+  };
+}
+
+export function isStyleSheetError(value: unknown): value is StyleSheetError {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    'kind' in value &&
+    value.kind === 'StyleSheetError'
+  );
+}
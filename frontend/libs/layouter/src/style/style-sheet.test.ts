@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import type { Node, TextNode, VerticalLayoutNode } from '../node';
+import { cascadeStyles } from './cascade-styles';
+import { applyStyleSheet, createStyleSheet, type StyleRule, type StyleSheet } from './style-sheet';
+import { isStyleSheetError } from './style-sheet-error';
+
+const sheet = (rules: StyleRule[]): StyleSheet => {
+  const result = createStyleSheet(rules);
+  if (isStyleSheetError(result)) {
+    throw new Error(result.message);
+  }
+  return result;
+};
+
+const tree = (): VerticalLayoutNode => ({
+  kind: 'vertical',
+  tag: 'page',
+  items: [
+    { kind: 'text', tag: 'title', item: 'Title' },
+    {
+      kind: 'horizontal',
+      items: [{ kind: 'text', item: 'Nested' }],
+    },
+  ],
+});
+
+// Styles of the title, the nested text and the horizontal layout after applying the rules
+const styles = (rules: StyleRule[], node: Node = tree()) => {
+  const styled = applyStyleSheet(node, sheet(rules)) as VerticalLayoutNode;
+  const [title, row] = styled.items;
+  return {
+    title: title.style,
+    nested: (row as VerticalLayoutNode).items[0].style,
+    row: row.style,
+  };
+};
+
+describe('applyStyleSheet', () => {
+  it('matches nodes by kind, tag and any', () => {
+    const { title, nested, row } = styles([
+      { selector: 'text', style: { color: 'red' } },
+      { selector: '#title', style: { fontSize: 30 } },
+      { selector: '*', style: { opacity: 0.5 } },
+    ]);
+
+    expect(title).toEqual({ color: 'red', fontSize: 30, opacity: 0.5 });
+    expect(nested).toEqual({ color: 'red', opacity: 0.5 });
+    expect(row).toEqual({ opacity: 0.5 });
+  });
+
+  it('tells descendant and child combinators apart', () => {
+    const { title, nested } = styles([
+      { selector: 'vertical text', style: { color: 'red' } },
+      { selector: 'vertical > text', style: { fontSize: 30 } },
+    ]);
+
+    expect(title).toEqual({ color: 'red', fontSize: 30 });
+    expect(nested).toEqual({ color: 'red' });
+  });
+
+  it('lets more specific rules win regardless of their order', () => {
+    const { title } = styles([
+      { selector: 'text#title', style: { color: 'blue' } },
+      { selector: '#title', style: { color: 'green' } },
+      { selector: 'text', style: { color: 'red' } },
+    ]);
+
+    expect(title).toEqual({ color: 'blue' });
+  });
+
+  it('lets later rules win among equally specific ones', () => {
+    const { title } = styles([
+      { selector: 'text', style: { color: 'red' } },
+      { selector: 'text', style: { color: 'blue' } },
+    ]);
+
+    expect(title).toEqual({ color: 'blue' });
+  });
+
+  it("keeps the node's own style above every rule", () => {
+    const node = tree();
+    (node.items[0] as TextNode).style = { color: 'black', fontSize: undefined };
+    const { title } = styles(
+      [{ selector: '#page > #title', style: { color: 'red', fontSize: 30 } }],
+      node
+    );
+
+    // Properties the node leaves undefined do not hide those of the rules
+    expect(title).toEqual({ color: 'black', fontSize: 30 });
+  });
+
+  it('applies a rule of several selectors with its most specific match', () => {
+    const { title, nested } = styles([
+      { selector: 'text', style: { color: 'red' } },
+      { selector: 'horizontal, #title', style: { color: 'blue' } },
+    ]);
+
+    expect(title).toEqual({ color: 'blue' });
+    expect(nested).toEqual({ color: 'red' });
+  });
+
+  it('leaves the original tree untouched', () => {
+    const node = tree();
+    applyStyleSheet(node, sheet([{ selector: 'text', style: { color: 'red' } }]));
+
+    expect(node).toEqual(tree());
+  });
+});
+
+describe('createStyleSheet', () => {
+  it.each([
+    ['unknown kind', 'button'],
+    ['dangling combinator', 'vertical >'],
+    ['leading combinator', '> text'],
+    ['empty selector', ''],
+  ])('rejects a selector with a %s', (_, selector) => {
+    const result = createStyleSheet([{ selector, style: {} }]);
+
+    expect(isStyleSheetError(result) && result.selector).toBe(selector);
+  });
+});
+
+describe('cascadeStyles', () => {
+  it('passes inherited text properties down to text nodes below their own style', () => {
+    const node: Node = {
+      kind: 'vertical',
+      style: { color: 'red', fontSize: 20 },
+      items: [
+        {
+          kind: 'container',
+          style: { fontSize: 30 },
+          item: { kind: 'text', item: 'a', style: { color: 'blue' } },
+        },
+      ],
+    };
+    const cascaded = cascadeStyles(node) as VerticalLayoutNode;
+    const text = (cascaded.items[0] as { item: TextNode }).item;
+
+    expect(text.style).toEqual({ color: 'blue', fontSize: 30 });
+  });
+});
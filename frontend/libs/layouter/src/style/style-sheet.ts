@@ -0,0 +1,203 @@
+import { mapChildNodes, type Node } from '../node';
+import {
+  createStyleSheetError,
+  isStyleSheetError,
+  type StyleSheetError,
+} from './style-sheet-error';
+import { definedProperties } from './style-utilities';
+
+// Style of any kind of node; a rule only sets what its selector's nodes understand
+export type NodeStyle = NonNullable<Node['style']>;
+
+// Styles every node its selector matches, as if they were written in the node's own style
+// Selectors follow a small subset of CSS:
+// - `text`, `vertical`, ...: nodes of that kind; `*` matches any node
+// - `#left-text`: nodes with that tag (or id); it can follow a kind, as in `text#left-text`
+// - `vertical text`: text nodes anywhere inside a vertical layout node
+// - `vertical > text`: text nodes that are direct children of a vertical layout node
+// - `text, image`: either selector
+export interface StyleRule {
+  selector: string;
+  style: NodeStyle;
+}
+
+// Parsed rules, ready to be applied to node trees
+export interface StyleSheet {
+  rules: ParsedStyleRule[];
+}
+
+export interface ParsedStyleRule {
+  selectors: Selector[];
+  style: NodeStyle;
+  // Position in the sheet; later rules win over earlier ones of the same specificity
+  order: number;
+}
+
+// Compound selectors from the outermost ancestor to the matched node
+export interface Selector {
+  steps: SelectorStep[];
+  specificity: Specificity;
+}
+
+export interface SelectorStep {
+  kind?: Node['kind'];
+  name?: string;
+  // How this step relates to the previous one; unused for the first step
+  combinator: 'descendant' | 'child';
+}
+
+// Number of tag names and number of kinds in a selector, compared in that order
+export type Specificity = [number, number];
+
+const NODE_KINDS = [
+  'vertical',
+  'horizontal',
+  'grid',
+  'container',
+  'text',
+  'image',
+  'connector',
+  'overlay',
+  'scroll',
+] as const satisfies readonly Node['kind'][];
+
+const COMPOUND_PATTERN = /^(\*|[a-z]+)?(?:#([\w-]+))?$/;
+
+// Parse the selectors of every rule
+// Returns StyleSheetError for the first selector that can not be parsed
+export function createStyleSheet(rules: StyleRule[]): StyleSheet | StyleSheetError {
+  const parsed: ParsedStyleRule[] = [];
+  for (const [order, rule] of rules.entries()) {
+    const selectors: Selector[] = [];
+    for (const source of rule.selector.split(',')) {
+      const selector = parseSelector(source.trim());
+      if (isStyleSheetError(selector)) {
+        return selector;
+      }
+      selectors.push(selector);
+    }
+    parsed.push({ selectors, style: rule.style, order });
+  }
+  return { rules: parsed };
+}
+
+// Copy of a node tree with the rules of the sheet merged into the style of every matched node
+// Matched rules are applied from the least to the most specific, and the node's own style last
+export function applyStyleSheet(node: Node, sheet: StyleSheet): Node {
+  return sheet.rules.length > 0 ? applyRules(node, [], sheet) : node;
+}
+
+function applyRules(node: Node, ancestors: Node[], sheet: StyleSheet): Node {
+  const path = [...ancestors, node];
+  const matched = sheet.rules
+    .flatMap((rule) => {
+      const specificities = rule.selectors
+        .filter((selector) =>
+          matchesStep(selector.steps, selector.steps.length - 1, path, path.length - 1)
+        )
+        .map((selector) => selector.specificity);
+      return specificities.length > 0
+        ? [{ rule, specificity: specificities.reduce(maxSpecificity) }]
+        : [];
+    })
+    .sort(
+      (a, b) => compareSpecificity(a.specificity, b.specificity) || a.rule.order - b.rule.order
+    );
+
+  const styled =
+    matched.length > 0
+      ? ({
+          ...node,
+          style: Object.assign(
+            {},
+            ...matched.map(({ rule }) => definedProperties(rule.style)),
+            definedProperties(node.style)
+          ),
+        } as Node)
+      : node;
+  return mapChildNodes(styled, (child) => applyRules(child, path, sheet));
+}
+
+function parseSelector(source: string): Selector | StyleSheetError {
+  // Tokens are compound selectors, '>' and runs of whitespace
+  const tokens = source.match(/\s*>\s*|\s+|[^\s>]+/g) ?? [];
+  const steps: SelectorStep[] = [];
+  let combinator: SelectorStep['combinator'] = 'descendant';
+
+  for (const token of tokens) {
+    if (token.trim() === '>') {
+      if (steps.length === 0 || combinator === 'child') {
+        return createStyleSheetError(source, "'>' must sit between two selectors");
+      }
+      combinator = 'child';
+      continue;
+    }
+    if (token.trim() === '') {
+      continue;
+    }
+
+    const match = COMPOUND_PATTERN.exec(token);
+    if (!match || (!match[1] && !match[2])) {
+      return createStyleSheetError(source, `'${token}' is not a kind, '*' or a '#tag'`);
+    }
+    const kind = match[1] === '*' ? undefined : match[1];
+    if (kind !== undefined && !isNodeKind(kind)) {
+      return createStyleSheetError(source, `unknown node kind '${kind}'`);
+    }
+    steps.push({ kind, name: match[2], combinator });
+    combinator = 'descendant';
+  }
+
+  if (steps.length === 0) {
+    return createStyleSheetError(source, 'it is empty');
+  }
+  if (combinator === 'child') {
+    return createStyleSheetError(source, "'>' must sit between two selectors");
+  }
+  return {
+    steps,
+    specificity: [
+      steps.filter((step) => step.name !== undefined).length,
+      steps.filter((step) => step.kind !== undefined).length,
+    ],
+  };
+}
+
+function isNodeKind(value: string): value is Node['kind'] {
+  return (NODE_KINDS as readonly string[]).includes(value);
+}
+
+// Whether steps[0..stepIndex] match the path ending at path[nodeIndex]
+function matchesStep(
+  steps: SelectorStep[],
+  stepIndex: number,
+  path: Node[],
+  nodeIndex: number
+): boolean {
+  const step = steps[stepIndex];
+  const node = path[nodeIndex];
+  const nameMatches = step.name === undefined || node.tag === step.name || node.id === step.name;
+  if ((step.kind !== undefined && node.kind !== step.kind) || !nameMatches) {
+    return false;
+  }
+  if (stepIndex === 0) {
+    return true;
+  }
+  if (step.combinator === 'child') {
+    return nodeIndex > 0 && matchesStep(steps, stepIndex - 1, path, nodeIndex - 1);
+  }
+  for (let ancestor = nodeIndex - 1; ancestor >= 0; ancestor--) {
+    if (matchesStep(steps, stepIndex - 1, path, ancestor)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function compareSpecificity(a: Specificity, b: Specificity): number {
+  return a[0] - b[0] || a[1] - b[1];
+}
+
+function maxSpecificity(a: Specificity, b: Specificity): Specificity {
+  return compareSpecificity(a, b) >= 0 ? a : b;
+}
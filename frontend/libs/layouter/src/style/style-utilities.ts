@@ -0,0 +1,7 @@
+// Properties explicitly set to undefined would otherwise hide inherited, themed and rule values
+// when styles are merged with spread
+export function definedProperties<T extends object>(style: T | undefined): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(style ?? {}).filter(([, value]) => value !== undefined)
+  ) as Partial<T>;
+}
@@ -1,21 +1,71 @@
 import { px } from '../scaling';
+import { DEFAULT_SIZING_STYLE, type SizingStyle } from './sizing';
 
-export interface TextNodeStyle {
+// Horizontal placement of each line within the text box
+export type TextAlign = 'left' | 'center' | 'right';
+
+// Whitespace handling, following CSS `white-space`
+// - normal:   collapse spaces and newlines, wrap lines
+// - nowrap:   collapse spaces and newlines, never wrap
+// - pre:      keep spaces and newlines, never wrap
+// - pre-wrap: keep spaces and newlines, wrap lines
+// - pre-line: collapse spaces, keep newlines, wrap lines
+export type WhiteSpace = 'normal' | 'nowrap' | 'pre' | 'pre-wrap' | 'pre-line';
+
+// Where lines may break, following CSS `word-break`
+// - normal:     between words, and between CJK characters
+// - break-all:  between any two characters
+// - keep-all:   only between words, CJK runs are kept together
+// - break-word: like normal, but words longer than a line are broken anywhere
+export type WordBreak = 'normal' | 'break-all' | 'keep-all' | 'break-word';
+
+// Stroke weight used to pick a registered font face
+export type FontWeight = 'normal' | 'bold';
+
+// Text wraps at `maxWidth` (or an explicit `width`) once it does not fit on one line
+export interface TextNodeStyle extends SizingStyle {
   color?: string;
   fontSize?: number;
+  // Name of a font registered with the renderer; unknown families use the default font
+  fontFamily?: string;
+  fontWeight?: FontWeight;
+  underline?: boolean;
   opacity?: number;
   backgroundColor?: string;
   wireframe?: boolean;
   wireframeColor?: string;
   heightMode?: 'fixed' | 'dynamic';
+  // Distance between consecutive baselines, as a multiple of fontSize
+  lineHeight?: number;
+  textAlign?: TextAlign;
+  whiteSpace?: WhiteSpace;
+  wordBreak?: WordBreak;
 }
 
 export const DEFAULT_TEXT_NODE_STYLE: Required<TextNodeStyle> = {
+  ...DEFAULT_SIZING_STYLE,
   color: 'black',
   fontSize: px(14),
+  fontFamily: 'default',
+  fontWeight: 'normal',
+  underline: false,
   opacity: 1.0,
   backgroundColor: 'white',
   wireframe: false,
   wireframeColor: 'green',
   heightMode: 'dynamic',
+  lineHeight: 1.2,
+  textAlign: 'center',
+  whiteSpace: 'pre-line',
+  wordBreak: 'normal',
 } as const;
+
+// Text properties that layout and container nodes pass down to the text nodes inside them
+// The nearest ancestor that sets one wins, unless the text node sets it itself
+export type InheritedTextStyle = Pick<TextNodeStyle, 'color' | 'fontSize' | 'fontFamily'>;
+
+// Style of a rich text span; unset properties are inherited from the TextNode's style
+export type TextSpanStyle = Pick<
+  TextNodeStyle,
+  'color' | 'fontSize' | 'fontFamily' | 'fontWeight' | 'underline'
+>;
@@ -0,0 +1,81 @@
+import { px } from '../scaling';
+
+// Colors a theme gives to style properties that nodes leave unset
+export interface ThemeColors {
+  // Text color inherited by every text node
+  text: string;
+  // Background of layout nodes: vertical, horizontal, grid, overlay and scroll
+  background: string;
+  // Background of containers, images and text boxes, drawn on top of a background
+  surface: string;
+  // Color of border sides that set a width but no color
+  border: string;
+  // Connector lines
+  accent: string;
+  // Image placeholders
+  muted: string;
+}
+
+// Font sizes from the smallest to the largest step; text inherits body at the root
+export interface TypographyScale {
+  fontFamily: string;
+  small: number;
+  body: number;
+  large: number;
+  heading: number;
+}
+
+// Distances from the smallest to the largest step; padding and gaps default to small
+export interface SpacingScale {
+  small: number;
+  medium: number;
+  large: number;
+}
+
+// Shared look of a Node tree, applied wherever its styles leave a property unset
+// Themes that only differ in colors restyle a layout without moving anything
+export interface Theme {
+  colors: ThemeColors;
+  typography: TypographyScale;
+  spacing: SpacingScale;
+}
+
+const TYPOGRAPHY_SCALE: TypographyScale = {
+  fontFamily: 'default',
+  small: px(12),
+  body: px(14),
+  large: px(18),
+  heading: px(24),
+};
+
+const SPACING_SCALE: SpacingScale = {
+  small: px(2),
+  medium: px(8),
+  large: px(16),
+};
+
+export const LIGHT_THEME: Theme = {
+  colors: {
+    text: '#1f2328',
+    background: '#eaeef2',
+    surface: '#ffffff',
+    border: '#8c959f',
+    accent: '#0969da',
+    muted: '#d0d7de',
+  },
+  typography: TYPOGRAPHY_SCALE,
+  spacing: SPACING_SCALE,
+};
+
+export const DARK_THEME: Theme = {
+  colors: {
+    text: '#e6edf3',
+    background: '#161b22',
+    surface: '#2d333b',
+    border: '#768390',
+    accent: '#539bf5',
+    muted: '#444c56',
+  },
+  typography: TYPOGRAPHY_SCALE,
+  spacing: SPACING_SCALE,
+};
@@ -1,7 +1,11 @@
 import type { Border } from './border';
 import { DEFAULT_LAYOUT_NODE_STYLE, type LayoutNodeStyle } from './layout-node-style';
 
-export type VerticalAlignment = 'center' | 'left';
+// Cross-axis (horizontal) placement of items in a vertical layout
+// 'stretch' fills the column width for items without an explicit width
+// There is no 'baseline': baselines are horizontal lines, so they can only line items up along
+// a vertical cross axis; as in CSS, only horizontal layouts support it
+export type VerticalAlignment = 'left' | 'center' | 'right' | 'stretch';
 
 export interface VerticalLayoutNodeStyle extends LayoutNodeStyle {
   backgroundColor?: string;
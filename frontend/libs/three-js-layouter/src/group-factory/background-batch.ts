@@ -0,0 +1,145 @@
+import * as THREE from 'three';
+import { markSharedResource } from './group-resources';
+import { isFlatBackgroundMesh } from './shared-layout-utilities';
+
+type FlatBackgroundMesh = THREE.Mesh<THREE.BoxGeometry, THREE.MeshBasicMaterial>;
+
+// Material variants that can share a draw call; color and opacity are set per instance
+interface BatchVariant {
+  transparent: boolean;
+  wireframe: boolean;
+}
+
+// One material per variant, shared by every batch; like the SDF atlas they are never disposed
+const batchMaterials = new Map<string, THREE.MeshBasicMaterial>();
+
+// Draws the flat backgrounds below a root group with one instanced mesh per material variant,
+// instead of one draw call per node
+// The batched meshes stay in their groups, hidden, so hit testing, clipping and the reconciler
+// keep working on them; call update after every change to the groups, and clear while anything
+// animates them, since batches are copies that do not follow the originals
+// Backgrounds clipped by a scroll node are left as they are, as their planes differ per node
+export class BackgroundBatcher {
+  // Holds the instanced meshes, added to the root group while there are any
+  readonly group = new THREE.Group();
+  private hidden: FlatBackgroundMesh[] = [];
+
+  // Batch the backgrounds as they are now, replacing the previous batches
+  update(root: THREE.Group): void {
+    this.clear();
+    root.updateWorldMatrix(true, true);
+    const toRoot = root.matrixWorld.clone().invert();
+
+    const variants = new Map<string, FlatBackgroundMesh[]>();
+    root.traverseVisible((object) => {
+      if (!isFlatBackgroundMesh(object) || object.material.clippingPlanes) {
+        return;
+      }
+      const key = variantKey(object.material);
+      const meshes = variants.get(key);
+      if (meshes) {
+        meshes.push(object);
+      } else {
+        variants.set(key, [object]);
+      }
+    });
+
+    for (const meshes of variants.values()) {
+      this.group.add(createBatch(meshes, toRoot));
+      for (const mesh of meshes) {
+        mesh.visible = false;
+        this.hidden.push(mesh);
+      }
+    }
+    if (this.group.children.length > 0) {
+      root.add(this.group);
+    }
+  }
+
+  // Show the original backgrounds again and drop the batches
+  clear(): void {
+    for (const mesh of this.hidden) {
+      mesh.visible = true;
+    }
+    this.hidden = [];
+    for (const child of this.group.children) {
+      if (child instanceof THREE.InstancedMesh) {
+        child.geometry.dispose();
+        child.dispose();
+      }
+    }
+    this.group.clear();
+    this.group.removeFromParent();
+  }
+
+  dispose(): void {
+    this.clear();
+  }
+}
+
+function variantKey(variant: BatchVariant): string {
+  return JSON.stringify([variant.transparent, variant.wireframe]);
+}
+
+function createBatch(meshes: FlatBackgroundMesh[], toRoot: THREE.Matrix4): THREE.InstancedMesh {
+  const { transparent, wireframe } = meshes[0].material;
+  // The unit box is scaled to the size of each background
+  const geometry = new THREE.BoxGeometry(1, 1, 0);
+  const opacities = new THREE.InstancedBufferAttribute(new Float32Array(meshes.length), 1);
+  geometry.setAttribute('instanceOpacity', opacities);
+
+  const batch = new THREE.InstancedMesh(
+    geometry,
+    getBatchMaterial({ transparent, wireframe }),
+    meshes.length
+  );
+  const matrix = new THREE.Matrix4();
+  const scale = new THREE.Matrix4();
+  meshes.forEach((mesh, index) => {
+    const { width, height } = mesh.geometry.parameters;
+    scale.makeScale(width, height, 1);
+    matrix.multiplyMatrices(toRoot, mesh.matrixWorld).multiply(scale);
+    batch.setMatrixAt(index, matrix);
+    batch.setColorAt(index, mesh.material.color);
+    opacities.setX(index, mesh.material.opacity);
+  });
+  batch.computeBoundingSphere();
+  // Instances are drawn in tree order, so parents stay behind their children even when
+  // transparent, and the whole batch behind what the nodes draw over their backgrounds
+  batch.renderOrder = -1;
+  // Pointer rays hit the hidden originals, which know their nodes
+  batch.raycast = () => {};
+  return batch;
+}
+
+function getBatchMaterial(variant: BatchVariant): THREE.MeshBasicMaterial {
+  const key = variantKey(variant);
+  const cached = batchMaterials.get(key);
+  if (cached) {
+    return cached;
+  }
+  const material = new THREE.MeshBasicMaterial(variant);
+  // Multiply the alpha by the opacity of each instance
+  material.onBeforeCompile = (shader) => {
+    shader.vertexShader = shader.vertexShader
+      .replace(
+        '#include <common>',
+        '#include <common>\nattribute float instanceOpacity;\nvarying float vInstanceOpacity;'
+      )
+      .replace(
+        '#include <color_vertex>',
+        '#include <color_vertex>\nvInstanceOpacity = instanceOpacity;'
+      );
+    shader.fragmentShader = shader.fragmentShader
+      .replace('#include <common>', '#include <common>\nvarying float vInstanceOpacity;')
+      .replace(
+        '#include <color_fragment>',
+        '#include <color_fragment>\ndiffuseColor.a *= vInstanceOpacity;'
+      );
+  };
+  // Programs are cached by this key too, so each variant has to tell its own apart
+  material.customProgramCacheKey = () => `instance-opacity:${key}`;
+  markSharedResource(material);
+  batchMaterials.set(key, material);
+  return material;
+}
@@ -0,0 +1,384 @@
+import {
+  type LayoutBox,
+  resolveBorder,
+  resolveBorderWidths,
+  resolveCornerRadii,
+} from '@kuumu/layouter/layout';
+import type { Node } from '@kuumu/layouter/node';
+import {
+  type ContainerNodeStyle,
+  DEFAULT_BOX_SHADOW,
+  DEFAULT_CONTAINER_NODE_STYLE,
+  DEFAULT_IMAGE_NODE_STYLE,
+  type Gradient,
+  MAX_GRADIENT_STOPS,
+} from '@kuumu/layouter/style';
+import * as THREE from 'three';
+
+// Passes the position relative to the box center, in layout units (y-up), to the fragment shader
+// Clipping chunks let scroll nodes clip decorated boxes like any built-in material
+const BOX_VERTEX_SHADER = /* glsl */ `
+  uniform vec2 quadSize;
+  varying vec2 vPosition;
+  #include <clipping_planes_pars_vertex>
+
+  void main() {
+    vPosition = position.xy * quadSize;
+    vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
+    gl_Position = projectionMatrix * mvPosition;
+    #include <clipping_planes_vertex>
+  }
+`;
+
+// Signed distance to a rounded rectangle centered at the origin; radii are ordered
+// top-left, top-right, bottom-right, bottom-left
+const ROUNDED_BOX_SDF = /* glsl */ `
+  float roundedBoxSdf(vec2 p, vec2 halfSize, vec4 radii) {
+    float radius = p.x < 0.0 ? (p.y > 0.0 ? radii.x : radii.w) : (p.y > 0.0 ? radii.y : radii.z);
+    vec2 q = abs(p) - halfSize + radius;
+    return min(max(q.x, q.y), 0.0) + length(max(q, 0.0)) - radius;
+  }
+
+  // Coverage of the inside of a shape, antialiased over one pixel
+  float coverage(float distance) {
+    return clamp(0.5 - distance / max(fwidth(distance), 1e-4), 0.0, 1.0);
+  }
+`;
+
+const BACKGROUND_FRAGMENT_SHADER = /* glsl */ `
+  #define MAX_STOPS ${MAX_GRADIENT_STOPS}
+  #define FILL_COLOR 0
+  #define FILL_LINEAR 1
+  #define FILL_RADIAL 2
+
+  uniform vec2 boxSize;
+  uniform vec4 radii;
+  // top, right, bottom, left
+  uniform vec4 borderWidths;
+  uniform vec3 borderColors[4];
+  uniform bool drawBorder;
+  uniform int fillType;
+  uniform vec3 fillColor;
+  uniform vec3 stopColors[MAX_STOPS];
+  uniform float stopOffsets[MAX_STOPS];
+  uniform int stopCount;
+  // Linear: unit direction and length of the gradient line; radial: center and radius
+  uniform vec2 gradientVector;
+  uniform float gradientLength;
+  uniform float opacity;
+  varying vec2 vPosition;
+  #include <clipping_planes_pars_fragment>
+
+  ${ROUNDED_BOX_SDF}
+
+  vec3 gradientColor(float t) {
+    vec3 color = stopColors[0];
+    for (int i = 1; i < MAX_STOPS; i++) {
+      if (i >= stopCount) {
+        break;
+      }
+      float span = max(stopOffsets[i] - stopOffsets[i - 1], 1e-4);
+      color = mix(color, stopColors[i], clamp((t - stopOffsets[i - 1]) / span, 0.0, 1.0));
+    }
+    return color;
+  }
+
+  vec3 fill() {
+    if (fillType == FILL_LINEAR) {
+      return gradientColor(dot(vPosition, gradientVector) / gradientLength + 0.5);
+    }
+    if (fillType == FILL_RADIAL) {
+      return gradientColor(length(vPosition - gradientVector) / gradientLength);
+    }
+    return fillColor;
+  }
+
+  // Border side whose edge is relatively closest, so corners split between adjacent sides
+  vec3 borderColor() {
+    vec2 halfSize = boxSize * 0.5;
+    vec4 distances = vec4(
+      halfSize.y - vPosition.y,
+      halfSize.x - vPosition.x,
+      vPosition.y + halfSize.y,
+      vPosition.x + halfSize.x
+    ) / max(borderWidths, vec4(1e-4));
+    float nearest = min(min(distances.x, distances.y), min(distances.z, distances.w));
+    if (nearest == distances.x) return borderColors[0];
+    if (nearest == distances.y) return borderColors[1];
+    if (nearest == distances.z) return borderColors[2];
+    return borderColors[3];
+  }
+
+  void main() {
+    #include <clipping_planes_fragment>
+    vec2 halfSize = boxSize * 0.5;
+    float outer = roundedBoxSdf(vPosition, halfSize, radii);
+
+    // Padding box: the border box shrunk by the border widths, with correspondingly smaller radii
+    vec2 innerCenter = vec2(borderWidths.w - borderWidths.y, borderWidths.z - borderWidths.x) * 0.5;
+    vec2 innerHalfSize = max(halfSize - vec2(borderWidths.y + borderWidths.w, borderWidths.x + borderWidths.z) * 0.5, 0.0);
+    vec4 innerRadii = max(radii - vec4(
+      max(borderWidths.x, borderWidths.w),
+      max(borderWidths.x, borderWidths.y),
+      max(borderWidths.z, borderWidths.y),
+      max(borderWidths.z, borderWidths.w)
+    ), 0.0);
+    float inner = roundedBoxSdf(vPosition - innerCenter, innerHalfSize, innerRadii);
+
+    float innerCoverage = coverage(inner);
+    vec3 color = fill();
+    float alpha = innerCoverage;
+    if (drawBorder) {
+      color = mix(borderColor(), color, innerCoverage);
+      alpha = coverage(outer);
+    }
+    if (alpha <= 0.0) {
+      discard;
+    }
+    gl_FragColor = vec4(color, alpha * opacity);
+    #include <colorspace_fragment>
+  }
+`;
+
+const SHADOW_FRAGMENT_SHADER = /* glsl */ `
+  uniform vec2 boxSize;
+  uniform vec4 radii;
+  uniform vec2 offset;
+  uniform float blur;
+  uniform float spread;
+  uniform vec3 color;
+  uniform float opacity;
+  varying vec2 vPosition;
+  #include <clipping_planes_pars_fragment>
+
+  ${ROUNDED_BOX_SDF}
+
+  void main() {
+    #include <clipping_planes_fragment>
+    float distance = roundedBoxSdf(vPosition - offset, boxSize * 0.5 + spread, max(radii + spread, 0.0));
+    float alpha = blur > 0.0 ? 1.0 - smoothstep(-blur * 0.5, blur * 0.5, distance) : coverage(distance);
+    if (alpha <= 0.0) {
+      discard;
+    }
+    gl_FragColor = vec4(color, alpha * opacity);
+    #include <colorspace_fragment>
+  }
+`;
+
+// Shadows sit between the parent's background (-0.001) and the node's own background
+const SHADOW_Z = -0.0015;
+
+export type DecoratedMesh = THREE.Mesh<THREE.PlaneGeometry, THREE.ShaderMaterial>;
+
+// Box style of a node; text and connector nodes have no box to decorate
+export function getBoxStyle(node: Node): ContainerNodeStyle | undefined {
+  return node.kind === 'text' || node.kind === 'connector' ? undefined : node.style;
+}
+
+// Images are the only kind whose box defaults differ from the container defaults
+function getDefaultBoxStyle(node: Node): Required<ContainerNodeStyle> {
+  return node.kind === 'image' ? DEFAULT_IMAGE_NODE_STYLE : DEFAULT_CONTAINER_NODE_STYLE;
+}
+
+// Whether the background needs the shader instead of a flat BoxGeometry
+// Wireframe mode always shows the plain box outline
+export function hasBoxDecoration(node: Node): boolean {
+  const style = getBoxStyle(node);
+  if (!style || style.wireframe) {
+    return false;
+  }
+  return (
+    hasRoundedCorners(node) ||
+    (style.backgroundGradient !== undefined && style.backgroundGradient !== 'none')
+  );
+}
+
+// Rounded corners are drawn by the background shader, border included
+export function hasRoundedCorners(node: Node): boolean {
+  const style = getBoxStyle(node);
+  const radius = style?.borderRadius;
+  if (style?.wireframe || radius === undefined) {
+    return false;
+  }
+  return typeof radius === 'object'
+    ? Object.values(radius).some((value) => value !== undefined && value > 0)
+    : radius > 0;
+}
+
+// Whether the style of a node casts a drop shadow; wireframe mode shows none
+export function hasBoxShadow(node: Node): boolean {
+  const style = getBoxStyle(node);
+  return style?.shadow !== undefined && style.shadow !== 'none' && !style.wireframe;
+}
+
+export function isDecoratedMesh(mesh: THREE.Mesh): mesh is DecoratedMesh {
+  return mesh.material instanceof THREE.ShaderMaterial;
+}
+
+// Background covering the border box of a node, shaped and filled by a shader
+// When the corners are rounded the border is painted by this mesh as well (always solid)
+export function createDecoratedNodeMesh(box: LayoutBox): DecoratedMesh {
+  const material = new THREE.ShaderMaterial({
+    vertexShader: BOX_VERTEX_SHADER,
+    fragmentShader: BACKGROUND_FRAGMENT_SHADER,
+    uniforms: {
+      quadSize: { value: new THREE.Vector2() },
+      boxSize: { value: new THREE.Vector2() },
+      radii: { value: new THREE.Vector4() },
+      borderWidths: { value: new THREE.Vector4() },
+      borderColors: { value: Array.from({ length: 4 }, () => new THREE.Color()) },
+      drawBorder: { value: false },
+      fillType: { value: 0 },
+      fillColor: { value: new THREE.Color() },
+      stopColors: { value: Array.from({ length: MAX_GRADIENT_STOPS }, () => new THREE.Color()) },
+      stopOffsets: { value: new Array<number>(MAX_GRADIENT_STOPS).fill(0) },
+      stopCount: { value: 0 },
+      gradientVector: { value: new THREE.Vector2() },
+      gradientLength: { value: 1 },
+      opacity: { value: 1 },
+    },
+    transparent: true,
+    clipping: true,
+  });
+  const mesh = new THREE.Mesh(new THREE.PlaneGeometry(1, 1), material);
+  updateDecoratedNodeMesh(mesh, box);
+  return mesh;
+}
+
+// Apply the current size and style of a node to its decorated background in place
+export function updateDecoratedNodeMesh(mesh: DecoratedMesh, box: LayoutBox): void {
+  const style = { ...getDefaultBoxStyle(box.node), ...getBoxStyle(box.node) };
+  const uniforms = mesh.material.uniforms;
+
+  // The border box is centered on the group origin
+  setQuadSize(mesh, box.width, box.height);
+  uniforms.boxSize.value.set(box.width, box.height);
+  setRadii(uniforms.radii.value, box);
+
+  const widths = resolveBorderWidths(getBoxStyle(box.node)?.border);
+  uniforms.borderWidths.value.set(widths.top, widths.right, widths.bottom, widths.left);
+  const border = getBoxStyle(box.node)?.border;
+  uniforms.drawBorder.value = border !== undefined && hasRoundedCorners(box.node);
+  if (border) {
+    const sides = resolveBorder(border);
+    [sides.top, sides.right, sides.bottom, sides.left].forEach((side, index) => {
+      uniforms.borderColors.value[index].set(side.color);
+    });
+  }
+
+  uniforms.fillColor.value.set(style.backgroundColor);
+  setGradient(uniforms, style.backgroundGradient, box);
+
+  mesh.material.opacity = style.opacity;
+  uniforms.opacity.value = style.opacity;
+}
+
+// Drop shadow of a node, or undefined when its style has none
+export function createShadowMesh(box: LayoutBox): DecoratedMesh | undefined {
+  if (!hasBoxShadow(box.node)) {
+    return undefined;
+  }
+  const material = new THREE.ShaderMaterial({
+    vertexShader: BOX_VERTEX_SHADER,
+    fragmentShader: SHADOW_FRAGMENT_SHADER,
+    uniforms: {
+      quadSize: { value: new THREE.Vector2() },
+      boxSize: { value: new THREE.Vector2() },
+      radii: { value: new THREE.Vector4() },
+      offset: { value: new THREE.Vector2() },
+      blur: { value: 0 },
+      spread: { value: 0 },
+      color: { value: new THREE.Color() },
+      opacity: { value: 1 },
+    },
+    transparent: true,
+    depthWrite: false,
+    clipping: true,
+  });
+  const mesh = new THREE.Mesh(new THREE.PlaneGeometry(1, 1), material);
+  mesh.position.setZ(SHADOW_Z);
+  updateShadowMesh(mesh, box);
+  return mesh;
+}
+
+// Apply the current size and shadow style of a node to its shadow mesh in place
+export function updateShadowMesh(mesh: DecoratedMesh, box: LayoutBox): void {
+  const style = getBoxStyle(box.node);
+  const shadow = {
+    ...DEFAULT_BOX_SHADOW,
+    ...(style?.shadow === 'none' ? undefined : style?.shadow),
+  };
+  const opacity = style?.opacity ?? getDefaultBoxStyle(box.node).opacity;
+  const uniforms = mesh.material.uniforms;
+
+  // The quad is large enough to hold the offset shadow and its blurred edge
+  const margin = shadow.spread + shadow.blur;
+  setQuadSize(
+    mesh,
+    box.width + 2 * (margin + Math.abs(shadow.offsetX)),
+    box.height + 2 * (margin + Math.abs(shadow.offsetY))
+  );
+
+  uniforms.boxSize.value.set(box.width, box.height);
+  setRadii(uniforms.radii.value, box);
+  // Layout space is y-down while the scene is y-up
+  uniforms.offset.value.set(shadow.offsetX, -shadow.offsetY);
+  uniforms.blur.value = shadow.blur;
+  uniforms.spread.value = shadow.spread;
+  uniforms.color.value.set(shadow.color);
+  uniforms.opacity.value = shadow.opacity * opacity;
+}
+
+// The unit plane is scaled to the quad, while the shader works in layout units
+function setQuadSize(mesh: DecoratedMesh, width: number, height: number): void {
+  // A zero scale would make the matrix singular
+  mesh.scale.set(Math.max(width, 1e-6), Math.max(height, 1e-6), 1);
+  mesh.material.uniforms.quadSize.value.set(width, height);
+}
+
+function setRadii(target: THREE.Vector4, box: LayoutBox): void {
+  const radii = resolveCornerRadii(getBoxStyle(box.node)?.borderRadius, box.width, box.height);
+  target.set(radii.topLeft, radii.topRight, radii.bottomRight, radii.bottomLeft);
+}
+
+function setGradient(
+  uniforms: Record<string, THREE.IUniform>,
+  gradient: Gradient | 'none',
+  box: LayoutBox
+): void {
+  if (gradient === 'none' || gradient.stops.length === 0) {
+    uniforms.fillType.value = 0;
+    return;
+  }
+
+  const stops = [...gradient.stops]
+    .sort((a, b) => a.offset - b.offset)
+    .slice(0, MAX_GRADIENT_STOPS);
+  stops.forEach((stop, index) => {
+    uniforms.stopColors.value[index].set(stop.color);
+    uniforms.stopOffsets.value[index] = stop.offset;
+  });
+  uniforms.stopCount.value = stops.length;
+
+  if (gradient.type === 'linear') {
+    // Like CSS, the gradient line is long enough for the corners to get the end colors
+    const angle = THREE.MathUtils.degToRad(gradient.angle ?? 180);
+    const direction = new THREE.Vector2(Math.sin(angle), Math.cos(angle));
+    uniforms.fillType.value = 1;
+    uniforms.gradientVector.value.copy(direction);
+    uniforms.gradientLength.value =
+      Math.abs(box.width * direction.x) + Math.abs(box.height * direction.y) || 1;
+    return;
+  }
+
+  const center = gradient.center ?? { x: 0.5, y: 0.5 };
+  const centerX = (center.x - 0.5) * box.width;
+  const centerY = (0.5 - center.y) * box.height;
+  const farthestCorner = Math.hypot(
+    box.width / 2 + Math.abs(centerX),
+    box.height / 2 + Math.abs(centerY)
+  );
+  uniforms.fillType.value = 2;
+  uniforms.gradientVector.value.set(centerX, centerY);
+  uniforms.gradientLength.value = gradient.radius ?? (farthestCorner || 1);
+}
@@ -0,0 +1,118 @@
+import type { LayoutBox } from '@kuumu/layouter/layout';
+import {
+  getTextSpanStyle,
+  getTextSpans,
+  isConnectorNode,
+  isTextNode,
+  type Node,
+  type TextNode,
+} from '@kuumu/layouter/node';
+import * as THREE from 'three';
+import type { GroupFactoryContext } from './context';
+import {
+  createInvalidStyleValueError,
+  createMissingGlyphError,
+  createZeroSizeGeometryError,
+  type GroupFactoryError,
+} from './error';
+import type { FontWithTypedData } from './font-types';
+import { resolveFont } from './resolve-font';
+
+// Style properties that are sizes, so negative values make no sense; nested values such as the
+// sides of a padding count as well
+const NON_NEGATIVE_PROPERTIES = new Set([
+  'width',
+  'height',
+  'minWidth',
+  'maxWidth',
+  'minHeight',
+  'maxHeight',
+  'fontSize',
+  'lineHeight',
+  'spacing',
+  'columnGap',
+  'rowGap',
+  'padding',
+  'border',
+  'borderRadius',
+  'blur',
+]);
+
+const HEX_COLOR = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const FUNCTIONAL_COLOR = /^(rgb|rgba|hsl|hsla)\([^)]*\)$/i;
+
+// Problems with a laid out box that do not keep its group from being built, but would not draw
+// it as intended: style values that can not be used, characters missing from the font, and boxes
+// without area
+export function findBoxProblems(context: GroupFactoryContext, box: LayoutBox): GroupFactoryError[] {
+  const { node } = box;
+  const problems = findInvalidStyleValues(node, node.style, []);
+  if (isTextNode(node)) {
+    const missing = findMissingGlyphs(context, { ...box, node });
+    if (missing.length > 0) {
+      problems.push(createMissingGlyphError(node, missing));
+    }
+  }
+  // A straight connector is as thin as its line
+  if (!isConnectorNode(node) && (box.width <= 0 || box.height <= 0)) {
+    problems.push(createZeroSizeGeometryError(node, box.width, box.height));
+  }
+  return problems;
+}
+
+function findInvalidStyleValues(node: Node, value: unknown, keys: string[]): GroupFactoryError[] {
+  const property = keys.join('.');
+  if (typeof value === 'number') {
+    const key = keys[keys.length - 1];
+    const valid =
+      Number.isFinite(value) &&
+      (key === 'opacity' ? value >= 0 && value <= 1 : true) &&
+      (keys.some((part) => NON_NEGATIVE_PROPERTIES.has(part)) ? value >= 0 : true);
+    return valid ? [] : [createInvalidStyleValueError(node, property, value)];
+  }
+  if (typeof value === 'string') {
+    const key = keys[keys.length - 1] ?? '';
+    const isColor = /color$/i.test(key);
+    return isColor && !isValidColor(value)
+      ? [createInvalidStyleValueError(node, property, value)]
+      : [];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap((item, index) =>
+      findInvalidStyleValues(node, item, [...keys, `${index}`])
+    );
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.entries(value).flatMap(([key, item]) =>
+      findInvalidStyleValues(node, item, [...keys, key])
+    );
+  }
+  return [];
+}
+
+function isValidColor(value: string): boolean {
+  return (
+    HEX_COLOR.test(value) ||
+    FUNCTIONAL_COLOR.test(value) ||
+    value.toLowerCase() === 'transparent' ||
+    value.toLowerCase() in THREE.Color.NAMES
+  );
+}
+
+// Characters of the laid out lines that their font has no glyph for, each once
+function findMissingGlyphs(context: GroupFactoryContext, box: LayoutBox<TextNode>): string[] {
+  const spans = getTextSpans(box.node);
+  const missing = new Set<string>();
+  for (const line of box.lines ?? []) {
+    for (const run of line.runs) {
+      const font = resolveFont(context, getTextSpanStyle(box.node, spans[run.span]));
+      const { glyphs } = (font as unknown as FontWithTypedData).data;
+      for (const char of Array.from(run.text)) {
+        if (!/\s/.test(char) && !glyphs[char]) {
+          missing.add(char);
+        }
+      }
+    }
+  }
+  return [...missing];
+}
@@ -0,0 +1,88 @@
+import type { LayoutBox } from '@kuumu/layouter/layout';
+import * as THREE from 'three';
+import { isSharedResource } from './group-resources';
+import { toLocalPosition } from './shared-layout-utilities';
+
+// Rectangle a scroll node clips its descendants to, as four planes
+// Planes are kept relative to the group and moved to world space right before rendering, so the
+// region follows the group however it is positioned later
+interface ClipRegion {
+  group: THREE.Object3D;
+  localPlanes: THREE.Plane[];
+  planes: THREE.Plane[];
+}
+
+const clipRegions = new WeakMap<THREE.Object3D, ClipRegion>();
+
+// Attach the clip rect of a layout box to its group, or detach it when the box does not clip
+export function updateClipRegion(group: THREE.Object3D, box: LayoutBox): void {
+  if (!box.clip) {
+    clipRegions.delete(group);
+    return;
+  }
+
+  // Keep x and y inside the rect, relative to the box center (y-up)
+  const center = toLocalPosition(box.clip, box);
+  const halfWidth = box.clip.width / 2;
+  const halfHeight = box.clip.height / 2;
+  const localPlanes = [
+    new THREE.Plane(new THREE.Vector3(1, 0, 0), halfWidth - center.x),
+    new THREE.Plane(new THREE.Vector3(-1, 0, 0), halfWidth + center.x),
+    new THREE.Plane(new THREE.Vector3(0, 1, 0), halfHeight - center.y),
+    new THREE.Plane(new THREE.Vector3(0, -1, 0), halfHeight + center.y),
+  ];
+  const region = clipRegions.get(group);
+  if (region) {
+    region.localPlanes = localPlanes;
+  } else {
+    clipRegions.set(group, {
+      group,
+      localPlanes,
+      planes: localPlanes.map((plane) => plane.clone()),
+    });
+  }
+}
+
+// Set the clipping planes of every mesh below root from the regions of its ancestors
+// A node's own meshes are clipped by the regions above it only, its children by its own as well
+// Meshes outside of every region are reset, so this also undoes clipping that no longer applies
+export function applyClipRegions(root: THREE.Object3D): void {
+  applyInheritedClipRegions(root, []);
+}
+
+function applyInheritedClipRegions(root: THREE.Object3D, regions: ClipRegion[]): void {
+  const own = clipRegions.get(root);
+  const inner = own ? [...regions, own] : regions;
+
+  for (const child of root.children) {
+    if (child instanceof THREE.Mesh) {
+      applyToMesh(child, regions);
+    } else {
+      applyInheritedClipRegions(child, inner);
+    }
+  }
+}
+
+function applyToMesh(mesh: THREE.Mesh, regions: ClipRegion[]): void {
+  const planes = regions.flatMap((region) => region.planes);
+  // Planes differ per region, so a clipped mesh gets its own copy of a shared material
+  if (planes.length > 0 && !Array.isArray(mesh.material) && isSharedResource(mesh.material)) {
+    mesh.material = mesh.material.clone();
+  }
+  const materials = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+  for (const material of materials) {
+    // The renderer recompiles the program when the number of planes changes
+    material.clippingPlanes = planes.length > 0 ? planes : null;
+  }
+  mesh.onBeforeRender =
+    regions.length > 0
+      ? () => regions.forEach(updateWorldPlanes)
+      : THREE.Object3D.prototype.onBeforeRender;
+}
+
+// World matrices are up to date once rendering starts, and clipping planes are read after this
+function updateWorldPlanes(region: ClipRegion): void {
+  region.localPlanes.forEach((plane, index) => {
+    region.planes[index].copy(plane).applyMatrix4(region.group.matrixWorld);
+  });
+}
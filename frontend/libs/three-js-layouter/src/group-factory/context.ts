@@ -1,5 +1,37 @@
+import type { ImageNode } from '@kuumu/layouter/node';
+import type { FontWeight, StyleSheet, Theme } from '@kuumu/layouter/style';
 import type { Font } from 'three/examples/jsm/loaders/FontLoader.js';
+import type { GroupFactoryError } from './error';
+import type { GroupResources } from './group-resources';
 
 export interface GroupFactoryContext {
+  // Default font, used for any family or weight that is not registered in `fonts`
+  font: Font;
+  fonts?: RegisteredFont[];
+  // How text is drawn: triangulated glyph outlines (default), or quads sampling an SDF atlas
+  textRenderer?: TextRenderer;
+  // Fills whatever node styles leave unset; without one the DEFAULT_* styles are used
+  theme?: Theme;
+  // Rules merged into the styles of the nodes they match, below each node's own style
+  styleSheet?: StyleSheet;
+  // Called when an image finishes loading after its group was returned, so the scene can be
+  // rendered again; `error` is set when loading failed and the placeholder stays in place
+  // Receives the node as passed in; failed loads are reported like other errors as well
+  onImageLoad?: (node: ImageNode, error?: GroupFactoryError) => void;
+  // Tracks the cached textures groups use, so that disposeGroup can release those no group shows
+  // anymore; without it they stay cached for as long as the page lives
+  resources?: GroupResources;
+  // Called with every error that did not stop the build, such as a child left out because its
+  // group failed; checks of style values, font glyphs and box sizes only run when it is set
+  // Child errors are logged when omitted
+  onError?: (error: GroupFactoryError) => void;
+}
+
+export type TextRenderer = 'geometry' | 'sdf';
+
+// Font face that text styles can select by fontFamily and fontWeight
+export interface RegisteredFont {
+  family: string;
+  weight?: FontWeight;
   font: Font;
 }
@@ -0,0 +1,125 @@
+import { type LayoutBox, type Rect, resolveBorder } from '@kuumu/layouter/layout';
+import type { Node } from '@kuumu/layouter/node';
+import type { Border, BorderSide } from '@kuumu/layouter/style';
+import * as THREE from 'three';
+import { getBoxStyle, hasRoundedCorners } from './box-decoration';
+
+// Dash and gap lengths of dashed sides, as multiples of the side width
+const DASH_LENGTH = 3;
+const DASH_GAP = 2;
+
+// Quad of one border side (or one dash of it), in coordinates relative to the box center (y-up)
+interface BorderQuad {
+  rect: Rect;
+  color: THREE.Color;
+}
+
+// Border of a node, if its kind supports one and its style sets it
+export function getNodeBorder(node: Node): Border | undefined {
+  return getBoxStyle(node)?.border;
+}
+
+// Create outline geometry for the border of a node, between its outer box and its padding box
+// Top and bottom sides span the corners, left and right sides fit between them
+// Returns undefined for nodes without a border, or with rounded corners whose border the background
+// shader paints; opacity and wireframe follow the background
+export function createBorderMesh(
+  box: LayoutBox,
+  background: THREE.MeshBasicMaterial | THREE.ShaderMaterial
+): THREE.Mesh | undefined {
+  const border = getNodeBorder(box.node);
+  if (!border || hasRoundedCorners(box.node)) {
+    return undefined;
+  }
+
+  const { top, right, bottom, left } = resolveBorder(border);
+  const halfWidth = box.width / 2;
+  const halfHeight = box.height / 2;
+  const sideHeight = Math.max(0, box.height - top.width - bottom.width);
+  const quads = [
+    ...sideQuads(top, 'x', {
+      x: -halfWidth,
+      y: halfHeight - top.width,
+      width: box.width,
+      height: top.width,
+    }),
+    ...sideQuads(bottom, 'x', {
+      x: -halfWidth,
+      y: -halfHeight,
+      width: box.width,
+      height: bottom.width,
+    }),
+    ...sideQuads(left, 'y', {
+      x: -halfWidth,
+      y: -halfHeight + bottom.width,
+      width: left.width,
+      height: sideHeight,
+    }),
+    ...sideQuads(right, 'y', {
+      x: halfWidth - right.width,
+      y: -halfHeight + bottom.width,
+      width: right.width,
+      height: sideHeight,
+    }),
+  ];
+  if (quads.length === 0) {
+    return undefined;
+  }
+
+  const material = new THREE.MeshBasicMaterial({
+    vertexColors: true,
+    transparent: background.transparent,
+    opacity: background.opacity,
+    wireframe: background.wireframe,
+  });
+  return new THREE.Mesh(createQuadGeometry(quads), material);
+}
+
+// Quads drawing one side; `axis` is the direction the side runs along
+function sideQuads(side: Required<BorderSide>, axis: 'x' | 'y', rect: Rect): BorderQuad[] {
+  if (side.width <= 0 || rect.width <= 0 || rect.height <= 0) {
+    return [];
+  }
+  const color = new THREE.Color(side.color);
+  if (side.style === 'solid') {
+    return [{ rect, color }];
+  }
+
+  // Dashes are stretched slightly so that the side starts and ends with a full dash
+  const length = axis === 'x' ? rect.width : rect.height;
+  const gap = side.width * DASH_GAP;
+  const count = Math.max(1, Math.round((length + gap) / (side.width * DASH_LENGTH + gap)));
+  const dash = count > 1 ? (length - gap * (count - 1)) / count : length;
+
+  return Array.from({ length: count }, (_, index) => {
+    const offset = index * (dash + gap);
+    return {
+      rect:
+        axis === 'x'
+          ? { ...rect, x: rect.x + offset, width: dash }
+          : { ...rect, y: rect.y + offset, height: dash },
+      color,
+    };
+  });
+}
+
+// Two triangles per quad, with the side color as vertex color
+function createQuadGeometry(quads: BorderQuad[]): THREE.BufferGeometry {
+  const positions = new Float32Array(quads.length * 18);
+  const colors = new Float32Array(quads.length * 18);
+  quads.forEach(({ rect, color }, index) => {
+    const x0 = rect.x;
+    const x1 = rect.x + rect.width;
+    const y0 = rect.y;
+    const y1 = rect.y + rect.height;
+    positions.set([x0, y0, 0, x1, y0, 0, x1, y1, 0, x0, y0, 0, x1, y1, 0, x0, y1, 0], index * 18);
+    for (let vertex = 0; vertex < 6; vertex++) {
+      color.toArray(colors, index * 18 + vertex * 3);
+    }
+  });
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+  return geometry;
+}
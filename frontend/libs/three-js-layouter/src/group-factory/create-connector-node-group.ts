@@ -0,0 +1,150 @@
+import type { LayoutBox, Point, Rect } from '@kuumu/layouter/layout';
+import type { ConnectorNode } from '@kuumu/layouter/node';
+import { DEFAULT_CONNECTOR_NODE_STYLE } from '@kuumu/layouter/style';
+import * as THREE from 'three';
+import type { GroupFactoryContext } from './context';
+
+// Connectors run between boxes nested at any depth, each level of which is raised by 0.001,
+// so lines are lifted well above them
+const CONNECTOR_Z = 0.01;
+
+// Create visual representation of ConnectorNode
+// The route is computed by the layout; nothing is drawn when either end could not be found
+export function createConnectorNodeGroup(
+  _context: GroupFactoryContext,
+  box: LayoutBox<ConnectorNode>
+): THREE.Group {
+  const group = new THREE.Group();
+  const mesh = createConnectorMesh(box);
+  if (mesh) {
+    group.add(mesh);
+  }
+  return group;
+}
+
+// Create the line of a connector with its arrowheads, relative to the center of its box (y-up)
+// Returns undefined when there is no route to draw
+export function createConnectorMesh(box: LayoutBox<ConnectorNode>): THREE.Mesh | undefined {
+  const style = { ...DEFAULT_CONNECTOR_NODE_STYLE, ...box.node.style };
+  const centerX = box.x + box.width / 2;
+  const centerY = box.y + box.height / 2;
+  let points = (box.path ?? []).map((point) => ({
+    x: point.x - centerX,
+    y: -(point.y - centerY),
+  }));
+  if (points.length < 2) {
+    return undefined;
+  }
+
+  // Lines stop at the base of their arrowheads so that the tips stay sharp
+  const triangles: Point[] = [];
+  if (style.arrowheads === 'end' || style.arrowheads === 'both') {
+    const tip = points[points.length - 1];
+    points = trimEnd(points, style.arrowSize);
+    triangles.push(...arrowhead(tip, points[points.length - 1], style.arrowSize));
+  }
+  if (style.arrowheads === 'start' || style.arrowheads === 'both') {
+    const tip = points[0];
+    points = trimEnd([...points].reverse(), style.arrowSize).reverse();
+    triangles.push(...arrowhead(tip, points[0], style.arrowSize));
+  }
+  for (let index = 1; index < points.length; index++) {
+    triangles.push(...segment(points[index - 1], points[index], style.lineWidth));
+  }
+
+  const positions = new Float32Array(triangles.flatMap((point) => [point.x, point.y, 0]));
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  const material = new THREE.MeshBasicMaterial({
+    color: style.color,
+    opacity: style.opacity,
+    transparent: style.opacity < 1.0,
+    // Flipping y reverses the winding of some triangles
+    side: THREE.DoubleSide,
+  });
+  const mesh = new THREE.Mesh(geometry, material);
+  mesh.position.setZ(CONNECTOR_Z);
+  return mesh;
+}
+
+// Area the drawn line covers in layout space: the bounds of its route, widened by half the
+// line width or half the arrowhead base, whichever is wider
+// Returns undefined when there is no route to draw
+export function getConnectorBounds(box: LayoutBox<ConnectorNode>): Rect | undefined {
+  const path = box.path ?? [];
+  if (path.length < 2) {
+    return undefined;
+  }
+  const style = { ...DEFAULT_CONNECTOR_NODE_STYLE, ...box.node.style };
+  const margin = Math.max(style.lineWidth, style.arrowSize) / 2;
+  const xs = path.map((point) => point.x);
+  const ys = path.map((point) => point.y);
+  const x = Math.min(...xs) - margin;
+  const y = Math.min(...ys) - margin;
+  return {
+    x,
+    y,
+    width: Math.max(...xs) + margin - x,
+    height: Math.max(...ys) + margin - y,
+  };
+}
+
+// Shorten a polyline by `length` from its last point, dropping segments that become empty
+function trimEnd(points: Point[], length: number): Point[] {
+  const result = [...points];
+  let remaining = length;
+  while (result.length > 1) {
+    const end = result[result.length - 1];
+    const previous = result[result.length - 2];
+    const segmentLength = Math.hypot(end.x - previous.x, end.y - previous.y);
+    if (segmentLength > remaining) {
+      const ratio = (segmentLength - remaining) / segmentLength;
+      result[result.length - 1] = {
+        x: previous.x + (end.x - previous.x) * ratio,
+        y: previous.y + (end.y - previous.y) * ratio,
+      };
+      return result;
+    }
+    remaining -= segmentLength;
+    result.pop();
+  }
+  return result;
+}
+
+// Triangle pointing at `tip` from the direction of `from`
+function arrowhead(tip: Point, from: Point, size: number): Point[] {
+  const direction = unit(from, tip);
+  if (!direction) {
+    return [];
+  }
+  const baseX = tip.x - direction.x * size;
+  const baseY = tip.y - direction.y * size;
+  const halfWidth = size / 2;
+  return [
+    tip,
+    { x: baseX - direction.y * halfWidth, y: baseY + direction.x * halfWidth },
+    { x: baseX + direction.y * halfWidth, y: baseY - direction.x * halfWidth },
+  ];
+}
+
+// Two triangles covering a segment, extended by half the width so that joints are filled
+function segment(from: Point, to: Point, width: number): Point[] {
+  const direction = unit(from, to);
+  if (!direction) {
+    return [];
+  }
+  const half = width / 2;
+  const start = { x: from.x - direction.x * half, y: from.y - direction.y * half };
+  const end = { x: to.x + direction.x * half, y: to.y + direction.y * half };
+  const normal = { x: -direction.y * half, y: direction.x * half };
+  const a = { x: start.x + normal.x, y: start.y + normal.y };
+  const b = { x: start.x - normal.x, y: start.y - normal.y };
+  const c = { x: end.x - normal.x, y: end.y - normal.y };
+  const d = { x: end.x + normal.x, y: end.y + normal.y };
+  return [a, b, c, a, c, d];
+}
+
+function unit(from: Point, to: Point): Point | undefined {
+  const length = Math.hypot(to.x - from.x, to.y - from.y);
+  return length > 0 ? { x: (to.x - from.x) / length, y: (to.y - from.y) / length } : undefined;
+}
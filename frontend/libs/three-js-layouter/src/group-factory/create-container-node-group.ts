@@ -1,38 +1,15 @@
-import type { ContainerNode, Node } from '@kuumu/layouter/node';
-import { DEFAULT_CONTAINER_NODE_STYLE } from '@kuumu/layouter/style';
+import type { LayoutBox } from '@kuumu/layouter/layout';
+import type { ContainerNode } from '@kuumu/layouter/node';
 import type * as THREE from 'three';
 import type { GroupFactoryContext } from './context';
 import type { GroupFactoryError } from './error';
-import {
-  createLayoutGroup,
-  createNodeGeometry,
-  type LayoutOperations,
-  type NodeGeometry,
-} from './shared-layout-utilities';
+import { createLayoutGroup } from './shared-layout-utilities';
 
 // Create visual representation of ContainerNode
+// Children are already positioned by the computed layout
 export function createContainerNodeGroup(
   context: GroupFactoryContext,
-  containerNode: ContainerNode
+  box: LayoutBox<ContainerNode>
 ): THREE.Group | GroupFactoryError {
-  const operations: LayoutOperations<ContainerNode> = {
-    getItems,
-    positionChildren,
-    createGeometry: (group) => createGeometry(group, containerNode),
-  };
-  return createLayoutGroup(context, containerNode, operations);
-}
-
-// Get items for container node
-function getItems(node: ContainerNode): Node[] {
-  return [node.item];
-}
-
-// Position children for container node
-function positionChildren(): void {}
-
-// Create geometry for container node
-function createGeometry(group: THREE.Group, node: ContainerNode): NodeGeometry {
-  const padding = node.style?.padding ?? DEFAULT_CONTAINER_NODE_STYLE.padding;
-  return createNodeGeometry(group, padding);
+  return createLayoutGroup(context, box);
 }
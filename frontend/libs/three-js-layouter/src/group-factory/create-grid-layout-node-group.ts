@@ -0,0 +1,15 @@
+import type { LayoutBox } from '@kuumu/layouter/layout';
+import type { GridLayoutNode } from '@kuumu/layouter/node';
+import type * as THREE from 'three';
+import type { GroupFactoryContext } from './context';
+import type { GroupFactoryError } from './error';
+import { createLayoutGroup } from './shared-layout-utilities';
+
+// Create visual representation of GridLayoutNode
+// Children are already positioned by the computed layout
+export function createGridLayoutNodeGroup(
+  context: GroupFactoryContext,
+  box: LayoutBox<GridLayoutNode>
+): THREE.Group | GroupFactoryError {
+  return createLayoutGroup(context, box);
+}
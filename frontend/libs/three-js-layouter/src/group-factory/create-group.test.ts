@@ -0,0 +1,40 @@
+import type { ImageNode, Node } from '@kuumu/layouter/node';
+import fontData from 'three/examples/fonts/helvetiker_regular.typeface.json';
+import { FontLoader } from 'three/examples/jsm/loaders/FontLoader.js';
+import { describe, expect, it } from 'vitest';
+import { buildGroup } from './create-group';
+import { type GroupFactoryError, isGroupFactoryError } from './error';
+
+const font = new FontLoader().parse(fontData);
+
+describe('buildGroup', () => {
+  it('reports images failing after the build with their path, outside of the result', async () => {
+    // Nothing can load images without a DOM, so every load fails
+    const image: ImageNode = { kind: 'image', source: 'missing.png' };
+    const node: Node = {
+      kind: 'vertical',
+      tag: 'page',
+      items: [{ kind: 'text', item: 'a' }, image],
+    };
+    const reported: GroupFactoryError[] = [];
+    const loaded = new Promise<GroupFactoryError | undefined>((resolve) => {
+      const result = buildGroup(
+        {
+          font,
+          onError: (error) => reported.push(error),
+          onImageLoad: (_, error) => resolve(error),
+        },
+        node,
+        { strict: true }
+      );
+
+      expect(isGroupFactoryError(result) ? result : result.errors).toEqual([]);
+    });
+
+    const error = await loaded;
+    expect(error?.kind).toBe('ImageLoadError');
+    expect(reported).toEqual([error]);
+    expect(error?.node).toBe(image);
+    expect(error?.path?.map((segment) => segment.index)).toEqual([undefined, 1]);
+  });
+});
@@ -1,35 +1,199 @@
-import type { Node } from '@kuumu/layouter/node';
+import { computeLayout, type LayoutBox } from '@kuumu/layouter/layout';
 import {
+  findNodePath,
+  getChildNodes,
+  isConnectorNode,
   isContainerNode,
+  isGridLayoutNode,
   isHorizontalLayoutNode,
+  isImageNode,
+  isOverlayNode,
+  isScrollNode,
   isTextNode,
   isVerticalLayoutNode,
+  type Node,
 } from '@kuumu/layouter/node';
 import type * as THREE from 'three';
+import { findBoxProblems } from './box-diagnostics';
 import type { GroupFactoryContext } from './context';
+import { createConnectorNodeGroup } from './create-connector-node-group';
 import { createContainerNodeGroup } from './create-container-node-group';
+import { createGridLayoutNodeGroup } from './create-grid-layout-node-group';
 import { createHorizontalLayoutNodeGroup } from './create-horizontal-layout-node-group';
+import { createImageNodeGroup } from './create-image-node-group';
+import { createOverlayNodeGroup } from './create-overlay-node-group';
+import { createScrollNodeGroup } from './create-scroll-node-group';
 import { createTextNodeGroup } from './create-text-node-group';
 import { createVerticalLayoutNodeGroup } from './create-vertical-layout-node-group';
-import { createUnsupportedNodeTypeError, type GroupFactoryError } from './error';
+import { disposeGroup } from './dispose-group';
+import {
+  createLayoutComputationError,
+  createStrictBuildError,
+  createUnsupportedNodeTypeError,
+  type GroupFactoryError,
+  isGroupFactoryError,
+  type NodePathSegment,
+  reportGroupFactoryError,
+} from './error';
+import { createFontTextMeasurer } from './font-text-measurer';
+import { setObjectNode } from './hit-test';
+import { getSourceNode, resolveNodeStyles } from './resolve-node-styles';
 
 // Create THREE.Group from Node
-// Returns GroupFactoryError when the node type is not supported
+// Style sheet, inherited and themed styles are resolved first, then layout is computed and meshes
+// are placed according to the resulting boxes
+// Returns GroupFactoryError when the node type is not supported or layout fails
 export function createGroup(
   context: GroupFactoryContext,
   node: Node
 ): THREE.Group | GroupFactoryError {
+  let layout: LayoutBox;
+  try {
+    layout = computeLayout(resolveNodeStyles(context, node), createFontTextMeasurer(context));
+  } catch (error) {
+    return createLayoutComputationError(error);
+  }
+  return createGroupFromLayout(context, layout);
+}
+
+export interface GroupBuildOptions {
+  // Fail the whole build when anything went wrong, instead of leaving out the failing parts
+  strict?: boolean;
+}
+
+export interface GroupBuildResult {
+  group: THREE.Group;
+  // Everything that went wrong without stopping the build, with the node and path of each
+  errors: GroupFactoryError[];
+}
+
+// Create THREE.Group from Node, collecting every error instead of logging it
+// Besides children whose groups failed, the errors include the problems found by checking
+// style values, font glyphs and box sizes; each error carries the node it happened in, as the
+// caller passed it, and its path from the root
+// Images load in the background, so their failures are not part of the result: they reach
+// context.onError (or the console) and onImageLoad later, with their path as well
+// A strict build disposes the group and returns a StrictBuildError holding all errors, e.g. for
+// CI to reject broken layouts
+export function buildGroup(
+  context: GroupFactoryContext,
+  node: Node,
+  options: GroupBuildOptions = {}
+): GroupBuildResult | GroupFactoryError {
+  let layout: LayoutBox;
+  try {
+    layout = computeLayout(resolveNodeStyles(context, node), createFontTextMeasurer(context));
+  } catch (error) {
+    return createLayoutComputationError(error);
+  }
+
+  const errors: GroupFactoryError[] = [];
+  let building = true;
+  const group = createGroupFromLayout(
+    {
+      ...context,
+      onError: (error) => {
+        if (building) {
+          errors.push(error);
+          context.onError?.(error);
+          return;
+        }
+        // Images failing to load after the build are only reported, the result is already final
+        annotateNodePath(error, node);
+        reportGroupFactoryError(context, error);
+      },
+    },
+    layout
+  );
+  building = false;
+  if (isGroupFactoryError(group)) {
+    errors.push(group);
+  }
+  for (const error of errors) {
+    annotateNodePath(error, node);
+  }
+
+  if (options.strict && errors.length > 0) {
+    if (!isGroupFactoryError(group)) {
+      disposeGroup(group, context);
+    }
+    return createStrictBuildError(errors);
+  }
+  return isGroupFactoryError(group) ? group : { group, errors };
+}
+
+// Create THREE.Group from an already computed LayoutBox
+// The group origin is placed at the center of the box, and hit tests on it find the box's node
+// Errors are attributed to the box's node unless they already name a node
+export function createGroupFromLayout(
+  context: GroupFactoryContext,
+  box: LayoutBox
+): THREE.Group | GroupFactoryError {
+  if (context.onError) {
+    for (const problem of findBoxProblems(context, box)) {
+      context.onError(problem);
+    }
+  }
+  const group = createGroupForKind(context, box);
+  if (isGroupFactoryError(group)) {
+    if (!group.node) {
+      group.node = box.node;
+    }
+    return group;
+  }
+  setObjectNode(group, getSourceNode(box.node));
+  return group;
+}
+
+// Replace the laid out node of an error with the caller's and add its path from the root
+// The path follows the caller's tree, so indexes are those of its items, cells or layers
+function annotateNodePath(error: GroupFactoryError, root: Node): void {
+  // The path found runs from the node up to the root
+  const nodes = error.node && findNodePath(root, getSourceNode(error.node))?.reverse();
+  if (!nodes) {
+    return;
+  }
+  error.node = nodes[nodes.length - 1];
+  error.path = nodes.map(
+    (node, depth): NodePathSegment => ({
+      kind: node.kind,
+      tag: node.tag,
+      index: depth > 0 ? getChildNodes(nodes[depth - 1]).indexOf(node) : undefined,
+    })
+  );
+}
+
+function createGroupForKind(
+  context: GroupFactoryContext,
+  box: LayoutBox
+): THREE.Group | GroupFactoryError {
+  const { node } = box;
   if (isTextNode(node)) {
-    return createTextNodeGroup(context, node);
+    return createTextNodeGroup(context, { ...box, node });
   }
   if (isContainerNode(node)) {
-    return createContainerNodeGroup(context, node);
+    return createContainerNodeGroup(context, { ...box, node });
   }
   if (isHorizontalLayoutNode(node)) {
-    return createHorizontalLayoutNodeGroup(context, node);
+    return createHorizontalLayoutNodeGroup(context, { ...box, node });
   }
   if (isVerticalLayoutNode(node)) {
-    return createVerticalLayoutNodeGroup(context, node);
+    return createVerticalLayoutNodeGroup(context, { ...box, node });
+  }
+  if (isGridLayoutNode(node)) {
+    return createGridLayoutNodeGroup(context, { ...box, node });
+  }
+  if (isImageNode(node)) {
+    return createImageNodeGroup(context, { ...box, node });
+  }
+  if (isConnectorNode(node)) {
+    return createConnectorNodeGroup(context, { ...box, node });
+  }
+  if (isOverlayNode(node)) {
+    return createOverlayNodeGroup(context, { ...box, node });
+  }
+  if (isScrollNode(node)) {
+    return createScrollNodeGroup(context, { ...box, node });
   }
   return createUnsupportedNodeTypeError(node);
 }
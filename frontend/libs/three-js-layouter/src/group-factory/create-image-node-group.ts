@@ -0,0 +1,128 @@
+import type { LayoutBox, Size } from '@kuumu/layouter/layout';
+import type { ImageNode } from '@kuumu/layouter/node';
+import { DEFAULT_IMAGE_NODE_STYLE, type ImageFit } from '@kuumu/layouter/style';
+import * as THREE from 'three';
+import type { GroupFactoryContext } from './context';
+import {
+  createImageLoadError,
+  type GroupFactoryError,
+  isGroupFactoryError,
+  reportGroupFactoryError,
+} from './error';
+import { getLoadedImageTexture, loadImageTexture, releaseImageTexture } from './load-image-texture';
+import { getSourceNode } from './resolve-node-styles';
+import { createLayoutGroup, toLocalPosition } from './shared-layout-utilities';
+
+export type ImageMesh = THREE.Mesh<THREE.PlaneGeometry, THREE.MeshBasicMaterial>;
+
+// Create visual representation of ImageNode
+// Background, border and shadow are drawn like a container; the picture fills the content box
+export function createImageNodeGroup(
+  context: GroupFactoryContext,
+  box: LayoutBox<ImageNode>
+): THREE.Group | GroupFactoryError {
+  const group = createLayoutGroup(context, box);
+  if (isGroupFactoryError(group)) {
+    return group;
+  }
+  group.add(createImageMesh(context, box));
+  return group;
+}
+
+// Create the mesh of the picture, positioned at the center of the content box
+// Shows the placeholder color until the texture has loaded, unless it is already loaded
+export function createImageMesh(
+  context: GroupFactoryContext,
+  box: LayoutBox<ImageNode>
+): ImageMesh {
+  const { node, contentBox } = box;
+  const material = new THREE.MeshBasicMaterial({ transparent: true });
+  const mesh = new THREE.Mesh(
+    new THREE.PlaneGeometry(contentBox.width, contentBox.height),
+    material
+  );
+  mesh.position.copy(toLocalPosition(contentBox, box));
+  context.resources?.useImage(mesh, node.source);
+
+  const loaded = getLoadedImageTexture(node.source);
+  if (loaded) {
+    applyTexture(mesh, loaded, box);
+    return mesh;
+  }
+
+  updateImageMeshStyle(mesh, node);
+  // Callers match the node they passed in, not the copy their styles were resolved into
+  const source = getSourceNode(node) as ImageNode;
+  loadImageTexture(node.source).then(
+    (texture) => {
+      // The mesh may have been released while loading, e.g. by disposeGroup; its texture is then
+      // only kept when something else shows it
+      const { resources } = context;
+      if (resources && !resources.isUsingImage(mesh, node.source)) {
+        if (!resources.hasImageUsers(node.source)) {
+          releaseImageTexture(node.source);
+        }
+        return;
+      }
+      applyTexture(mesh, texture, box);
+      context.onImageLoad?.(source);
+    },
+    (cause) => {
+      const error = createImageLoadError(node.source, cause);
+      error.node = source;
+      reportGroupFactoryError(context, error);
+      context.onImageLoad?.(source, error);
+    }
+  );
+  return mesh;
+}
+
+// Apply the current opacity and placeholder color of a node to its picture mesh in place
+export function updateImageMeshStyle(mesh: ImageMesh, node: ImageNode): void {
+  const style = { ...DEFAULT_IMAGE_NODE_STYLE, ...node.style };
+  // The texture is drawn with its own colors once loaded
+  mesh.material.color.set(mesh.material.map ? 'white' : style.placeholderColor);
+  mesh.material.opacity = style.opacity;
+}
+
+function applyTexture(mesh: ImageMesh, texture: THREE.Texture, box: LayoutBox<ImageNode>): void {
+  const { node, contentBox } = box;
+  const image = texture.image as { width?: number; height?: number } | undefined;
+  // SVG images without a width and height report no natural size
+  const imageSize: Size =
+    image?.width && image.height
+      ? { width: image.width, height: image.height }
+      : (node.intrinsicSize ?? contentBox);
+  const fit = node.style?.fit ?? DEFAULT_IMAGE_NODE_STYLE.fit;
+
+  mesh.geometry.dispose();
+  mesh.geometry = createFittedGeometry(fit, imageSize, contentBox);
+  mesh.material.map = texture;
+  mesh.material.needsUpdate = true;
+  updateImageMeshStyle(mesh, node);
+}
+
+// Plane showing the image scaled into the box; 'cover' crops the texture instead of the plane
+function createFittedGeometry(fit: ImageFit, image: Size, box: Size): THREE.PlaneGeometry {
+  if (fit === 'fill' || image.width <= 0 || image.height <= 0) {
+    return new THREE.PlaneGeometry(box.width, box.height);
+  }
+  if (fit === 'contain') {
+    const scale = Math.min(box.width / image.width, box.height / image.height);
+    return new THREE.PlaneGeometry(image.width * scale, image.height * scale);
+  }
+
+  const scale = Math.max(box.width / image.width, box.height / image.height);
+  const visibleU = box.width / (image.width * scale);
+  const visibleV = box.height / (image.height * scale);
+  const geometry = new THREE.PlaneGeometry(box.width, box.height);
+  const uv = geometry.getAttribute('uv');
+  for (let index = 0; index < uv.count; index++) {
+    uv.setXY(
+      index,
+      0.5 + (uv.getX(index) - 0.5) * visibleU,
+      0.5 + (uv.getY(index) - 0.5) * visibleV
+    );
+  }
+  return geometry;
+}
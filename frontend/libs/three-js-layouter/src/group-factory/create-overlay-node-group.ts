@@ -0,0 +1,15 @@
+import type { LayoutBox } from '@kuumu/layouter/layout';
+import type { OverlayNode } from '@kuumu/layouter/node';
+import type * as THREE from 'three';
+import type { GroupFactoryContext } from './context';
+import type { GroupFactoryError } from './error';
+import { createLayoutGroup } from './shared-layout-utilities';
+
+// Create visual representation of OverlayNode
+// Layers are already positioned by the computed layout and are stacked in order
+export function createOverlayNodeGroup(
+  context: GroupFactoryContext,
+  box: LayoutBox<OverlayNode>
+): THREE.Group | GroupFactoryError {
+  return createLayoutGroup(context, box);
+}
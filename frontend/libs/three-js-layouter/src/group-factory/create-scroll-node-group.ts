@@ -0,0 +1,22 @@
+import type { LayoutBox } from '@kuumu/layouter/layout';
+import type { ScrollNode } from '@kuumu/layouter/node';
+import type * as THREE from 'three';
+import { applyClipRegions, updateClipRegion } from './clip-region';
+import type { GroupFactoryContext } from './context';
+import { type GroupFactoryError, isGroupFactoryError } from './error';
+import { createLayoutGroup } from './shared-layout-utilities';
+
+// Create visual representation of ScrollNode
+// The item is already shifted by the scroll offsets; whatever leaves the viewport is clipped
+// with clipping planes, which requires localClippingEnabled on the renderer
+export function createScrollNodeGroup(
+  context: GroupFactoryContext,
+  box: LayoutBox<ScrollNode>
+): THREE.Group | GroupFactoryError {
+  const group = createLayoutGroup(context, box);
+  if (!isGroupFactoryError(group)) {
+    updateClipRegion(group, box);
+    applyClipRegions(group);
+  }
+  return group;
+}
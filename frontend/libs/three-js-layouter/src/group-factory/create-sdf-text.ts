@@ -0,0 +1,193 @@
+import type { LayoutBox } from '@kuumu/layouter/layout';
+import { getTextSpanStyle, getTextSpans, type TextNode } from '@kuumu/layouter/node';
+import { DEFAULT_TEXT_NODE_STYLE } from '@kuumu/layouter/style';
+import * as THREE from 'three';
+import type { GroupFactoryContext } from './context';
+import { createWebGLTextCreationError, type GroupFactoryError } from './error';
+import type { FontWithTypedData } from './font-types';
+import { resolveFont } from './resolve-font';
+import {
+  getSdfGlyphAtlas,
+  SDF_GLYPH_SIZE,
+  type SdfGlyph,
+  type SdfGlyphAtlas,
+} from './sdf-glyph-atlas';
+import { setTextSpanRanges, type TextSpanRange } from './text-mesh-style';
+
+const SDF_VERTEX_SHADER = /* glsl */ `
+  attribute vec4 glyphRect;
+  attribute vec3 glyphColor;
+  uniform vec2 atlasSize;
+  varying vec2 vUv;
+  varying vec3 vColor;
+  #include <clipping_planes_pars_vertex>
+
+  void main() {
+    vUv = (glyphRect.xy + uv * glyphRect.zw) / atlasSize;
+    vColor = glyphColor;
+    vec4 mvPosition = modelViewMatrix * instanceMatrix * vec4(position, 1.0);
+    gl_Position = projectionMatrix * mvPosition;
+    #include <clipping_planes_vertex>
+  }
+`;
+
+const SDF_FRAGMENT_SHADER = /* glsl */ `
+  uniform sampler2D atlas;
+  uniform float opacity;
+  varying vec2 vUv;
+  varying vec3 vColor;
+  #include <clipping_planes_pars_fragment>
+
+  void main() {
+    #include <clipping_planes_fragment>
+    float distance = texture2D(atlas, vUv).r;
+    // Screen-space derivative keeps the edge one pixel wide at every zoom level
+    float width = max(fwidth(distance), 1e-4);
+    float alpha = smoothstep(0.5 - width, 0.5 + width, distance);
+    if (alpha <= 0.0) {
+      discard;
+    }
+    gl_FragColor = vec4(vColor, alpha * opacity);
+  }
+`;
+
+// Quad placed in the text mesh, in coordinates relative to the text box center (y-up)
+interface GlyphQuad {
+  glyph: SdfGlyph;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  span: number;
+}
+
+// Create an instanced quad mesh drawing every glyph of a laid-out text node from an SDF atlas
+// The mesh is positioned relative to the center of the text box, which is the group origin
+// Each run is drawn with the font of its span, which layout measured it with; glyphs of every font
+// share one atlas, so the whole node is still a single draw call
+export function createSdfText(
+  context: GroupFactoryContext,
+  box: LayoutBox<TextNode>
+): THREE.InstancedMesh | GroupFactoryError {
+  const node = box.node;
+  const spans = getTextSpans(node);
+  const centerX = box.x + box.width / 2;
+  const centerY = box.y + box.height / 2;
+
+  try {
+    const atlas = getSdfGlyphAtlas();
+    const quads: GlyphQuad[] = [];
+
+    for (const line of box.lines ?? []) {
+      // Layout space is y-down while the scene is y-up
+      const baselineY = -(line.baseline - centerY);
+      for (const run of line.runs) {
+        const style = getTextSpanStyle(node, spans[run.span]);
+        const font = resolveFont(context, style);
+        const fontData = (font as unknown as FontWithTypedData).data;
+        const fontSize = style.fontSize ?? DEFAULT_TEXT_NODE_STYLE.fontSize;
+        const scale = fontSize / SDF_GLYPH_SIZE;
+        const advanceScale = fontSize / fontData.resolution;
+
+        let penX = run.x - centerX;
+        for (const char of Array.from(run.text)) {
+          const glyph = atlas.getGlyph(font, char);
+          if (glyph) {
+            quads.push({
+              glyph,
+              x: penX + glyph.offsetX * scale,
+              y: baselineY + glyph.offsetY * scale,
+              width: glyph.width * scale,
+              height: glyph.height * scale,
+              span: run.span,
+            });
+          }
+          const advance = fontData.glyphs[char] ?? fontData.glyphs['?'];
+          penX += (advance?.ha ?? 0) * advanceScale;
+        }
+
+        if (style.underline ?? DEFAULT_TEXT_NODE_STYLE.underline) {
+          const position = fontData.underlinePosition
+            ? fontData.underlinePosition * advanceScale
+            : -fontSize * 0.1;
+          const thickness = fontData.underlineThickness
+            ? fontData.underlineThickness * advanceScale
+            : fontSize * 0.05;
+          quads.push({
+            glyph: atlas.solid,
+            x: run.x - centerX,
+            y: baselineY + position - thickness,
+            width: run.width,
+            height: thickness,
+            span: run.span,
+          });
+        }
+      }
+    }
+
+    const opacity = node.style?.opacity ?? DEFAULT_TEXT_NODE_STYLE.opacity;
+    const mesh = createGlyphMesh(atlas, quads, opacity);
+    setTextSpanRanges(mesh, node, 'glyphColor', toSpanRanges(quads));
+    return mesh;
+  } catch (error) {
+    return createWebGLTextCreationError(error);
+  }
+}
+
+function createGlyphMesh(
+  atlas: SdfGlyphAtlas,
+  quads: GlyphQuad[],
+  opacity: number
+): THREE.InstancedMesh {
+  // Unit quad with its origin at the bottom-left corner, scaled per instance
+  const geometry = new THREE.PlaneGeometry(1, 1);
+  geometry.translate(0.5, 0.5, 0);
+
+  const rects = new Float32Array(quads.length * 4);
+  quads.forEach((quad, index) => {
+    rects.set([quad.glyph.x, quad.glyph.y, quad.glyph.width, quad.glyph.height], index * 4);
+  });
+  geometry.setAttribute('glyphRect', new THREE.InstancedBufferAttribute(rects, 4));
+  geometry.setAttribute(
+    'glyphColor',
+    new THREE.InstancedBufferAttribute(new Float32Array(quads.length * 3), 3)
+  );
+
+  const material = new THREE.ShaderMaterial({
+    vertexShader: SDF_VERTEX_SHADER,
+    fragmentShader: SDF_FRAGMENT_SHADER,
+    uniforms: {
+      atlas: { value: atlas.texture },
+      atlasSize: atlas.atlasSize,
+      opacity: { value: opacity },
+    },
+    transparent: true,
+    depthWrite: false,
+    // Lets scroll nodes clip the glyphs
+    clipping: true,
+  });
+
+  const mesh = new THREE.InstancedMesh(geometry, material, quads.length);
+  const matrix = new THREE.Matrix4();
+  quads.forEach((quad, index) => {
+    matrix.makeScale(quad.width, quad.height, 1).setPosition(quad.x, quad.y, 0);
+    mesh.setMatrixAt(index, matrix);
+  });
+  mesh.instanceMatrix.needsUpdate = true;
+  mesh.computeBoundingSphere();
+  return mesh;
+}
+
+// Group consecutive quads of the same span, whose instance colors are filled per span
+function toSpanRanges(quads: GlyphQuad[]): TextSpanRange[] {
+  const ranges: TextSpanRange[] = [];
+  quads.forEach((quad, index) => {
+    const last = ranges[ranges.length - 1];
+    if (last && last.span === quad.span) {
+      last.count++;
+    } else {
+      ranges.push({ span: quad.span, start: index, count: 1 });
+    }
+  });
+  return ranges;
+}
@@ -1,66 +1,128 @@
-import { DEFAULT_TEXT_NODE_STYLE, type TextNodeStyle } from '@kuumu/layouter/style';
+import type { LayoutBox } from '@kuumu/layouter/layout';
+import { getTextSpanStyle, getTextSpans, type TextNode } from '@kuumu/layouter/node';
+import { DEFAULT_TEXT_NODE_STYLE } from '@kuumu/layouter/style';
 import * as THREE from 'three';
 import { TextGeometry } from 'three/examples/jsm/geometries/TextGeometry.js';
 import type { Font } from 'three/examples/jsm/loaders/FontLoader.js';
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
 import type { GroupFactoryContext } from './context';
 import { createWebGLTextCreationError, type GroupFactoryError } from './error';
 import type { FontWithTypedData } from './font-types';
+import { resolveFont } from './resolve-font';
+import { setTextSpanRanges, type TextSpanRange } from './text-mesh-style';
 
+// Number of points used to approximate each glyph curve
+export const TEXT_CURVE_SEGMENTS = 12;
+
+// Create a single mesh holding every line of a laid-out text node
+// The mesh is positioned relative to the center of the text box, which is the group origin
+// Span colors are stored as vertex colors so that rich text still needs only one material
 export function createWebGLText(
   context: GroupFactoryContext,
-  text: string,
-  style?: TextNodeStyle
+  box: LayoutBox<TextNode>
 ): THREE.Mesh | GroupFactoryError {
-  const { font } = context;
-  const fontSize = style?.fontSize ?? DEFAULT_TEXT_NODE_STYLE.fontSize;
-  const color = style?.color ?? DEFAULT_TEXT_NODE_STYLE.color;
+  const node = box.node;
+  const spans = getTextSpans(node);
+  const centerX = box.x + box.width / 2;
+  const centerY = box.y + box.height / 2;
 
   try {
-    const textGeometry = new TextGeometry(text, {
-      font: font,
-      size: fontSize,
-      depth: 0,
-      curveSegments: 12,
-      bevelEnabled: false,
-      bevelThickness: 0,
-      bevelSize: 0,
-      bevelOffset: 0,
-      bevelSegments: 0,
-    });
-    const opacity = style?.opacity ?? DEFAULT_TEXT_NODE_STYLE.opacity;
+    const spanRanges: TextSpanRange[] = [];
+    let vertexCount = 0;
+    const runGeometries = (box.lines ?? []).flatMap((line) =>
+      line.runs.flatMap((run) => {
+        const style = getTextSpanStyle(node, spans[run.span]);
+        const font = resolveFont(context, style);
+        const fontSize = style.fontSize ?? DEFAULT_TEXT_NODE_STYLE.fontSize;
+
+        const geometries = [createRunGeometry(font, run.text, fontSize)];
+        if (style.underline ?? DEFAULT_TEXT_NODE_STYLE.underline) {
+          geometries.push(createUnderlineGeometry(font, fontSize, run.width));
+        }
+        return geometries.map((geometry) => {
+          // Layout space is y-down while the scene is y-up
+          geometry.translate(run.x - centerX, -(line.baseline - centerY), 0);
+          const count = addColorAttribute(geometry);
+          spanRanges.push({ span: run.span, start: vertexCount, count });
+          vertexCount += count;
+          return geometry;
+        });
+      })
+    );
+    const textGeometry = mergeRunGeometries(runGeometries);
+
+    const opacity = node.style?.opacity ?? DEFAULT_TEXT_NODE_STYLE.opacity;
     const transparent = opacity < 1.0;
     const textMaterial = new THREE.MeshBasicMaterial({
-      color,
+      vertexColors: true,
       transparent,
       opacity,
     });
-    const webglText = new THREE.Mesh(textGeometry, textMaterial);
-
-    // Center the text using font metrics for proper baseline alignment
-    const { centerX, baselineY } = computeTextSizeWithBaseline(webglText, font, fontSize);
-    webglText.position.set(-centerX, -baselineY, 0);
-
-    return webglText;
+    const mesh = new THREE.Mesh(textGeometry, textMaterial);
+    setTextSpanRanges(mesh, node, 'color', spanRanges);
+    return mesh;
   } catch (error) {
     return createWebGLTextCreationError(error);
   }
 }
 
-function computeTextSizeWithBaseline(webglText: THREE.Mesh, font: Font, fontSize: number) {
-  webglText.geometry.computeBoundingBox();
-  const bbox = webglText.geometry.boundingBox!;
+function createRunGeometry(font: Font, text: string, fontSize: number): THREE.BufferGeometry {
+  return new TextGeometry(text, {
+    font: font,
+    size: fontSize,
+    depth: 0,
+    curveSegments: TEXT_CURVE_SEGMENTS,
+    bevelEnabled: false,
+    bevelThickness: 0,
+    bevelSize: 0,
+    bevelOffset: 0,
+    bevelSegments: 0,
+  });
+}
+
+// Thin quad below the baseline spanning the run's advance, placed with the font's underline metrics
+function createUnderlineGeometry(
+  font: Font,
+  fontSize: number,
+  width: number
+): THREE.BufferGeometry {
+  const fontData = (font as unknown as FontWithTypedData).data;
+  const scale = fontSize / (fontData.resolution || 1000);
+  const position = fontData.underlinePosition
+    ? fontData.underlinePosition * scale
+    : -fontSize * 0.1;
+  const thickness = fontData.underlineThickness
+    ? fontData.underlineThickness * scale
+    : fontSize * 0.05;
 
-  const centerX = (bbox.max.x + bbox.min.x) / 2;
-  const centerY = (bbox.max.y + bbox.min.y) / 2;
+  // TextGeometry is not indexed, so the quad must not be either for the geometries to merge
+  const geometry = new THREE.PlaneGeometry(width, thickness).toNonIndexed();
+  geometry.translate(width / 2, position - thickness / 2, 0);
+  return geometry;
+}
 
-  // Try to calculate baseline using font metrics
-  const baselineY = calculateVisualCenterBaseline(font, fontSize);
-  if (baselineY !== null) {
-    return { centerX, centerY, baselineY };
-  }
+// Add a color attribute, filled per span once the geometries are merged
+function addColorAttribute(geometry: THREE.BufferGeometry): number {
+  const count = geometry.getAttribute('position').count;
+  geometry.setAttribute('color', new THREE.BufferAttribute(new Float32Array(count * 3), 3));
+  return count;
+}
 
-  // Fallback to geometric center if font metrics unavailable
-  return { centerX, centerY, baselineY: centerY };
+function mergeRunGeometries(geometries: THREE.BufferGeometry[]): THREE.BufferGeometry {
+  if (geometries.length === 0) {
+    return new THREE.BufferGeometry();
+  }
+  if (geometries.length === 1) {
+    return geometries[0];
+  }
+  const merged = mergeGeometries(geometries);
+  for (const geometry of geometries) {
+    geometry.dispose();
+  }
+  if (!merged) {
+    throw new Error('Failed to merge text run geometries');
+  }
+  return merged;
 }
 
 /**
@@ -91,7 +153,7 @@ function computeTextSizeWithBaseline(webglText: THREE.Mesh, font: Font, fontSize
  * - Cap height ≈ 12.8 * 0.6 = 7.68px
  * - Visual center = 7.68 / 2 = 3.84px from baseline
  */
-function calculateVisualCenterBaseline(font: Font, fontSize: number): number | null {
+export function calculateVisualCenterBaseline(font: Font, fontSize: number): number | null {
   // WORKAROUND: Three.js types define Font.data as string, but runtime value is object
   // Using type assertion to access actual font metrics for proper text positioning
   const fontData = (font as unknown as FontWithTypedData).data;
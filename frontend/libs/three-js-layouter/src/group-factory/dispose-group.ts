@@ -0,0 +1,36 @@
+import * as THREE from 'three';
+import type { GroupFactoryContext } from './context';
+import { isSharedResource } from './group-resources';
+
+// Release everything created for a group and its descendants, and remove it from its parent
+// Geometries and materials are disposed unless they are shared between groups, like the materials
+// of background batches; textures all come from caches, so the SDF glyph atlas is kept for the
+// next text, and image textures are only released through the resources of the context the
+// group was built with, once no other group shows them
+export function disposeGroup(group: THREE.Object3D, context?: GroupFactoryContext): void {
+  group.removeFromParent();
+  group.traverse((object) => {
+    context?.resources?.release(object);
+    if (
+      !(object instanceof THREE.Mesh) &&
+      !(object instanceof THREE.Line) &&
+      !(object instanceof THREE.Points)
+    ) {
+      return;
+    }
+    if (!isSharedResource(object.geometry)) {
+      object.geometry.dispose();
+    }
+    const materials: THREE.Material[] = Array.isArray(object.material)
+      ? object.material
+      : [object.material];
+    for (const material of materials) {
+      if (!isSharedResource(material)) {
+        material.dispose();
+      }
+    }
+    if (object instanceof THREE.InstancedMesh) {
+      object.dispose();
+    }
+  });
+}
@@ -1,7 +1,30 @@
+import type { Node } from '@kuumu/layouter/node';
+import type { GroupFactoryContext } from './context';
+
 export interface GroupFactoryError {
-  kind: 'WebGLTextCreationError' | 'UnsupportedNodeType';
+  kind:
+    | 'WebGLTextCreationError'
+    | 'UnsupportedNodeType'
+    | 'LayoutComputationError'
+    | 'ImageLoadError'
+    | 'InvalidStyleValue'
+    | 'MissingGlyph'
+    | 'ZeroSizeGeometry'
+    | 'StrictBuildError';
   message: string;
   cause?: unknown;
+  // Node whose group the error happened in, when known
+  node?: Node;
+  // Where that node sits in the tree, from the root down; set by buildGroup
+  path?: NodePathSegment[];
+}
+
+// One node on the way from the root to the node of an error
+export interface NodePathSegment {
+  kind: Node['kind'];
+  tag?: string;
+  // Position among the items, cells or layers of the previous node; the root has none
+  index?: number;
 }
 
 export function createWebGLTextCreationError(cause?: unknown): GroupFactoryError {
@@ -19,6 +42,98 @@ export function createUnsupportedNodeTypeError(node: unknown): GroupFactoryError
   };
 }
 
+export function createLayoutComputationError(cause?: unknown): GroupFactoryError {
+  return {
+    kind: 'LayoutComputationError',
+    message: 'Failed to compute layout',
+    cause,
+  };
+}
+
+// Data URIs are cut short so that the message stays readable
+export function createImageLoadError(source: string, cause?: unknown): GroupFactoryError {
+  const shown =
+    source.startsWith('data:') && source.length > 48 ? `${source.slice(0, 48)}...` : source;
+  return {
+    kind: 'ImageLoadError',
+    message: `Failed to load image: ${shown}`,
+    cause,
+  };
+}
+
+// Style values that can not be drawn, such as a negative width or an unknown color
+export function createInvalidStyleValueError(
+  node: Node,
+  property: string,
+  value: unknown
+): GroupFactoryError {
+  return {
+    kind: 'InvalidStyleValue',
+    message: `Invalid style value for ${property}: ${JSON.stringify(value)}`,
+    node,
+  };
+}
+
+// Characters the font has no glyph for, which are drawn as '?'
+export function createMissingGlyphError(node: Node, characters: string[]): GroupFactoryError {
+  return {
+    kind: 'MissingGlyph',
+    message: `Font has no glyph for ${characters.map((char) => JSON.stringify(char)).join(', ')}`,
+    node,
+  };
+}
+
+// Boxes without area have nothing to draw their background on
+export function createZeroSizeGeometryError(
+  node: Node,
+  width: number,
+  height: number
+): GroupFactoryError {
+  return {
+    kind: 'ZeroSizeGeometry',
+    message: `Box of ${node.kind} node has no area: ${width} x ${height}`,
+    node,
+  };
+}
+
+// Strict builds fail as a whole when anything went wrong; the errors are kept as the cause
+export function createStrictBuildError(errors: GroupFactoryError[]): GroupFactoryError {
+  return {
+    kind: 'StrictBuildError',
+    message: `Group build failed with ${errors.length} error(s)`,
+    cause: errors,
+  };
+}
+
+// Path of a node as text, e.g. `vertical[page] > 2:grid[sheet] > 5:text`
+export function formatNodePath(path: NodePathSegment[]): string {
+  return path
+    .map((segment) => {
+      const index = segment.index === undefined ? '' : `${segment.index}:`;
+      const tag = segment.tag === undefined ? '' : `[${segment.tag}]`;
+      return `${index}${segment.kind}${tag}`;
+    })
+    .join(' > ');
+}
+
+// One line per error for logs, with the path of its node when known
+export function formatGroupFactoryError(error: GroupFactoryError): string {
+  const where = error.path ? ` at ${formatNodePath(error.path)}` : '';
+  return `${error.kind}${where}: ${error.message}`;
+}
+
+// Hand an error that did not stop the build to the context, or log it when nothing listens
+export function reportGroupFactoryError(
+  context: GroupFactoryContext,
+  error: GroupFactoryError
+): void {
+  if (context.onError) {
+    context.onError(error);
+  } else {
+    console.error('Group factory error:', error);
+  }
+}
+
 export function isGroupFactoryError(value: unknown): value is GroupFactoryError {
   return typeof value === 'object' && value !== null && 'kind' in value && 'message' in value;
 }
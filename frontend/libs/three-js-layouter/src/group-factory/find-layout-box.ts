@@ -0,0 +1,28 @@
+import type { LayoutBox } from '@kuumu/layouter/layout';
+import type { Node } from '@kuumu/layouter/node';
+import { getSourceNode } from './resolve-node-styles';
+
+// Box laid out for a node of the tree passed to createGroup or GroupReconciler.update
+// Trees rebuilt from scratch are followed like the reconciler follows them: when the node itself
+// is not in the layout, a node of the same kind with its id or tag stands in
+export function findLayoutBox(layout: LayoutBox, node: Node): LayoutBox | undefined {
+  const key = node.id ?? node.tag;
+  let sameKey: LayoutBox | undefined;
+  const visit = (box: LayoutBox): LayoutBox | undefined => {
+    const source = getSourceNode(box.node);
+    if (source === node) {
+      return box;
+    }
+    if (!sameKey && key !== undefined && source.kind === node.kind) {
+      sameKey = (source.id ?? source.tag) === key ? box : undefined;
+    }
+    for (const child of box.children) {
+      const found = visit(child);
+      if (found) {
+        return found;
+      }
+    }
+    return undefined;
+  };
+  return visit(layout) ?? sameKey;
+}
@@ -0,0 +1,222 @@
+import type { LayoutBox, Rect } from '@kuumu/layouter/layout';
+import {
+  type FocusDirection,
+  findDirectionalFocus,
+  findTabFocus,
+  isFocusable,
+  type Node,
+} from '@kuumu/layouter/node';
+import { px } from '@kuumu/layouter/scaling';
+import * as THREE from 'three';
+import type { GroupFactoryContext } from './context';
+import { findLayoutBox } from './find-layout-box';
+import type {
+  NodeEventDispatcher,
+  NodeEventSource,
+  NodePointerEvent,
+} from './node-event-dispatcher';
+import { clearOverlay, createOverlayRect } from './overlay-mesh';
+import { getSourceNode } from './resolve-node-styles';
+
+// Everything the focus manager needs to know about the scene, read whenever it is used
+export interface FocusManagerSource extends NodeEventSource {
+  // Clicking a focusable node focuses it
+  events: NodeEventDispatcher;
+  // Layout the root group was built from, e.g. GroupReconciler.layout
+  layout: () => LayoutBox | undefined;
+  // Context the root group was built with; the focus ring takes its color from the theme
+  context: () => GroupFactoryContext | undefined;
+  requestRender: () => void;
+}
+
+// focus and blur are sent when focus moves to or away from a node; activate when Enter or Space
+// is pressed on the focused node
+export type NodeFocusEventType = 'focus' | 'blur' | 'activate';
+
+export interface NodeFocusEvent {
+  type: NodeFocusEventType;
+  node: Node;
+  // Extent of the node in world space, e.g. to bring it into view
+  bounds: THREE.Box3;
+}
+
+export type NodeFocusListener = (event: NodeFocusEvent) => void;
+
+const DEFAULT_FOCUS_COLOR = '#3390ff';
+
+const ARROW_DIRECTIONS: Record<string, FocusDirection> = {
+  ArrowUp: 'up',
+  ArrowDown: 'down',
+  ArrowLeft: 'left',
+  ArrowRight: 'right',
+};
+
+// Keyboard focus over the nodes of the shown tree
+// Tab and Shift+Tab follow tree order, the arrow keys move within vertical and horizontal stacks
+// and Escape clears focus; the focused node is outlined by a ring drawn over the root group
+// Keys typed into form fields are left alone, so focus does not move while text is being edited
+export class FocusManager {
+  // Focus ring, added to the root group while a node has focus
+  readonly group = new THREE.Group();
+  private source: FocusManagerSource;
+  private focused?: Node;
+  private listeners: { type: NodeFocusEventType; listener: NodeFocusListener }[] = [];
+  private removeClickListener: () => void;
+  private keyListener = (event: KeyboardEvent) => this.handleKeyDown(event);
+
+  constructor(source: FocusManagerSource) {
+    this.source = source;
+    this.removeClickListener = source.events.addEventListener('click', (event) =>
+      this.handleClick(event)
+    );
+    source.element.ownerDocument.addEventListener('keydown', this.keyListener);
+  }
+
+  // Node that has focus, if any
+  get node(): Node | undefined {
+    return this.focused;
+  }
+
+  // Move focus to a node of the tree, or clear it
+  focus(node: Node | undefined): void {
+    const previous = this.focused;
+    if (previous === node) {
+      return;
+    }
+    this.focused = node;
+    if (previous) {
+      this.emit('blur', previous);
+    }
+    this.update();
+    if (this.focused) {
+      this.emit('focus', this.focused);
+    }
+  }
+
+  // Listen to focus changes and activations of every node
+  // Returns a function that removes the listener
+  addEventListener(type: NodeFocusEventType, listener: NodeFocusListener): () => void {
+    const entry = { type, listener };
+    this.listeners.push(entry);
+    return () => {
+      this.listeners = this.listeners.filter((other) => other !== entry);
+    };
+  }
+
+  // Draw the focus ring again for the current layout; call after the tree was laid out again
+  // Rebuilt trees are followed by the id or tag of the focused node, and focus is dropped when
+  // the node is gone
+  update(): void {
+    clearOverlay(this.group);
+    const root = this.source.root();
+    const layout = this.source.layout();
+    const box = this.focused && layout ? findLayoutBox(layout, this.focused) : undefined;
+    if (!root || !layout || !box) {
+      this.focused = undefined;
+      this.group.removeFromParent();
+      this.source.requestRender();
+      return;
+    }
+    this.focused = getSourceNode(box.node);
+
+    const color = this.source.context()?.theme?.colors.accent ?? DEFAULT_FOCUS_COLOR;
+    for (const rect of ringRects(box)) {
+      this.group.add(createOverlayRect(rect, layout, color));
+    }
+    if (this.group.parent !== root) {
+      root.add(this.group);
+    }
+    this.source.requestRender();
+  }
+
+  dispose(): void {
+    this.removeClickListener();
+    this.source.element.ownerDocument.removeEventListener('keydown', this.keyListener);
+    clearOverlay(this.group);
+    this.group.removeFromParent();
+    this.listeners = [];
+    this.focused = undefined;
+  }
+
+  // Clicks focus the innermost focusable node under the pointer, or clear focus
+  private handleClick(event: NodePointerEvent): void {
+    this.focus(event.path.find(isFocusable));
+  }
+
+  private handleKeyDown(event: KeyboardEvent): void {
+    const layout = this.source.layout();
+    if (event.defaultPrevented || isTextField(event.target) || !layout) {
+      return;
+    }
+    // Navigation runs over the laid out tree, whose nodes carry the final styles
+    const current = this.focused && findLayoutBox(layout, this.focused)?.node;
+    const direction = ARROW_DIRECTIONS[event.key];
+
+    let next: Node | undefined;
+    if (event.key === 'Tab') {
+      next = findTabFocus(layout.node, current, event.shiftKey ? -1 : 1);
+    } else if (direction && current) {
+      next = findDirectionalFocus(layout.node, current, direction);
+    } else if ((event.key === 'Enter' || event.key === ' ') && this.focused) {
+      event.preventDefault();
+      this.emit('activate', this.focused);
+      return;
+    } else if (event.key === 'Escape' && this.focused) {
+      this.focus(undefined);
+      return;
+    }
+    if (next) {
+      event.preventDefault();
+      this.focus(getSourceNode(next));
+    }
+  }
+
+  private emit(type: NodeFocusEventType, node: Node): void {
+    const event: NodeFocusEvent = { type, node, bounds: this.worldBounds(node) };
+    for (const entry of this.listeners) {
+      if (entry.type === type) {
+        entry.listener(event);
+      }
+    }
+  }
+
+  private worldBounds(node: Node): THREE.Box3 {
+    const root = this.source.root();
+    const layout = this.source.layout();
+    const box = layout && findLayoutBox(layout, node);
+    if (!root || !layout || !box) {
+      return new THREE.Box3();
+    }
+    // Corners relative to the root box center, y-up like the groups
+    const centerX = layout.x + layout.width / 2;
+    const centerY = layout.y + layout.height / 2;
+    const corners = [
+      new THREE.Vector3(box.x - centerX, centerY - box.y, 0),
+      new THREE.Vector3(box.x + box.width - centerX, centerY - box.y - box.height, 0),
+    ];
+    return new THREE.Box3().setFromPoints(corners.map((corner) => root.localToWorld(corner)));
+  }
+}
+
+// Four strips around the box, just outside its border
+function ringRects(box: LayoutBox): Rect[] {
+  const thickness = px(2);
+  const gap = px(2);
+  const x = box.x - gap - thickness;
+  const y = box.y - gap - thickness;
+  const width = box.width + 2 * (gap + thickness);
+  const height = box.height + 2 * (gap + thickness);
+  return [
+    { x, y, width, height: thickness },
+    { x, y: y + height - thickness, width, height: thickness },
+    { x, y, width: thickness, height },
+    { x: x + width - thickness, y, width: thickness, height },
+  ];
+}
+
+function isTextField(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+  );
+}
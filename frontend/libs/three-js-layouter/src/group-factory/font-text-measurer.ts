@@ -0,0 +1,56 @@
+import type { TextMeasurement, TextMeasurer } from '@kuumu/layouter/layout';
+import { DEFAULT_TEXT_NODE_STYLE, type TextNodeStyle } from '@kuumu/layouter/style';
+import * as THREE from 'three';
+import type { Font } from 'three/examples/jsm/loaders/FontLoader.js';
+import type { GroupFactoryContext } from './context';
+import { calculateVisualCenterBaseline, TEXT_CURVE_SEGMENTS } from './create-webgl-text';
+import type { FontWithTypedData } from './font-types';
+import { resolveFont } from './resolve-font';
+
+// Create a TextMeasurer backed by font outlines
+// Measures the same extent TextGeometry would produce, without triangulating glyphs
+export function createFontTextMeasurer(context: GroupFactoryContext): TextMeasurer {
+  return {
+    measureText: (text, style) => measureText(resolveFont(context, style), text, style),
+    measureAdvance: (text, style) => measureAdvance(resolveFont(context, style), text, style),
+  };
+}
+
+function measureText(font: Font, text: string, style?: TextNodeStyle): TextMeasurement {
+  const fontSize = style?.fontSize ?? DEFAULT_TEXT_NODE_STYLE.fontSize;
+  const shapes = font.generateShapes(text, fontSize);
+
+  const bounds = new THREE.Box2();
+  for (const shape of shapes) {
+    const { shape: outline } = shape.extractPoints(TEXT_CURVE_SEGMENTS);
+    for (const point of outline) {
+      bounds.expandByPoint(point);
+    }
+  }
+
+  // Whitespace-only or empty strings have no outline
+  if (bounds.isEmpty()) {
+    return { width: 0, height: 0 };
+  }
+
+  // Same visual center the rendered mesh is positioned with, so baselines line up
+  const size = bounds.getSize(new THREE.Vector2());
+  const visualCenter =
+    calculateVisualCenterBaseline(font, fontSize) ?? (bounds.max.y + bounds.min.y) / 2;
+  return { width: size.x, height: size.y, visualCenter };
+}
+
+// Sum of glyph advances, matching how Font.generateShapes moves the pen along a line
+// Characters missing from the font are drawn as '?', so they advance by its width
+function measureAdvance(font: Font, text: string, style?: TextNodeStyle): number {
+  const fontSize = style?.fontSize ?? DEFAULT_TEXT_NODE_STYLE.fontSize;
+  const fontData = (font as unknown as FontWithTypedData).data;
+  const scale = fontSize / fontData.resolution;
+
+  let advance = 0;
+  for (const char of Array.from(text)) {
+    const glyph = fontData.glyphs[char] ?? fontData.glyphs['?'];
+    advance += (glyph?.ha ?? 0) * scale;
+  }
+  return advance;
+}
@@ -31,6 +31,12 @@ export interface FontData {
     yMin: number;
   };
 
+  /** Distance of the underline below the baseline (negative, in font units) */
+  underlinePosition?: number;
+
+  /** Stroke thickness of the underline (in font units) */
+  underlineThickness?: number;
+
   /** Alternative ascender value (font-specific) */
   ascender?: number;
 
@@ -38,7 +44,15 @@ export interface FontData {
   familyName?: string;
 
   /** Character glyph definitions with outline data */
-  glyphs: Record<string, unknown>;
+  glyphs: Record<string, FontGlyph | undefined>;
+}
+
+/**
+ * Single glyph entry of the font data.
+ */
+export interface FontGlyph {
+  /** Horizontal advance - how far the pen moves after drawing this glyph (in font units) */
+  ha: number;
 }
 
 /**
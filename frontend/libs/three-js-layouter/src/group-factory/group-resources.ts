@@ -0,0 +1,57 @@
+import type * as THREE from 'three';
+import { releaseImageTexture } from './load-image-texture';
+
+// Geometries and materials used by many groups at once, which disposing one group must not release
+const sharedResources = new WeakSet<THREE.BufferGeometry | THREE.Material>();
+
+export function markSharedResource(resource: THREE.BufferGeometry | THREE.Material): void {
+  sharedResources.add(resource);
+}
+
+export function isSharedResource(resource: THREE.BufferGeometry | THREE.Material): boolean {
+  return sharedResources.has(resource);
+}
+
+// Tracks which cached textures the objects built with a context use
+// Image textures are cached by source and shared by every node showing it; once disposeGroup
+// released the last object showing a source, its texture is dropped from the cache and disposed
+export class GroupResources {
+  private imageSources = new WeakMap<THREE.Object3D, string>();
+  private imageUsers = new Map<string, number>();
+
+  // Record that an object shows the image of a source
+  useImage(object: THREE.Object3D, source: string): void {
+    if (this.imageSources.get(object) === source) {
+      return;
+    }
+    this.release(object);
+    this.imageSources.set(object, source);
+    this.imageUsers.set(source, (this.imageUsers.get(source) ?? 0) + 1);
+  }
+
+  // Whether an object still shows the image of a source, i.e. was not released since useImage
+  isUsingImage(object: THREE.Object3D, source: string): boolean {
+    return this.imageSources.get(object) === source;
+  }
+
+  // Whether any object still shows the image of a source
+  hasImageUsers(source: string): boolean {
+    return this.imageUsers.has(source);
+  }
+
+  // Forget what an object used, releasing textures nothing else uses
+  release(object: THREE.Object3D): void {
+    const source = this.imageSources.get(object);
+    if (source === undefined) {
+      return;
+    }
+    this.imageSources.delete(object);
+    const users = (this.imageUsers.get(source) ?? 1) - 1;
+    if (users > 0) {
+      this.imageUsers.set(source, users);
+      return;
+    }
+    this.imageUsers.delete(source);
+    releaseImageTexture(source);
+  }
+}
@@ -0,0 +1,68 @@
+import type { Node } from '@kuumu/layouter/node';
+import * as THREE from 'three';
+
+// Node drawn by each group built for a Node tree
+const objectNodes = new WeakMap<THREE.Object3D, Node>();
+
+// Result of a hit test: the deepest node under the ray and the nodes containing it
+export interface NodeHit {
+  node: Node;
+  // The hit node followed by its ancestors, up to the root of the tree
+  path: Node[];
+  // Where the ray meets the node, in world space
+  point: THREE.Vector3;
+}
+
+export function setObjectNode(object: THREE.Object3D, node: Node): void {
+  objectNodes.set(object, node);
+}
+
+// Node drawn by an object, or by the nearest of its ancestors that draws one
+export function getObjectNode(object: THREE.Object3D): Node | undefined {
+  for (let current: THREE.Object3D | null = object; current; current = current.parent) {
+    const node = objectNodes.get(current);
+    if (node) {
+      return node;
+    }
+  }
+  return undefined;
+}
+
+// Find the node drawn nearest to the ray origin below root
+// Parts of meshes cut away by clipping planes, such as content scrolled out of a scroll node,
+// are not hit
+export function hitTest(root: THREE.Object3D, raycaster: THREE.Raycaster): NodeHit | undefined {
+  for (const intersection of raycaster.intersectObject(root, true)) {
+    if (isClipped(intersection.object, intersection.point)) {
+      continue;
+    }
+    const path = nodePath(intersection.object);
+    if (path.length > 0) {
+      return { node: path[0], path, point: intersection.point };
+    }
+  }
+  return undefined;
+}
+
+function nodePath(object: THREE.Object3D): Node[] {
+  const path: Node[] = [];
+  for (let current: THREE.Object3D | null = object; current; current = current.parent) {
+    const node = objectNodes.get(current);
+    if (node) {
+      path.push(node);
+    }
+  }
+  return path;
+}
+
+function isClipped(object: THREE.Object3D, point: THREE.Vector3): boolean {
+  if (!(object instanceof THREE.Mesh)) {
+    return false;
+  }
+  const materials: THREE.Material[] = Array.isArray(object.material)
+    ? object.material
+    : [object.material];
+  return materials.some((material) =>
+    (material.clippingPlanes ?? []).some((plane) => plane.distanceToPoint(point) < 0)
+  );
+}
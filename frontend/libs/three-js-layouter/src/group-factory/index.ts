@@ -1,4 +1,16 @@
+export * from './background-batch';
 export * from './context';
 export * from './create-group';
+export * from './dispose-group';
 export * from './error';
+export * from './find-layout-box';
+export * from './focus-manager';
+export * from './font-text-measurer';
+export * from './group-resources';
+export * from './hit-test';
+export * from './layout-transition';
 export * from './load-font';
+export * from './node-event-dispatcher';
+export * from './reconciler';
+export * from './resolve-font';
+export * from './text-editor';
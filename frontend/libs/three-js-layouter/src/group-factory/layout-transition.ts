@@ -0,0 +1,192 @@
+import * as THREE from 'three';
+import { isSharedResource } from './group-resources';
+
+export type EasingName = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out';
+
+// Maps the elapsed fraction of a transition to the fraction of the change applied
+export type Easing = EasingName | ((progress: number) => number);
+
+export interface TransitionOptions {
+  // Length of every transition in milliseconds
+  duration: number;
+  // Defaults to 'ease-in-out'
+  easing?: Easing;
+  // Called with true when transitions start running and with false once all of them finished,
+  // e.g. to render every frame only while something moves
+  onRunningChange?: (running: boolean) => void;
+}
+
+// Property of an object that at most one transition changes at a time
+type TweenProperty = 'position' | 'scale' | 'opacity';
+
+interface Tween {
+  target: THREE.Object3D;
+  property: TweenProperty;
+  startTime: number;
+  // Apply the eased progress, from 0 to 1
+  apply: (progress: number) => void;
+  // Called once after the last step, unless another tween of the same property replaced it
+  finish?: () => void;
+}
+
+const EASINGS: Record<EasingName, (progress: number) => number> = {
+  linear: (progress) => progress,
+  'ease-in': (progress) => progress ** 3,
+  'ease-out': (progress) => 1 - (1 - progress) ** 3,
+  'ease-in-out': (progress) =>
+    progress < 0.5 ? 4 * progress ** 3 : 1 - (-2 * progress + 2) ** 3 / 2,
+};
+
+// Runs tweens of scene objects on animation frames, all with the same duration and easing
+export class TransitionRunner {
+  private options: TransitionOptions;
+  private easing: (progress: number) => number;
+  private tweens: Tween[] = [];
+  private frameId: number | null = null;
+
+  constructor(options: TransitionOptions) {
+    this.options = options;
+    const easing = options.easing ?? 'ease-in-out';
+    this.easing = typeof easing === 'function' ? easing : EASINGS[easing];
+  }
+
+  // Move an object from one position to another, starting from wherever it is now
+  movePosition(target: THREE.Object3D, from: THREE.Vector3, to: THREE.Vector3): void {
+    this.add(target, 'position', (progress) => {
+      target.position.lerpVectors(from, to, progress);
+    });
+  }
+
+  // Scale an object from the given factors back to its natural size
+  restoreScale(target: THREE.Object3D, from: THREE.Vector3): void {
+    const to = new THREE.Vector3(1, 1, 1);
+    this.add(target, 'scale', (progress) => {
+      target.scale.lerpVectors(from, to, progress);
+    });
+  }
+
+  // Fade the materials of a mesh in from transparent, or out to transparent
+  // Opacities the mesh had when the fade started are restored when it finishes
+  // A shared material is swapped for a copy while fading, so the other meshes using it stay as
+  // they are
+  fade(mesh: THREE.Mesh, direction: 'in' | 'out', finish?: () => void): void {
+    const shared =
+      !Array.isArray(mesh.material) && isSharedResource(mesh.material) ? mesh.material : undefined;
+    const copy = shared?.clone();
+    if (copy) {
+      mesh.material = copy;
+    }
+    const materials = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+    const states = materials.map((material) => ({
+      material,
+      opacity: getOpacity(material),
+      transparent: material.transparent,
+    }));
+    for (const { material } of states) {
+      material.transparent = true;
+    }
+    this.add(
+      mesh,
+      'opacity',
+      (progress) => {
+        const factor = direction === 'in' ? progress : 1 - progress;
+        for (const { material, opacity } of states) {
+          setOpacity(material, opacity * factor);
+        }
+      },
+      () => {
+        for (const { material, opacity, transparent } of states) {
+          setOpacity(material, opacity);
+          material.transparent = transparent;
+        }
+        // A copy clipped meanwhile is kept, as the shared material has no planes
+        if (shared && copy && mesh.material === copy && !copy.clippingPlanes) {
+          mesh.material = shared;
+          copy.dispose();
+        }
+        finish?.();
+      }
+    );
+  }
+
+  // Jump every tween to its end
+  finishAll(): void {
+    const tweens = this.tweens;
+    this.tweens = [];
+    for (const tween of tweens) {
+      tween.apply(1);
+      tween.finish?.();
+    }
+    this.stop();
+  }
+
+  private add(
+    target: THREE.Object3D,
+    property: TweenProperty,
+    apply: Tween['apply'],
+    finish?: Tween['finish']
+  ): void {
+    // The replaced tween is dropped where it is, so the new one continues from there
+    this.tweens = this.tweens.filter(
+      (tween) => tween.target !== target || tween.property !== property
+    );
+    this.tweens.push({ target, property, startTime: performance.now(), apply, finish });
+    apply(0);
+    this.start();
+  }
+
+  private start(): void {
+    if (this.frameId !== null) {
+      return;
+    }
+    this.options.onRunningChange?.(true);
+    this.frameId = requestAnimationFrame(this.step);
+  }
+
+  private stop(): void {
+    if (this.frameId === null) {
+      return;
+    }
+    cancelAnimationFrame(this.frameId);
+    this.frameId = null;
+    this.options.onRunningChange?.(false);
+  }
+
+  private step = (now: number): void => {
+    const finished: Tween[] = [];
+    for (const tween of this.tweens) {
+      const elapsed =
+        this.options.duration > 0 ? (now - tween.startTime) / this.options.duration : 1;
+      const progress = Math.min(Math.max(elapsed, 0), 1);
+      tween.apply(this.easing(progress));
+      if (progress >= 1) {
+        finished.push(tween);
+      }
+    }
+    this.tweens = this.tweens.filter((tween) => !finished.includes(tween));
+    for (const tween of finished) {
+      tween.finish?.();
+    }
+
+    if (this.tweens.length > 0) {
+      this.frameId = requestAnimationFrame(this.step);
+    } else {
+      this.frameId = null;
+      this.options.onRunningChange?.(false);
+    }
+  };
+}
+
+// Shader materials of this package read their opacity from a uniform of the same name
+function getOpacity(material: THREE.Material): number {
+  return material instanceof THREE.ShaderMaterial && material.uniforms.opacity
+    ? material.uniforms.opacity.value
+    : material.opacity;
+}
+
+function setOpacity(material: THREE.Material, opacity: number): void {
+  if (material instanceof THREE.ShaderMaterial && material.uniforms.opacity) {
+    material.uniforms.opacity.value = opacity;
+  }
+  material.opacity = opacity;
+}
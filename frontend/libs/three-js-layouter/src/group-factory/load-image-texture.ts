@@ -0,0 +1,42 @@
+import * as THREE from 'three';
+
+// Textures are shared by every image node showing the same source
+const loadedTextures = new Map<string, THREE.Texture>();
+const pendingTextures = new Map<string, Promise<THREE.Texture>>();
+
+// Texture of an image that has already finished loading, so it can be shown without a placeholder
+export function getLoadedImageTexture(source: string): THREE.Texture | undefined {
+  return loadedTextures.get(source);
+}
+
+// Drop the texture of a source from the cache and release it, once nothing shows it anymore
+export function releaseImageTexture(source: string): void {
+  loadedTextures.get(source)?.dispose();
+  loadedTextures.delete(source);
+}
+
+// Load a bitmap or SVG image from a URL or data URI
+// Concurrent requests for the same source share one load; failed loads are retried next time
+export function loadImageTexture(source: string): Promise<THREE.Texture> {
+  const loaded = loadedTextures.get(source);
+  if (loaded) {
+    return Promise.resolve(loaded);
+  }
+  const pending = pendingTextures.get(source);
+  if (pending) {
+    return pending;
+  }
+
+  const promise = new THREE.TextureLoader()
+    .loadAsync(source)
+    .then((texture) => {
+      texture.colorSpace = THREE.SRGBColorSpace;
+      loadedTextures.set(source, texture);
+      return texture;
+    })
+    .finally(() => {
+      pendingTextures.delete(source);
+    });
+  pendingTextures.set(source, promise);
+  return promise;
+}
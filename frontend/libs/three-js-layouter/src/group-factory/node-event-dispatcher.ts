@@ -0,0 +1,229 @@
+import type { Node } from '@kuumu/layouter/node';
+import * as THREE from 'three';
+import { hitTest, type NodeHit } from './hit-test';
+
+// pointerenter and pointerleave are sent to each node the pointer starts or stops being over,
+// outermost first when entering and innermost first when leaving; the others bubble from the
+// deepest node under the pointer up to the root
+export type NodePointerEventType =
+  | 'pointerenter'
+  | 'pointerleave'
+  | 'click'
+  | 'dblclick'
+  | 'contextmenu';
+
+export interface NodePointerEvent {
+  type: NodePointerEventType;
+  // Deepest node under the pointer
+  target: Node;
+  // The target followed by its ancestors, up to the root of the tree
+  path: Node[];
+  // Node whose listeners are being called
+  currentTarget: Node;
+  // Where the pointer ray meets the target, in world space
+  point: THREE.Vector3;
+  originalEvent: MouseEvent;
+  // Keep the event from reaching the ancestors of the current node
+  stopPropagation(): void;
+}
+
+export type NodePointerListener = (event: NodePointerEvent) => void;
+
+// Node a listener is attached to: the node object itself, or the id or tag it is known by, which
+// keeps listeners attached when the tree is rebuilt
+export type NodeEventTarget = Node | string;
+
+// Everything the dispatcher needs to know about the scene, read whenever an event arrives
+export interface NodeEventSource {
+  element: HTMLElement;
+  camera: () => THREE.Camera;
+  // Group returned by createGroup or GroupReconciler.update, if one is shown
+  root: () => THREE.Object3D | undefined;
+}
+
+interface NodeListener {
+  target?: NodeEventTarget;
+  type: NodePointerEventType;
+  listener: NodePointerListener;
+}
+
+// Clicks that moved further than this are drags, e.g. of the camera, and are not sent
+const CLICK_MOVE_TOLERANCE = 4;
+
+// Turns DOM mouse events on the canvas into events on the nodes under the pointer
+export class NodeEventDispatcher {
+  private listeners: NodeListener[] = [];
+  private hovered: NodeHit | undefined;
+  private pressedAt?: { x: number; y: number };
+  private raycaster = new THREE.Raycaster();
+  private source: NodeEventSource;
+  private domListeners: [keyof HTMLElementEventMap, (event: MouseEvent) => void][];
+
+  constructor(source: NodeEventSource) {
+    this.source = source;
+    this.domListeners = [
+      ['pointermove', (event) => this.handlePointerMove(event)],
+      ['pointerleave', (event) => this.updateHovered(undefined, event)],
+      ['pointerdown', (event) => this.handlePointerDown(event)],
+      ['click', (event) => this.handleClick(event)],
+      ['dblclick', (event) => this.dispatchAt('dblclick', event)],
+      ['contextmenu', (event) => this.dispatchAt('contextmenu', event)],
+    ];
+    for (const [type, listener] of this.domListeners) {
+      source.element.addEventListener(type, listener as EventListener);
+    }
+  }
+
+  // Listen to events of one node and, for bubbling events, of its descendants
+  // Returns a function that removes the listener
+  addNodeEventListener(
+    target: NodeEventTarget,
+    type: NodePointerEventType,
+    listener: NodePointerListener
+  ): () => void {
+    return this.add({ target, type, listener });
+  }
+
+  // Listen to events of every node, after the listeners of the nodes themselves
+  addEventListener(type: NodePointerEventType, listener: NodePointerListener): () => void {
+    return this.add({ type, listener });
+  }
+
+  // Node under a point of the element, in client coordinates
+  hitTest(clientX: number, clientY: number): NodeHit | undefined {
+    const root = this.source.root();
+    if (!root) {
+      return undefined;
+    }
+    const rect = this.source.element.getBoundingClientRect();
+    const pointer = new THREE.Vector2(
+      ((clientX - rect.left) / rect.width) * 2 - 1,
+      -((clientY - rect.top) / rect.height) * 2 + 1
+    );
+    this.raycaster.setFromCamera(pointer, this.source.camera());
+    return hitTest(root, this.raycaster);
+  }
+
+  dispose(): void {
+    for (const [type, listener] of this.domListeners) {
+      this.source.element.removeEventListener(type, listener as EventListener);
+    }
+    this.listeners = [];
+    this.hovered = undefined;
+  }
+
+  private add(entry: NodeListener): () => void {
+    this.listeners.push(entry);
+    return () => {
+      this.listeners = this.listeners.filter((listener) => listener !== entry);
+    };
+  }
+
+  private handlePointerMove(event: MouseEvent): void {
+    this.updateHovered(this.hitTest(event.clientX, event.clientY), event);
+  }
+
+  private handlePointerDown(event: MouseEvent): void {
+    this.pressedAt = { x: event.clientX, y: event.clientY };
+  }
+
+  private handleClick(event: MouseEvent): void {
+    const pressedAt = this.pressedAt;
+    this.pressedAt = undefined;
+    if (
+      pressedAt &&
+      Math.hypot(event.clientX - pressedAt.x, event.clientY - pressedAt.y) > CLICK_MOVE_TOLERANCE
+    ) {
+      return;
+    }
+    this.dispatchAt('click', event);
+  }
+
+  private dispatchAt(type: NodePointerEventType, event: MouseEvent): void {
+    const hit = this.hitTest(event.clientX, event.clientY);
+    if (hit) {
+      this.dispatch(type, hit, hit.path, event);
+    }
+  }
+
+  // Send pointerleave to nodes no longer under the pointer, then pointerenter to new ones
+  private updateHovered(hit: NodeHit | undefined, event: MouseEvent): void {
+    const previous = this.hovered;
+    this.hovered = hit;
+    const before = previous?.path ?? [];
+    const after = hit?.path ?? [];
+
+    const left = before.filter((node) => !after.some((other) => isSameNode(node, other)));
+    const entered = after.filter((node) => !before.some((other) => isSameNode(node, other)));
+    for (const node of left) {
+      if (previous) {
+        this.dispatch('pointerleave', previous, [node], event);
+      }
+    }
+    for (const node of entered.reverse()) {
+      if (hit) {
+        this.dispatch('pointerenter', hit, [node], event);
+      }
+    }
+  }
+
+  // Call the listeners of each node along the path in turn, then the global ones
+  private dispatch(
+    type: NodePointerEventType,
+    hit: NodeHit,
+    path: Node[],
+    originalEvent: MouseEvent
+  ): void {
+    let stopped = false;
+    for (const node of path) {
+      const event: NodePointerEvent = {
+        type,
+        target: hit.node,
+        path: hit.path,
+        currentTarget: node,
+        point: hit.point,
+        originalEvent,
+        stopPropagation: () => {
+          stopped = true;
+        },
+      };
+      for (const entry of this.listeners) {
+        if (
+          entry.type === type &&
+          entry.target !== undefined &&
+          matchesTarget(entry.target, node)
+        ) {
+          entry.listener(event);
+        }
+      }
+      if (stopped) {
+        return;
+      }
+    }
+
+    const event: NodePointerEvent = {
+      type,
+      target: hit.node,
+      path: hit.path,
+      currentTarget: path[0],
+      point: hit.point,
+      originalEvent,
+      stopPropagation: () => {},
+    };
+    for (const entry of this.listeners) {
+      if (entry.type === type && entry.target === undefined) {
+        entry.listener(event);
+      }
+    }
+  }
+}
+
+function matchesTarget(target: NodeEventTarget, node: Node): boolean {
+  return typeof target === 'string' ? target === node.id || target === node.tag : target === node;
+}
+
+// Trees are often rebuilt between events, so nodes with the same id or tag count as the same
+function isSameNode(a: Node, b: Node): boolean {
+  const key = a.id ?? a.tag;
+  return a === b || (key !== undefined && key === (b.id ?? b.tag) && a.kind === b.kind);
+}
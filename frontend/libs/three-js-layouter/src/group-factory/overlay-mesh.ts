@@ -0,0 +1,34 @@
+import type { LayoutBox, Rect } from '@kuumu/layouter/layout';
+import * as THREE from 'three';
+import { toLocalPosition } from './shared-layout-utilities';
+
+// Flat rect drawn over the root group, such as a caret or a focus ring, positioned relative to the
+// root box center like the groups of its nodes
+// Overlays are drawn after and on top of the layout whatever depth they sit at, and pointer rays
+// go through them to the nodes below
+export function createOverlayRect(
+  rect: Rect,
+  layout: LayoutBox,
+  color: string,
+  opacity = 1
+): THREE.Mesh<THREE.PlaneGeometry, THREE.MeshBasicMaterial> {
+  const mesh = new THREE.Mesh(
+    new THREE.PlaneGeometry(rect.width, rect.height),
+    new THREE.MeshBasicMaterial({ color, opacity, transparent: opacity < 1, depthTest: false })
+  );
+  mesh.renderOrder = 1;
+  mesh.position.copy(toLocalPosition(rect, layout));
+  mesh.raycast = () => {};
+  return mesh;
+}
+
+// Remove every overlay mesh from a group and release it
+export function clearOverlay(group: THREE.Group): void {
+  for (const child of group.children) {
+    if (child instanceof THREE.Mesh) {
+      child.geometry.dispose();
+      child.material.dispose();
+    }
+  }
+  group.clear();
+}
@@ -0,0 +1,61 @@
+import type { ContainerNode, Node, TextNode } from '@kuumu/layouter/node';
+import type * as THREE from 'three';
+import fontData from 'three/examples/fonts/helvetiker_regular.typeface.json';
+import { FontLoader } from 'three/examples/jsm/loaders/FontLoader.js';
+import { describe, expect, it } from 'vitest';
+import type { GroupFactoryContext } from './context';
+import { isGroupFactoryError } from './error';
+import { getObjectNode } from './hit-test';
+import { GroupReconciler } from './reconciler';
+
+const context: GroupFactoryContext = { font: new FontLoader().parse(fontData) };
+
+const item = (id: string): ContainerNode => ({
+  kind: 'container',
+  id,
+  item: { kind: 'text', item: 'item' },
+});
+
+const update = (reconciler: GroupReconciler, node: Node): THREE.Group => {
+  const group = reconciler.update(context, node);
+  if (isGroupFactoryError(group)) {
+    throw new Error(group.message);
+  }
+  return group;
+};
+
+// Group built for the node and the meshes it holds
+const findGroup = (root: THREE.Object3D, node: Node) => {
+  let found: THREE.Object3D | undefined;
+  root.traverse((object) => {
+    if (!found && getObjectNode(object) === node) {
+      found = object;
+    }
+  });
+  return { group: found, meshes: found?.children.filter((child) => 'isMesh' in child) };
+};
+
+describe('GroupReconciler', () => {
+  it.each([
+    ['a sibling is prepended', (items: Node[]) => [item('zero'), ...items]],
+    ['their parent moves', (items: Node[]) => [...items].reverse()],
+  ])('keeps the groups of untagged descendants when %s', (_, change) => {
+    const items = [item('one'), item('two')];
+    const texts = items.map((node) => node.item as TextNode);
+    const reconciler = new GroupReconciler();
+
+    const before = update(reconciler, { kind: 'vertical', items });
+    const groups = texts.map((text) => findGroup(before, text));
+    const after = update(reconciler, { kind: 'vertical', items: change(items) });
+
+    expect(after).toBe(before);
+    texts.forEach((text, index) => {
+      const { group, meshes } = findGroup(after, text);
+      expect(group).toBeDefined();
+      expect(group).toBe(groups[index].group);
+      // The text geometry was not rebuilt either
+      expect(meshes).not.toHaveLength(0);
+      meshes?.forEach((mesh, meshIndex) => expect(mesh).toBe(groups[index].meshes?.[meshIndex]));
+    });
+  });
+});
@@ -0,0 +1,694 @@
+import { computeLayout, type LayoutBox, type Rect } from '@kuumu/layouter/layout';
+import {
+  type ConnectorNode,
+  getTextSpanStyle,
+  getTextSpans,
+  type ImageNode,
+  isConnectorNode,
+  isImageNode,
+  isTextNode,
+  type Node,
+  type TextNode,
+} from '@kuumu/layouter/node';
+import * as THREE from 'three';
+import {
+  createShadowMesh,
+  type DecoratedMesh,
+  getBoxStyle,
+  hasBoxDecoration,
+  hasBoxShadow,
+  isDecoratedMesh,
+  updateDecoratedNodeMesh,
+  updateShadowMesh,
+} from './box-decoration';
+import { applyClipRegions, updateClipRegion } from './clip-region';
+import type { GroupFactoryContext } from './context';
+import { createBorderMesh, getNodeBorder } from './create-border-mesh';
+import { createConnectorMesh, getConnectorBounds } from './create-connector-node-group';
+import { createImageMesh, type ImageMesh, updateImageMeshStyle } from './create-image-node-group';
+import { createTextMesh } from './create-text-node-group';
+import {
+  createLayoutComputationError,
+  type GroupFactoryError,
+  isGroupFactoryError,
+  reportGroupFactoryError,
+} from './error';
+import { createFontTextMeasurer } from './font-text-measurer';
+import { type GroupResources, isSharedResource } from './group-resources';
+import { setObjectNode } from './hit-test';
+import { type TransitionOptions, TransitionRunner } from './layout-transition';
+import { getSourceNode, resolveNodeStyles } from './resolve-node-styles';
+import {
+  applyLayoutZOffsets,
+  createBackgroundMesh,
+  getNodeMaterial,
+  type NodeBackgroundMesh,
+  toLocalPosition,
+} from './shared-layout-utilities';
+import { updateTextMeshStyle } from './text-mesh-style';
+import {
+  computeVisibleArea,
+  containsRect,
+  expandRect,
+  intersectRect,
+  intersectsRect,
+} from './visible-area';
+
+// Scene objects created for one node, kept between updates while the node keeps its identity
+interface ReconciledNode {
+  kind: Node['kind'];
+  group: THREE.Group;
+  // Size of the node's box, to tween the background when it changes
+  size?: { width: number; height: number };
+  // Every kind but connectors has a background
+  background?: NodeBackgroundMesh;
+  shadow?: DecoratedMesh;
+  border?: {
+    mesh?: THREE.Mesh;
+    signature: string;
+  };
+  text?: {
+    mesh: THREE.Mesh;
+    // Everything the text geometry depends on; colors and opacity are updated in place
+    signature: string;
+  };
+  image?: {
+    mesh: ImageMesh;
+    // Source and fitting of the picture; opacity is updated in place
+    signature: string;
+  };
+  connector?: {
+    mesh?: THREE.Mesh;
+    signature: string;
+  };
+}
+
+export interface VirtualizationOptions {
+  // Camera the root group is viewed with; undefined while there is none, which builds everything
+  camera: () => THREE.Camera | undefined;
+  // Area built beyond the view on every side, as a fraction of the view size, so that panning a
+  // little does not need a rebuild; defaults to 0.5
+  margin?: number;
+}
+
+export interface GroupReconcilerOptions {
+  // Animate the changes of every update instead of applying them at once
+  transition?: TransitionOptions;
+  // Lay out the whole tree but only build meshes for nodes around the camera view
+  virtualization?: VirtualizationOptions;
+}
+
+const DEFAULT_VIRTUALIZATION_MARGIN = 0.5;
+
+// Key of the root node when it has no id or tag
+const ROOT_KEY = 'root';
+
+// Backgrounds of nodes that left the view, kept to be reused by nodes coming into view
+const MAX_POOLED_BACKGROUNDS = 1000;
+
+// How an entry was shown before an update, for transitions to start from
+interface EntrySnapshot {
+  position: THREE.Vector3;
+  // Size the background appeared at, which differs from the box size while it is being tweened
+  size?: { width: number; height: number };
+  // Transform relative to the root group, where removed groups fade out
+  matrix: THREE.Matrix4;
+}
+
+// Keeps the groups built for a Node tree and updates them when the tree changes
+// Nodes are matched by id, then tag, then their index below their matched parent; matched nodes
+// keep their group, background geometry is only replaced when its size changes and text geometry
+// only when its lines change, so style tweaks update materials in place
+// With a transition, matched nodes move and resize smoothly, added nodes fade in and removed
+// ones fade out in place before they are disposed
+// With virtualization, every node keeps its group so the tree stays complete, but only nodes
+// overlapping the area around the camera view get meshes; call updateVisibleArea when the camera
+// moves to build the nodes coming into view and release those that left it
+export class GroupReconciler {
+  private entries = new Map<string, ReconciledNode>();
+  private fonts?: { font: GroupFactoryContext['font']; fonts: GroupFactoryContext['fonts'] };
+  private fontGeneration = 0;
+  // Resources of the context of the last update, which tracks the textures of image meshes
+  private resources?: GroupResources;
+  private lastContext?: GroupFactoryContext;
+  private lastLayout?: LayoutBox;
+  private root?: THREE.Group;
+  private transitions?: TransitionRunner;
+  private virtualization?: VirtualizationOptions;
+  // Layout area nodes are built in, undefined when every node is built
+  private builtArea?: Rect;
+  private backgroundPool: NodeBackgroundMesh[] = [];
+
+  constructor(options: GroupReconcilerOptions = {}) {
+    this.transitions = options.transition && new TransitionRunner(options.transition);
+    this.virtualization = options.virtualization;
+  }
+
+  // Layout computed by the last successful update, e.g. to find the node under a point
+  get layout(): LayoutBox | undefined {
+    return this.lastLayout;
+  }
+
+  // Lay out the node and bring the groups in line with it
+  // The returned root group is the same object as long as the root node keeps its identity;
+  // its position is left to the caller, while every descendant is positioned relative to it
+  update(context: GroupFactoryContext, node: Node): THREE.Group | GroupFactoryError {
+    let layout: LayoutBox;
+    try {
+      layout = computeLayout(resolveNodeStyles(context, node), createFontTextMeasurer(context));
+    } catch (error) {
+      return createLayoutComputationError(error);
+    }
+
+    // Text geometry built with other fonts can not be reused
+    if (this.fonts?.font !== context.font || this.fonts.fonts !== context.fonts) {
+      this.fonts = { font: context.font, fonts: context.fonts };
+      this.fontGeneration++;
+    }
+
+    this.resources = context.resources;
+    const snapshots = this.transitions ? this.snapshot() : undefined;
+    // The root group is expected to stay where the caller placed it last time
+    this.builtArea = this.buildArea(layout);
+    const next = new Map<string, ReconciledNode>();
+    const result = this.reconcile(context, layout, ROOT_KEY, next, this.builtArea);
+
+    const removed = [...this.entries]
+      .filter(([key, entry]) => next.get(key) !== entry)
+      .map(([, entry]) => entry);
+    this.entries = next;
+
+    if (isGroupFactoryError(result)) {
+      removed.forEach((entry) => disposeEntry(entry, this.resources));
+      return result;
+    }
+    // Clipping depends on every ancestor, so it is applied once the whole tree is in place
+    applyClipRegions(result.group);
+    this.lastContext = context;
+    this.lastLayout = layout;
+
+    // A new root replaces the whole scene, so there is nothing to transition from
+    if (this.transitions && snapshots && result.group === this.root) {
+      this.animate(this.transitions, snapshots, removed, result.group);
+    } else {
+      removed.forEach((entry) => disposeEntry(entry, this.resources));
+    }
+    this.root = result.group;
+    return result.group;
+  }
+
+  // Build the nodes that came into view of the virtualization camera and release those that
+  // left it, without laying the tree out again
+  // Nothing is rebuilt while the view stays within the area built last time, unless it became
+  // much smaller than that area; returns whether the groups changed and should be drawn again
+  updateVisibleArea(): boolean {
+    const context = this.lastContext;
+    const layout = this.lastLayout;
+    if (!this.virtualization || !context || !layout || !this.root) {
+      return false;
+    }
+    const camera = this.virtualization.camera();
+    const view = camera && computeVisibleArea(camera, this.root, layout);
+    if (!this.needsRebuild(view)) {
+      return false;
+    }
+
+    // Meshes are handed between nodes, so nothing may still be tweening them
+    this.transitions?.finishAll();
+    this.builtArea = this.buildArea(layout);
+    const next = new Map<string, ReconciledNode>();
+    const result = this.reconcile(context, layout, ROOT_KEY, next, this.builtArea);
+    for (const [key, entry] of this.entries) {
+      if (next.get(key) !== entry) {
+        disposeEntry(entry, this.resources);
+      }
+    }
+    this.entries = next;
+    if (isGroupFactoryError(result)) {
+      reportGroupFactoryError(context, result);
+      return true;
+    }
+    applyClipRegions(result.group);
+    return true;
+  }
+
+  // Release every geometry and material created by this reconciler
+  dispose(): void {
+    this.transitions?.finishAll();
+    for (const entry of this.entries.values()) {
+      disposeEntry(entry, this.resources);
+    }
+    this.entries.clear();
+    this.backgroundPool.forEach(disposeMesh);
+    this.backgroundPool = [];
+  }
+
+  // Area to build nodes in, around the current view of the virtualization camera
+  private buildArea(layout: LayoutBox): Rect | undefined {
+    const camera = this.virtualization?.camera();
+    const view = camera && computeVisibleArea(camera, this.root ?? new THREE.Group(), layout);
+    return view && expandRect(view, this.virtualization?.margin ?? DEFAULT_VIRTUALIZATION_MARGIN);
+  }
+
+  private needsRebuild(view: Rect | undefined): boolean {
+    if (!view || !this.builtArea) {
+      // Everything is built already when neither is bounded
+      return view !== this.builtArea;
+    }
+    if (!containsRect(this.builtArea, view)) {
+      return true;
+    }
+    // Zoomed in far enough that most of what is built can not be seen anymore
+    const expanded = expandRect(view, this.virtualization?.margin ?? DEFAULT_VIRTUALIZATION_MARGIN);
+    return expanded.width * expanded.height * 4 < this.builtArea.width * this.builtArea.height;
+  }
+
+  private snapshot(): Map<ReconciledNode, EntrySnapshot> {
+    const snapshots = new Map<ReconciledNode, EntrySnapshot>();
+    this.root?.updateWorldMatrix(true, true);
+    const toRoot = this.root ? this.root.matrixWorld.clone().invert() : new THREE.Matrix4();
+    for (const entry of this.entries.values()) {
+      const scale = entry.background?.scale;
+      snapshots.set(entry, {
+        position: entry.group.position.clone(),
+        size: entry.size && {
+          width: entry.size.width * (scale?.x ?? 1),
+          height: entry.size.height * (scale?.y ?? 1),
+        },
+        matrix: toRoot.clone().multiply(entry.group.matrixWorld),
+      });
+    }
+    return snapshots;
+  }
+
+  // Tween matched nodes from where they were shown, fade added ones in and removed ones out
+  private animate(
+    transitions: TransitionRunner,
+    snapshots: Map<ReconciledNode, EntrySnapshot>,
+    removed: ReconciledNode[],
+    root: THREE.Group
+  ): void {
+    for (const entry of this.entries.values()) {
+      const previous = snapshots.get(entry);
+      if (!previous) {
+        for (const mesh of ownMeshes(entry)) {
+          transitions.fade(mesh, 'in');
+        }
+        continue;
+      }
+      // The root is positioned by the caller
+      if (entry.group !== root && !previous.position.equals(entry.group.position)) {
+        transitions.movePosition(entry.group, previous.position, entry.group.position.clone());
+      }
+      const { size } = entry;
+      if (size && previous.size && size.width > 0 && size.height > 0) {
+        const from = new THREE.Vector3(
+          previous.size.width / size.width,
+          previous.size.height / size.height,
+          1
+        );
+        if (from.x !== 1 || from.y !== 1) {
+          for (const mesh of [entry.background, entry.shadow, entry.border?.mesh]) {
+            if (mesh) {
+              transitions.restoreScale(mesh, from);
+            }
+          }
+        }
+      }
+    }
+
+    for (const entry of removed) {
+      const previous = snapshots.get(entry);
+      // Subtrees that lost their parent stay where they were shown, on top of the root
+      if (!entry.group.parent && previous) {
+        previous.matrix.decompose(entry.group.position, entry.group.quaternion, entry.group.scale);
+        root.add(entry.group);
+      }
+      const meshes = ownMeshes(entry);
+      if (meshes.length === 0) {
+        disposeEntry(entry, this.resources);
+      }
+      meshes.forEach((mesh, index) => {
+        // Fading groups are no longer part of the tree, so pointer rays go through them
+        mesh.raycast = () => {};
+        transitions.fade(
+          mesh,
+          'out',
+          index === 0 ? () => disposeEntry(entry, this.resources) : undefined
+        );
+      });
+    }
+  }
+
+  private reconcile(
+    context: GroupFactoryContext,
+    box: LayoutBox,
+    // Key the node gets without an id or tag of its own
+    fallbackKey: string,
+    next: Map<string, ReconciledNode>,
+    // Layout area nodes get meshes in, undefined to build every node
+    area: Rect | undefined
+  ): ReconciledNode | GroupFactoryError {
+    const { node } = box;
+    const key = identify(node, fallbackKey, next);
+    const previous = this.entries.get(key);
+    const reused = previous?.kind === node.kind ? previous : undefined;
+    const visible = !area || intersectsRect(area, box);
+
+    // Connectors only draw their route, without a box of their own, so the route is what has to
+    // be in view
+    if (isConnectorNode(node)) {
+      const entry = reused ?? { kind: node.kind, group: new THREE.Group() };
+      const bounds = getConnectorBounds({ ...box, node });
+      if (!area || (bounds && intersectsRect(area, bounds))) {
+        entry.connector = reconcileConnector({ ...box, node }, entry.connector);
+      } else {
+        this.release(entry);
+      }
+      entry.group.clear();
+      if (entry.connector?.mesh) {
+        entry.group.add(entry.connector.mesh);
+      }
+      setObjectNode(entry.group, getSourceNode(node));
+      next.set(key, entry);
+      return entry;
+    }
+
+    // Children first, so that a failing subtree leaves this node untouched
+    const childGroups: THREE.Group[] = [];
+    const errors: GroupFactoryError[] = [];
+    // Descendants clipped away by this node can not be seen either
+    const childArea = area && box.clip ? intersectRect(area, box.clip) : area;
+    box.children.forEach((childBox, index) => {
+      const child = this.reconcile(context, childBox, `${key}/${index}`, next, childArea);
+      if (isGroupFactoryError(child)) {
+        errors.push(child);
+        return;
+      }
+      child.group.position.copy(toLocalPosition(childBox, box));
+      childGroups.push(child.group);
+    });
+
+    // Same policy as createLayoutGroup: a lone failing child fails the parent
+    if (childGroups.length === 0 && errors.length === 1) {
+      return errors[0];
+    }
+    for (const error of errors) {
+      reportGroupFactoryError(context, error);
+    }
+
+    // Nodes out of view keep an empty group, so their children stay positioned below it
+    if (!visible) {
+      const entry = reused ?? { kind: node.kind, group: new THREE.Group() };
+      this.release(entry);
+      entry.size = { width: box.width, height: box.height };
+      entry.group.clear();
+      if (childGroups.length > 0) {
+        entry.group.add(...childGroups);
+      }
+      applyLayoutZOffsets(childGroups, undefined, node);
+      updateClipRegion(entry.group, box);
+      setObjectNode(entry.group, getSourceNode(node));
+      next.set(key, entry);
+      return entry;
+    }
+
+    const text = isTextNode(node)
+      ? this.reconcileText(context, { ...box, node }, reused?.text)
+      : undefined;
+    if (isGroupFactoryError(text)) {
+      return text;
+    }
+    if (reused?.text && reused.text !== text) {
+      disposeMesh(reused.text.mesh);
+    }
+
+    const image = isImageNode(node)
+      ? reconcileImage(context, { ...box, node }, reused?.image)
+      : undefined;
+    if (reused?.image && reused.image !== image) {
+      this.resources?.release(reused.image.mesh);
+      disposeMesh(reused.image.mesh);
+    }
+
+    const entry: ReconciledNode = reused ?? { kind: node.kind, group: new THREE.Group() };
+    const background = reconcileBackground(entry.background ?? this.takeBackground(box), box);
+    entry.background = background;
+    entry.text = text;
+    entry.image = image;
+    entry.shadow = reconcileShadow(box, entry.shadow);
+    entry.size = { width: box.width, height: box.height };
+    entry.border = reconcileBorder(box, background.material, entry.border);
+
+    entry.group.clear();
+    entry.group.add(...childGroups, background);
+    if (entry.shadow) {
+      entry.group.add(entry.shadow);
+    }
+    if (entry.border.mesh) {
+      entry.group.add(entry.border.mesh);
+    }
+    if (image) {
+      entry.group.add(image.mesh);
+    }
+    if (text) {
+      // Lines are already positioned relative to the group origin, the center of the text box
+      entry.group.add(text.mesh);
+    }
+    applyLayoutZOffsets(childGroups, background, node);
+    updateClipRegion(entry.group, box);
+    setObjectNode(entry.group, getSourceNode(node));
+
+    next.set(key, entry);
+    return entry;
+  }
+
+  // Drop the meshes of a node that left the view; its background is kept for another node
+  private release(entry: ReconciledNode): void {
+    const { background } = entry;
+    if (background && this.backgroundPool.length < MAX_POOLED_BACKGROUNDS) {
+      background.removeFromParent();
+      background.scale.set(1, 1, 1);
+      this.backgroundPool.push(background);
+    } else if (background) {
+      disposeMesh(background);
+    }
+    for (const mesh of [
+      entry.shadow,
+      entry.border?.mesh,
+      entry.text?.mesh,
+      entry.image?.mesh,
+      entry.connector?.mesh,
+    ]) {
+      if (mesh) {
+        this.resources?.release(mesh);
+        disposeMesh(mesh);
+      }
+    }
+    entry.background = undefined;
+    entry.shadow = undefined;
+    entry.border = undefined;
+    entry.text = undefined;
+    entry.image = undefined;
+    entry.connector = undefined;
+  }
+
+  // Background of a node that left the view, or a new one when there is none
+  private takeBackground(box: LayoutBox): NodeBackgroundMesh {
+    return this.backgroundPool.pop() ?? createBackgroundMesh(box);
+  }
+
+  private reconcileText(
+    context: GroupFactoryContext,
+    box: LayoutBox<TextNode>,
+    previous: ReconciledNode['text']
+  ): ReconciledNode['text'] | GroupFactoryError {
+    const signature = this.textSignature(context, box);
+    if (previous?.signature === signature) {
+      updateTextMeshStyle(previous.mesh, box.node);
+      return previous;
+    }
+    const mesh = createTextMesh(context, box);
+    return isGroupFactoryError(mesh) ? mesh : { mesh, signature };
+  }
+
+  // Serialized inputs of the text geometry, relative to the box center like the geometry itself
+  private textSignature(context: GroupFactoryContext, box: LayoutBox<TextNode>): string {
+    const centerX = box.x + box.width / 2;
+    const centerY = box.y + box.height / 2;
+    const spans = getTextSpans(box.node).map((span) => {
+      const { fontSize, fontFamily, fontWeight, underline } = getTextSpanStyle(box.node, span);
+      return [fontSize, fontFamily, fontWeight, underline];
+    });
+    // Offsets are rounded, as moving a box changes them by floating point error
+    const lines = (box.lines ?? []).map((line) => [
+      roundOffset(line.baseline - centerY),
+      line.runs.map((run) => [run.text, run.span, roundOffset(run.x - centerX), run.width]),
+    ]);
+    return JSON.stringify([context.textRenderer, this.fontGeneration, spans, lines]);
+  }
+}
+
+function roundOffset(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+// Key identifying a node across updates
+// Ids and tags are expected to be unique; a repeated one falls back to `fallbackKey`, which is the
+// parent's key followed by the node's index, so a subtree keeps its keys when its parent is
+// matched at another position
+function identify(node: Node, fallbackKey: string, next: Map<string, ReconciledNode>): string {
+  const key =
+    node.id !== undefined ? `id:${node.id}` : node.tag !== undefined ? `tag:${node.tag}` : '';
+  return key && !next.has(key) ? key : fallbackKey;
+}
+
+// Border outlines are cheap, so they are simply rebuilt whenever anything they depend on changes
+function reconcileBorder(
+  box: LayoutBox,
+  background: NodeBackgroundMesh['material'],
+  previous: ReconciledNode['border']
+): NonNullable<ReconciledNode['border']> {
+  const signature = JSON.stringify([
+    getNodeBorder(box.node),
+    getBoxStyle(box.node)?.borderRadius,
+    box.width,
+    box.height,
+    background.opacity,
+    background.wireframe,
+  ]);
+  if (previous?.signature === signature) {
+    return previous;
+  }
+  if (previous?.mesh) {
+    disposeMesh(previous.mesh);
+  }
+  return { mesh: createBorderMesh(box, background), signature };
+}
+
+// Connector lines are rebuilt whenever their route or style changes, e.g. when an end moved
+function reconcileConnector(
+  box: LayoutBox<ConnectorNode>,
+  previous: ReconciledNode['connector']
+): NonNullable<ReconciledNode['connector']> {
+  const center = { x: box.x + box.width / 2, y: box.y + box.height / 2 };
+  const signature = JSON.stringify([
+    box.node.style,
+    (box.path ?? []).map((point) => [point.x - center.x, point.y - center.y]),
+  ]);
+  if (previous?.signature === signature) {
+    return previous;
+  }
+  if (previous?.mesh) {
+    disposeMesh(previous.mesh);
+  }
+  return { mesh: createConnectorMesh(box), signature };
+}
+
+// Pictures are loaded again (from the texture cache) when their source or fitting changes
+function reconcileImage(
+  context: GroupFactoryContext,
+  box: LayoutBox<ImageNode>,
+  previous: ReconciledNode['image']
+): NonNullable<ReconciledNode['image']> {
+  const { node, contentBox } = box;
+  const signature = JSON.stringify([
+    node.source,
+    node.style?.fit,
+    node.intrinsicSize,
+    contentBox.width,
+    contentBox.height,
+  ]);
+  if (previous?.signature !== signature) {
+    return { mesh: createImageMesh(context, box), signature };
+  }
+  updateImageMeshStyle(previous.mesh, node);
+  previous.mesh.position.copy(toLocalPosition(contentBox, box));
+  return previous;
+}
+
+// Backgrounds switch between a flat box and a shaded quad when decorations come and go
+function reconcileBackground(mesh: NodeBackgroundMesh, box: LayoutBox): NodeBackgroundMesh {
+  if (isDecoratedMesh(mesh) !== hasBoxDecoration(box.node)) {
+    disposeMesh(mesh);
+    return createBackgroundMesh(box);
+  }
+  if (isDecoratedMesh(mesh)) {
+    updateDecoratedNodeMesh(mesh, box);
+  } else {
+    updateBackground(mesh, box);
+  }
+  return mesh;
+}
+
+function reconcileShadow(box: LayoutBox, previous?: DecoratedMesh): DecoratedMesh | undefined {
+  if (!hasBoxShadow(box.node)) {
+    if (previous) {
+      disposeMesh(previous);
+    }
+    return undefined;
+  }
+  if (!previous) {
+    return createShadowMesh(box);
+  }
+  updateShadowMesh(previous, box);
+  return previous;
+}
+
+function updateBackground(
+  mesh: THREE.Mesh<THREE.BoxGeometry, THREE.MeshBasicMaterial>,
+  box: LayoutBox
+): void {
+  const { width, height } = mesh.geometry.parameters;
+  if (width !== box.paddingBox.width || height !== box.paddingBox.height) {
+    mesh.geometry.dispose();
+    mesh.geometry = new THREE.BoxGeometry(box.paddingBox.width, box.paddingBox.height, 0);
+  }
+  // A material of its own was cloned for clipping or fading, and is cloned again when still needed
+  const material = getNodeMaterial(box.node);
+  if (mesh.material !== material && !isSharedResource(mesh.material)) {
+    mesh.material.dispose();
+  }
+  mesh.material = material;
+  mesh.position.copy(toLocalPosition(box.paddingBox, box));
+}
+
+// Meshes drawn for the node itself, without those of its children
+function ownMeshes(entry: ReconciledNode): THREE.Mesh[] {
+  return entry.group.children.filter((child) => child instanceof THREE.Mesh);
+}
+
+function disposeEntry(entry: ReconciledNode, resources?: GroupResources): void {
+  entry.group.removeFromParent();
+  if (entry.background) {
+    disposeMesh(entry.background);
+  }
+  if (entry.connector?.mesh) {
+    disposeMesh(entry.connector.mesh);
+  }
+  if (entry.shadow) {
+    disposeMesh(entry.shadow);
+  }
+  if (entry.border?.mesh) {
+    disposeMesh(entry.border.mesh);
+  }
+  if (entry.text) {
+    disposeMesh(entry.text.mesh);
+  }
+  if (entry.image) {
+    resources?.release(entry.image.mesh);
+    disposeMesh(entry.image.mesh);
+  }
+}
+
+// Textures are left alone: the SDF atlas is shared by every SDF text, and image
+// textures by every node showing the same source; so are the shared background materials
+function disposeMesh(mesh: THREE.Mesh): void {
+  mesh.geometry.dispose();
+  const materials = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+  for (const material of materials) {
+    if (!isSharedResource(material)) {
+      material.dispose();
+    }
+  }
+}
@@ -0,0 +1,14 @@
+import { DEFAULT_TEXT_NODE_STYLE, type TextNodeStyle } from '@kuumu/layouter/style';
+import type { Font } from 'three/examples/jsm/loaders/FontLoader.js';
+import type { GroupFactoryContext } from './context';
+
+// Pick the registered font matching the style's family and weight
+// Falls back to another weight of the same family, then to the context's default font
+export function resolveFont(context: GroupFactoryContext, style?: TextNodeStyle): Font {
+  const family = style?.fontFamily ?? DEFAULT_TEXT_NODE_STYLE.fontFamily;
+  const weight = style?.fontWeight ?? DEFAULT_TEXT_NODE_STYLE.fontWeight;
+  const candidates = (context.fonts ?? []).filter((registered) => registered.family === family);
+  const match =
+    candidates.find((registered) => (registered.weight ?? 'normal') === weight) ?? candidates[0];
+  return match?.font ?? context.font;
+}
@@ -0,0 +1,28 @@
+import { type Node, traverseNode } from '@kuumu/layouter/node';
+import { applyStyleSheet, cascadeStyles } from '@kuumu/layouter/style';
+import type { GroupFactoryContext } from './context';
+
+// Node each resolved copy was made from, so that scene objects can be traced back to the tree
+// the application passed in
+const sourceNodes = new WeakMap<Node, Node>();
+
+// Node tree with the final style of every node, as seen by layout and rendering
+// Style sheet rules come first, so that properties they set are inherited and themed like any other
+export function resolveNodeStyles(context: GroupFactoryContext, node: Node): Node {
+  const styled = context.styleSheet ? applyStyleSheet(node, context.styleSheet) : node;
+  const resolved = cascadeStyles(styled, context.theme);
+
+  // Resolving copies styles but keeps the shape of the tree, so both trees list nodes in step
+  const sources: Node[] = [];
+  traverseNode(node, (source) => sources.push(source));
+  let index = 0;
+  traverseNode(resolved, (copy) => {
+    sourceNodes.set(copy, sources[index++]);
+  });
+  return resolved;
+}
+
+// Node a resolved node was made from; nodes that were not resolved are their own source
+export function getSourceNode(node: Node): Node {
+  return sourceNodes.get(node) ?? node;
+}
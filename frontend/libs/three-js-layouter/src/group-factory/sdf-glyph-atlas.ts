@@ -0,0 +1,197 @@
+import * as THREE from 'three';
+import type { Font } from 'three/examples/jsm/loaders/FontLoader.js';
+
+// Size of one em in atlas texels; glyphs are rasterized once at this size and scaled per text
+export const SDF_GLYPH_SIZE = 32;
+
+// Distance in texels covered by the field on each side of an outline
+const SDF_SPREAD = 4;
+
+// Curve subdivision used when rasterizing outlines; texels are coarse, so few points suffice
+const SDF_CURVE_SEGMENTS = 6;
+
+const ATLAS_WIDTH = 512;
+const INITIAL_ATLAS_HEIGHT = 256;
+
+// Solid cell sampled by quads that are not glyphs (e.g. underlines)
+const SOLID_CELL_SIZE = 4;
+
+// Location of a glyph in the atlas and how its cell sits relative to the pen position
+// All values are in atlas texels, i.e. for a font size of SDF_GLYPH_SIZE
+export interface SdfGlyph {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Bottom-left corner of the cell relative to the pen position on the baseline (y-up)
+  offsetX: number;
+  offsetY: number;
+}
+
+// Single-channel signed distance field atlas holding the glyphs of every font
+// Glyphs are rasterized from the font outlines on first use; the texture grows as needed
+// Sharing one texture lets a text mixing fonts across its spans draw in a single call
+export class SdfGlyphAtlas {
+  readonly texture: THREE.DataTexture;
+  // Shared with every material sampling this atlas, so growing the atlas keeps UVs valid
+  readonly atlasSize: { value: THREE.Vector2 };
+  // Inner area of a cell filled with the maximum distance, for solid quads
+  readonly solid: SdfGlyph;
+
+  private readonly glyphs = new WeakMap<Font, Map<string, SdfGlyph | null>>();
+  private data: Uint8Array;
+  private height = INITIAL_ATLAS_HEIGHT;
+  private cursorX = 0;
+  private cursorY = 0;
+  private rowHeight = 0;
+
+  constructor() {
+    this.data = new Uint8Array(ATLAS_WIDTH * this.height);
+    this.texture = new THREE.DataTexture(
+      this.data,
+      ATLAS_WIDTH,
+      this.height,
+      THREE.RedFormat,
+      THREE.UnsignedByteType
+    );
+    this.texture.minFilter = THREE.LinearFilter;
+    this.texture.magFilter = THREE.LinearFilter;
+    this.texture.unpackAlignment = 1;
+    this.atlasSize = { value: new THREE.Vector2(ATLAS_WIDTH, this.height) };
+
+    const cell = this.allocate(SOLID_CELL_SIZE, SOLID_CELL_SIZE);
+    for (let row = 0; row < SOLID_CELL_SIZE; row++) {
+      this.data.fill(
+        255,
+        (cell.y + row) * ATLAS_WIDTH + cell.x,
+        (cell.y + row) * ATLAS_WIDTH + cell.x + SOLID_CELL_SIZE
+      );
+    }
+    // Sample only the inner texels so that linear filtering never reaches a neighbouring cell
+    this.solid = { x: cell.x + 1, y: cell.y + 1, width: 2, height: 2, offsetX: 0, offsetY: 0 };
+    this.texture.needsUpdate = true;
+  }
+
+  // Glyph entry for a character of a font, rasterizing it on first use
+  // Returns null for characters without an outline (e.g. spaces)
+  getGlyph(font: Font, char: string): SdfGlyph | null {
+    let glyphs = this.glyphs.get(font);
+    if (!glyphs) {
+      glyphs = new Map();
+      this.glyphs.set(font, glyphs);
+    }
+    const cached = glyphs.get(char);
+    if (cached !== undefined) {
+      return cached;
+    }
+    const glyph = this.rasterize(font, char);
+    glyphs.set(char, glyph);
+    return glyph;
+  }
+
+  dispose(): void {
+    this.texture.dispose();
+  }
+
+  private rasterize(font: Font, char: string): SdfGlyph | null {
+    const contours = font
+      .generateShapes(char, SDF_GLYPH_SIZE)
+      .flatMap((shape) => {
+        const { shape: outline, holes } = shape.extractPoints(SDF_CURVE_SEGMENTS);
+        return [outline, ...holes];
+      })
+      .filter((contour) => contour.length > 1);
+    if (contours.length === 0) {
+      return null;
+    }
+
+    const bounds = new THREE.Box2().setFromPoints(contours.flat());
+    const originX = Math.floor(bounds.min.x) - SDF_SPREAD;
+    const originY = Math.floor(bounds.min.y) - SDF_SPREAD;
+    const width = Math.ceil(bounds.max.x) + SDF_SPREAD - originX;
+    const height = Math.ceil(bounds.max.y) + SDF_SPREAD - originY;
+    const cell = this.allocate(width, height);
+
+    for (let row = 0; row < height; row++) {
+      for (let column = 0; column < width; column++) {
+        const distance = signedDistance(contours, originX + column + 0.5, originY + row + 0.5);
+        const value = 0.5 + distance / (2 * SDF_SPREAD);
+        this.data[(cell.y + row) * ATLAS_WIDTH + cell.x + column] = Math.round(
+          Math.min(1, Math.max(0, value)) * 255
+        );
+      }
+    }
+    this.texture.needsUpdate = true;
+
+    return { ...cell, width, height, offsetX: originX, offsetY: originY };
+  }
+
+  // Reserve a cell using simple row packing, doubling the atlas height when it is full
+  private allocate(width: number, height: number): { x: number; y: number } {
+    if (this.cursorX + width > ATLAS_WIDTH) {
+      this.cursorX = 0;
+      this.cursorY += this.rowHeight + 1;
+      this.rowHeight = 0;
+    }
+    while (this.cursorY + height > this.height) {
+      this.grow();
+    }
+    const cell = { x: this.cursorX, y: this.cursorY };
+    this.cursorX += width + 1;
+    this.rowHeight = Math.max(this.rowHeight, height);
+    return cell;
+  }
+
+  private grow(): void {
+    this.height *= 2;
+    const data = new Uint8Array(ATLAS_WIDTH * this.height);
+    data.set(this.data);
+    this.data = data;
+
+    // Texture storage is immutable once uploaded, so it has to be reallocated at the new size
+    this.texture.dispose();
+    this.texture.image = { data, width: ATLAS_WIDTH, height: this.height };
+    this.texture.needsUpdate = true;
+    this.atlasSize.value.set(ATLAS_WIDTH, this.height);
+  }
+}
+
+let sharedAtlas: SdfGlyphAtlas | undefined;
+
+// Atlas shared by every text rendered with SDF glyphs
+export function getSdfGlyphAtlas(): SdfGlyphAtlas {
+  sharedAtlas ??= new SdfGlyphAtlas();
+  return sharedAtlas;
+}
+
+// Distance from a point to the nearest outline edge; positive inside the glyph (even-odd rule)
+function signedDistance(contours: THREE.Vector2[][], x: number, y: number): number {
+  let minDistanceSquared = Number.POSITIVE_INFINITY;
+  let inside = false;
+
+  for (const contour of contours) {
+    for (let index = 0; index < contour.length; index++) {
+      const a = contour[index];
+      const b = contour[(index + 1) % contour.length];
+
+      // Ray casting towards +x
+      if (a.y > y !== b.y > y && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) {
+        inside = !inside;
+      }
+
+      const dx = b.x - a.x;
+      const dy = b.y - a.y;
+      const lengthSquared = dx * dx + dy * dy;
+      const t =
+        lengthSquared > 0
+          ? Math.min(1, Math.max(0, ((x - a.x) * dx + (y - a.y) * dy) / lengthSquared))
+          : 0;
+      const px = a.x + t * dx - x;
+      const py = a.y + t * dy - y;
+      minDistanceSquared = Math.min(minDistanceSquared, px * px + py * py);
+    }
+  }
+
+  const distance = Math.sqrt(minDistanceSquared);
+  return inside ? distance : -distance;
+}
@@ -1,17 +1,28 @@
-import type { Node } from '@kuumu/layouter/node';
+import type { LayoutBox, Rect } from '@kuumu/layouter/layout';
+import { isOverlayNode, type Node } from '@kuumu/layouter/node';
 import {
   DEFAULT_CONTAINER_NODE_STYLE,
+  DEFAULT_GRID_LAYOUT_NODE_STYLE,
   DEFAULT_HORIZONTAL_LAYOUT_NODE_STYLE,
-  DEFAULT_PADDING,
+  DEFAULT_IMAGE_NODE_STYLE,
+  DEFAULT_OVERLAY_NODE_STYLE,
+  DEFAULT_SCROLL_NODE_STYLE,
   DEFAULT_TEXT_NODE_STYLE,
   DEFAULT_VERTICAL_LAYOUT_NODE_STYLE,
-  type Padding,
 } from '@kuumu/layouter/style';
 import * as THREE from 'three';
+import {
+  createDecoratedNodeMesh,
+  createShadowMesh,
+  type DecoratedMesh,
+  hasBoxDecoration,
+} from './box-decoration';
 import type { GroupFactoryContext } from './context';
-import { createGroup } from './create-group';
+import { createBorderMesh } from './create-border-mesh';
+import { createGroupFromLayout } from './create-group';
 import type { GroupFactoryError } from './error';
-import { isGroupFactoryError } from './error';
+import { isGroupFactoryError, reportGroupFactoryError } from './error';
+import { markSharedResource } from './group-resources';
 
 // Interface for style objects that support wireframe
 interface WireframeStyle {
@@ -35,41 +46,29 @@ interface ChildProcessingResult {
   errors: GroupFactoryError[];
 }
 
-// Node geometry with bounding box information
-export interface NodeGeometry {
-  geometry: THREE.BoxGeometry;
-  centerPosition: THREE.Vector3;
-}
-
-// Operations for creating different layout types
-export interface LayoutOperations<T> {
-  getItems: (node: T) => Node[];
-  positionChildren: (children: THREE.Group[], node: T) => void;
-  createGeometry: (group: THREE.Group) => NodeGeometry;
-}
+// Background of a node: a flat box, or a shaded quad for decorated styles
+export type NodeBackgroundMesh =
+  | THREE.Mesh<THREE.BoxGeometry, THREE.MeshBasicMaterial>
+  | DecoratedMesh;
 
-// Template method pattern for creating layout groups
+// Template method pattern for creating layout groups from computed boxes
 export function createLayoutGroup<T extends Node>(
   context: GroupFactoryContext,
-  node: T,
-  operations: LayoutOperations<T>
+  box: LayoutBox<T>
 ): THREE.Group | GroupFactoryError {
   const group = new THREE.Group();
 
   // Step 1: Process children
-  const items = operations.getItems(node);
-  const childResult = processItems(context, items);
+  const childResult = processChildren(context, box);
 
   // If there's only one error and no successful groups, return the error
   if (childResult.groups.length === 0 && childResult.errors.length === 1) {
     return childResult.errors[0];
   }
 
-  // Log errors but continue processing with successful groups
-  if (childResult.errors.length > 0) {
-    for (const error of childResult.errors) {
-      console.error('Child processing error:', error);
-    }
+  // Report errors but continue processing with successful groups
+  for (const error of childResult.errors) {
+    reportGroupFactoryError(context, error);
   }
 
   // Step 2: Add children to group
@@ -77,107 +76,100 @@ export function createLayoutGroup<T extends Node>(
     group.add(child);
   }
 
-  // Step 3: Position children according to layout rules
-  operations.positionChildren(childResult.groups, node);
-
-  // Step 4: Create and add node itself
-  const { geometry: nodeGeometry, centerPosition } = operations.createGeometry(group);
-  const nodeMaterial = createMaterialFromNode(node);
-  const nodeMesh = createAndPositionNodeMesh(nodeGeometry, nodeMaterial, centerPosition);
+  // Step 3: Create and add node itself
+  const nodeMesh = createBackgroundMesh(box);
   group.add(nodeMesh);
 
-  // Step 5: Apply Z-coordinate offsets for proper layering
-  applyLayoutZOffsets(childResult.groups, nodeMesh);
+  const shadowMesh = createShadowMesh(box);
+  if (shadowMesh) {
+    group.add(shadowMesh);
+  }
+
+  // Border outline sits around the padding box, which the children never overlap
+  const borderMesh = createBorderMesh(box, nodeMesh.material);
+  if (borderMesh) {
+    group.add(borderMesh);
+  }
+
+  // Step 4: Apply Z-coordinate offsets for proper layering
+  applyLayoutZOffsets(childResult.groups, nodeMesh, box.node);
 
   return group;
 }
 
-// Process items and create groups
-function processItems(context: GroupFactoryContext, items: Node[]): ChildProcessingResult {
+// Create groups for child boxes, positioned relative to the parent box center
+function processChildren(context: GroupFactoryContext, box: LayoutBox): ChildProcessingResult {
   const groups: THREE.Group[] = [];
   const errors: GroupFactoryError[] = [];
 
-  for (const item of items) {
-    const itemGroup = createGroup(context, item);
-    if (isGroupFactoryError(itemGroup)) {
-      errors.push(itemGroup);
+  for (const childBox of box.children) {
+    const childGroup = createGroupFromLayout(context, childBox);
+    if (isGroupFactoryError(childGroup)) {
+      errors.push(childGroup);
       continue;
     }
-    if (itemGroup) {
-      groups.push(itemGroup);
-    }
+    childGroup.position.copy(toLocalPosition(childBox, box));
+    groups.push(childGroup);
   }
 
   return { groups, errors };
 }
 
-// Create node geometry with padding
-export function createNodeGeometry(group: THREE.Group, padding: Padding | number): NodeGeometry {
-  // Convert number to Padding interface for uniform handling
-  const pad =
-    typeof padding === 'number'
-      ? { top: padding, bottom: padding, left: padding, right: padding }
-      : {
-          top: padding.top ?? DEFAULT_PADDING.top,
-          bottom: padding.bottom ?? DEFAULT_PADDING.bottom,
-          left: padding.left ?? DEFAULT_PADDING.left,
-          right: padding.right ?? DEFAULT_PADDING.right,
-        };
-
-  // Calculate bounding box of all children (excluding the node itself)
-  const children = group.children.filter((child) => child.type === 'Group');
-
-  if (children.length === 0) {
-    return {
-      geometry: new THREE.BoxGeometry(0.1, 0.1, 0),
-      centerPosition: new THREE.Vector3(0, 0, 0),
-    };
-  }
-
-  const box = new THREE.Box3();
-  for (const child of children) {
-    box.expandByObject(child);
-  }
-
-  const size = box.getSize(new THREE.Vector3());
-  const boxCenter = box.getCenter(new THREE.Vector3());
-
-  const nodeWidth = size.x + pad.left + pad.right;
-  const nodeHeight = size.y + pad.top + pad.bottom;
-
-  // Adjust center position when padding is asymmetric
-  const centerX = boxCenter.x + (pad.right - pad.left) / 2;
-  const centerY = boxCenter.y + (pad.top - pad.bottom) / 2;
-  const center = new THREE.Vector3(centerX, centerY, boxCenter.z);
-
-  return {
-    geometry: new THREE.BoxGeometry(nodeWidth, nodeHeight, 0),
-    centerPosition: center,
-  };
+// Convert the center of a layout rect to a position relative to the parent box center
+// Layout space grows downward while Three.js y axis points up, so y is flipped
+export function toLocalPosition(rect: Rect, parent: Rect): THREE.Vector3 {
+  const x = rect.x + rect.width / 2 - (parent.x + parent.width / 2);
+  const y = rect.y + rect.height / 2 - (parent.y + parent.height / 2);
+  return new THREE.Vector3(x, -y, 0);
 }
 
+// Depth between consecutive overlay layers, so that a layer and everything nested in it stays in
+// front of the previous layers
+const OVERLAY_LAYER_Z_STEP = 0.01;
+
 // Apply Z-coordinate offsets for proper layering between children and node
-function applyLayoutZOffsets(childGroups: THREE.Group[], nodeMesh: THREE.Mesh): void {
+// Children of an overlay share one box, so they are also stacked in order, the last in front
+export function applyLayoutZOffsets(
+  childGroups: THREE.Group[],
+  nodeMesh?: THREE.Mesh,
+  node?: Node
+): void {
+  const layerStep = node && isOverlayNode(node) ? OVERLAY_LAYER_Z_STEP : 0;
+
   // Position child groups in front of node
-  childGroups.forEach((group) => {
-    group.position.setZ(0.001);
+  childGroups.forEach((group, index) => {
+    group.position.setZ(0.001 + index * layerStep);
   });
 
   // Position node mesh behind child groups
-  nodeMesh.position.setZ(-0.001);
+  nodeMesh?.position.setZ(-0.001);
 }
 
-// Create and position node mesh
-function createAndPositionNodeMesh(
-  geometry: THREE.BoxGeometry,
-  material: THREE.MeshBasicMaterial,
-  centerPosition: THREE.Vector3
-): THREE.Mesh {
-  const nodeMesh = new THREE.Mesh(geometry, material);
-  nodeMesh.position.copy(centerPosition);
+// Backgrounds drawn as a plain colored box, which can be batched with others
+const flatBackgrounds = new WeakSet<THREE.Object3D>();
+
+// Create the background mesh of a node, covering its padding box
+export function createNodeMesh(
+  box: LayoutBox
+): THREE.Mesh<THREE.BoxGeometry, THREE.MeshBasicMaterial> {
+  const geometry = new THREE.BoxGeometry(box.paddingBox.width, box.paddingBox.height, 0);
+  const nodeMesh = new THREE.Mesh(geometry, getNodeMaterial(box.node));
+  nodeMesh.position.copy(toLocalPosition(box.paddingBox, box));
+  flatBackgrounds.add(nodeMesh);
   return nodeMesh;
 }
 
+export function isFlatBackgroundMesh(
+  object: THREE.Object3D
+): object is THREE.Mesh<THREE.BoxGeometry, THREE.MeshBasicMaterial> {
+  return flatBackgrounds.has(object);
+}
+
+// Create the background mesh of a node, shaded when its style has rounded corners or a gradient
+export function createBackgroundMesh(box: LayoutBox): NodeBackgroundMesh {
+  return hasBoxDecoration(box.node) ? createDecoratedNodeMesh(box) : createNodeMesh(box);
+}
+
 // Get default style for a node
 function getDefaultStyleForNode(node: Node): DefaultStyle {
   switch (node.kind) {
@@ -189,6 +181,17 @@ function getDefaultStyleForNode(node: Node): DefaultStyle {
       return DEFAULT_HORIZONTAL_LAYOUT_NODE_STYLE;
     case 'vertical':
       return DEFAULT_VERTICAL_LAYOUT_NODE_STYLE;
+    case 'grid':
+      return DEFAULT_GRID_LAYOUT_NODE_STYLE;
+    case 'image':
+      return DEFAULT_IMAGE_NODE_STYLE;
+    case 'overlay':
+      return DEFAULT_OVERLAY_NODE_STYLE;
+    case 'scroll':
+      return DEFAULT_SCROLL_NODE_STYLE;
+    case 'connector':
+      // Connectors only draw their route, which is styled by the connector style itself
+      throw new Error('Connector nodes have no background');
     default: {
       // This should never happen with proper typing
       const _exhaustiveCheck: never = node;
@@ -197,11 +200,11 @@ function getDefaultStyleForNode(node: Node): DefaultStyle {
   }
 }
 
-// Create material with wireframe support
-export function createNodeMaterial(
+// Material parameters for a node style, falling back to the defaults of its kind
+function resolveMaterialParameters(
   style: WireframeStyle | undefined,
   defaultStyle: DefaultStyle
-): THREE.MeshBasicMaterial {
+): THREE.MeshBasicMaterialParameters {
   const opacity = style?.opacity ?? defaultStyle.opacity;
   const transparent = opacity < 1.0;
 
@@ -210,16 +213,33 @@ export function createNodeMaterial(
     ? (style?.wireframeColor ?? defaultStyle.wireframeColor)
     : (style?.backgroundColor ?? defaultStyle.backgroundColor);
 
-  return new THREE.MeshBasicMaterial({
+  return {
     color,
     transparent,
     opacity,
     wireframe,
-  });
+  };
 }
 
-// Create material directly from node
-export function createMaterialFromNode(node: Node): THREE.MeshBasicMaterial {
-  const defaultStyle = getDefaultStyleForNode(node);
-  return createNodeMaterial(node.style, defaultStyle);
+// Materials of flat backgrounds, shared by every node with the same resolved color, opacity and
+// wireframe; like the SDF atlas they are never disposed
+const nodeMaterials = new Map<string, THREE.MeshBasicMaterial>();
+
+// Shared material for a node style; meshes that need their own, e.g. to be clipped or faded,
+// clone it
+export function getNodeMaterial(node: Node): THREE.MeshBasicMaterial {
+  const parameters = resolveMaterialParameters(node.style, getDefaultStyleForNode(node));
+  const key = JSON.stringify([
+    new THREE.Color(parameters.color).getHexString(),
+    parameters.opacity,
+    parameters.wireframe,
+  ]);
+  const cached = nodeMaterials.get(key);
+  if (cached) {
+    return cached;
+  }
+  const material = new THREE.MeshBasicMaterial(parameters);
+  markSharedResource(material);
+  nodeMaterials.set(key, material);
+  return material;
 }
@@ -0,0 +1,476 @@
+import {
+  type CaretStop,
+  type LayoutBox,
+  type Point,
+  type TextMeasurer,
+  textCaretIndexAt,
+  textCaretRect,
+  textCaretStops,
+  textSelectionRects,
+} from '@kuumu/layouter/layout';
+import { getTextNodeText, isTextNode, spliceTextNode, type TextNode } from '@kuumu/layouter/node';
+import { DEFAULT_TEXT_NODE_STYLE } from '@kuumu/layouter/style';
+import * as THREE from 'three';
+import type { GroupFactoryContext } from './context';
+import { findLayoutBox } from './find-layout-box';
+import { createFontTextMeasurer } from './font-text-measurer';
+import type {
+  NodeEventDispatcher,
+  NodeEventSource,
+  NodePointerEvent,
+} from './node-event-dispatcher';
+import { clearOverlay, createOverlayRect } from './overlay-mesh';
+import { getSourceNode } from './resolve-node-styles';
+import { toLocalPosition } from './shared-layout-utilities';
+
+// Everything the editor needs to know about the scene, read whenever it is used
+export interface TextEditorSource extends NodeEventSource {
+  // Clicks on editable text nodes start editing
+  events: NodeEventDispatcher;
+  // Layout the root group was built from, e.g. GroupReconciler.layout
+  layout: () => LayoutBox | undefined;
+  // Context the root group was built with; its fonts place the caret between glyphs
+  context: () => GroupFactoryContext | undefined;
+  requestRender: () => void;
+}
+
+export interface TextChange {
+  // Node being edited, whose item already holds the new text
+  node: TextNode;
+  text: string;
+  // Whether the text contains an unfinished IME composition, which later changes replace
+  composing: boolean;
+}
+
+export type TextChangeListener = (change: TextChange) => void;
+
+// Caret and selection as indices into the text of the node's spans joined
+// `anchor` stays where the selection started while `focus` follows the caret
+interface TextSelection {
+  anchor: number;
+  focus: number;
+}
+
+const DEFAULT_SELECTION_COLOR = '#3390ff';
+const SELECTION_OPACITY = 0.35;
+// Caret width and the thickness of the line under composed text, relative to the line height
+const CARET_WIDTH = 0.06;
+
+// In-place editing of TextNodes marked editable
+// Keyboard input, IME composition and the clipboard go through a hidden textarea that follows
+// the caret, so that the browser places candidate windows next to it; the caret and selection
+// are drawn over the root group. Changes are made to the node itself and reported to the
+// listener, which is expected to lay the tree out again and then call update()
+export class TextEditor {
+  // Caret, selection and composition underline, added to the root group while editing
+  readonly group = new THREE.Group();
+  private source: TextEditorSource;
+  private onChange: TextChangeListener;
+  private textarea: HTMLTextAreaElement;
+  private editing?: TextNode;
+  private selection: TextSelection = { anchor: 0, focus: 0 };
+  // Range of the text being composed with an IME
+  private composition?: { start: number; end: number };
+  private removeClickListener: () => void;
+  private domListeners: [string, (event: Event) => void][];
+
+  constructor(source: TextEditorSource, onChange: TextChangeListener) {
+    this.source = source;
+    this.onChange = onChange;
+    this.textarea = createHiddenTextarea();
+    document.body.appendChild(this.textarea);
+
+    this.removeClickListener = source.events.addEventListener('click', (event) =>
+      this.handleClick(event)
+    );
+    this.domListeners = [
+      ['keydown', (event) => this.handleKeyDown(event as KeyboardEvent)],
+      ['input', (event) => this.handleInput(event as InputEvent)],
+      ['compositionstart', () => this.handleCompositionStart()],
+      ['compositionupdate', (event) => this.compose((event as CompositionEvent).data, true)],
+      ['compositionend', (event) => this.compose((event as CompositionEvent).data, false)],
+      ['copy', (event) => this.handleCopy(event as ClipboardEvent, false)],
+      ['cut', (event) => this.handleCopy(event as ClipboardEvent, true)],
+      ['paste', (event) => this.handlePaste(event as ClipboardEvent)],
+    ];
+    for (const [type, listener] of this.domListeners) {
+      this.textarea.addEventListener(type, listener);
+    }
+  }
+
+  // Node being edited, if any
+  get node(): TextNode | undefined {
+    return this.editing;
+  }
+
+  // Start editing a node with the caret at the given index, or after its last character
+  edit(node: TextNode, index?: number): void {
+    this.editing = node;
+    const end = getTextNodeText(node).length;
+    const caret = Math.min(index ?? end, end);
+    this.selection = { anchor: caret, focus: caret };
+    this.composition = undefined;
+    this.textarea.value = '';
+    this.textarea.focus({ preventScroll: true });
+    this.update();
+  }
+
+  // Stop editing and remove the caret
+  end(): void {
+    if (!this.editing) {
+      return;
+    }
+    this.editing = undefined;
+    this.composition = undefined;
+    this.textarea.blur();
+    clearOverlay(this.group);
+    this.group.removeFromParent();
+    this.source.requestRender();
+  }
+
+  // Draw the caret again for the current layout; call after the tree was laid out again
+  // Trees rebuilt from scratch are followed by the id or tag of the edited node, and editing
+  // ends when the node is gone
+  update(): void {
+    const found = this.findBox();
+    const root = this.source.root();
+    const layout = this.source.layout();
+    const measurer = this.measurer();
+    if (!found || !root || !layout || !measurer) {
+      this.end();
+      return;
+    }
+    this.editing = found.source;
+
+    const length = getTextNodeText(found.source).length;
+    this.selection = {
+      anchor: Math.min(this.selection.anchor, length),
+      focus: Math.min(this.selection.focus, length),
+    };
+    this.draw(measurer, found.box, layout);
+    if (this.group.parent !== root) {
+      root.add(this.group);
+    }
+    this.placeTextarea(measurer, found.box);
+    this.source.requestRender();
+  }
+
+  dispose(): void {
+    this.end();
+    this.removeClickListener();
+    for (const [type, listener] of this.domListeners) {
+      this.textarea.removeEventListener(type, listener);
+    }
+    this.textarea.remove();
+  }
+
+  private handleClick(event: NodePointerEvent): void {
+    const { target, originalEvent } = event;
+    if (!isTextNode(target) || !target.editable) {
+      this.end();
+      return;
+    }
+    const point = this.toLayoutPoint(event.point);
+    const found = this.findBox(target);
+    const measurer = this.measurer();
+    const index =
+      point && found && measurer ? textCaretIndexAt(measurer, found.box, point) : undefined;
+
+    // Shift-clicking the node being edited extends the selection
+    if (this.editing === target && originalEvent.shiftKey && index !== undefined) {
+      this.selection = { ...this.selection, focus: index };
+      this.textarea.focus({ preventScroll: true });
+      this.update();
+      return;
+    }
+    this.edit(target, index);
+  }
+
+  private handleKeyDown(event: KeyboardEvent): void {
+    // Keys pressed while composing belong to the IME
+    if (!this.editing || event.isComposing || event.keyCode === 229) {
+      return;
+    }
+    const found = this.findBox();
+    const measurer = this.measurer();
+    if (!found || !measurer) {
+      return;
+    }
+
+    const { anchor, focus } = this.selection;
+    const [start, end] = [Math.min(anchor, focus), Math.max(anchor, focus)];
+    const lines = (found.box.lines ?? []).map((line) => textCaretStops(measurer, found.box, line));
+    const moveTo = (index: number) => {
+      this.selection = { anchor: event.shiftKey ? anchor : index, focus: index };
+      this.update();
+    };
+    const command = event.ctrlKey || event.metaKey;
+
+    switch (event.key) {
+      case 'ArrowLeft':
+        moveTo(start !== end && !event.shiftKey ? start : neighbourIndex(lines, focus, -1));
+        break;
+      case 'ArrowRight':
+        moveTo(start !== end && !event.shiftKey ? end : neighbourIndex(lines, focus, 1));
+        break;
+      case 'ArrowUp':
+      case 'ArrowDown':
+        moveTo(verticalIndex(lines, focus, event.key === 'ArrowUp' ? -1 : 1));
+        break;
+      case 'Home':
+        moveTo(lineStops(lines, focus)[0].index);
+        break;
+      case 'End': {
+        const stops = lineStops(lines, focus);
+        moveTo(stops[stops.length - 1].index);
+        break;
+      }
+      case 'Backspace':
+        if (start !== end) {
+          this.replace(start, end, '');
+        } else if (start > 0) {
+          this.replace(neighbourIndex(lines, start, -1), start, '');
+        }
+        break;
+      case 'Delete':
+        if (start !== end) {
+          this.replace(start, end, '');
+        } else {
+          this.replace(start, neighbourIndex(lines, start, 1), '');
+        }
+        break;
+      case 'Enter':
+        // Line breaks only survive where white space keeps them; elsewhere Enter finishes editing
+        if (preservesNewlines(found.box.node)) {
+          this.replace(start, end, '\n');
+        } else {
+          this.end();
+        }
+        break;
+      case 'Escape':
+        this.end();
+        break;
+      case 'a':
+        if (!command) {
+          return;
+        }
+        this.selection = { anchor: 0, focus: getTextNodeText(this.editing).length };
+        this.update();
+        break;
+      default:
+        // Characters arrive as input events, shortcuts like copy and paste as clipboard events
+        return;
+    }
+    event.preventDefault();
+  }
+
+  private handleInput(event: InputEvent): void {
+    // Composed text is handled by the composition events
+    const composed =
+      event.isComposing ||
+      event.inputType === 'insertCompositionText' ||
+      event.inputType === 'insertFromComposition';
+    if (!composed && event.inputType.startsWith('insert') && event.data) {
+      const { anchor, focus } = this.selection;
+      this.replace(Math.min(anchor, focus), Math.max(anchor, focus), event.data);
+    }
+    if (!composed) {
+      this.textarea.value = '';
+    }
+  }
+
+  // Composition replaces the selection, and is shown in the node as it is being typed
+  private handleCompositionStart(): void {
+    const { anchor, focus } = this.selection;
+    this.composition = { start: Math.min(anchor, focus), end: Math.max(anchor, focus) };
+  }
+
+  private compose(data: string, composing: boolean): void {
+    if (!this.editing) {
+      return;
+    }
+    const { start, end } = this.composition ?? {
+      start: this.selection.focus,
+      end: this.selection.focus,
+    };
+    this.composition = composing ? { start, end: start + data.length } : undefined;
+    this.replace(start, end, data, composing);
+    if (!composing) {
+      this.textarea.value = '';
+    }
+  }
+
+  private handleCopy(event: ClipboardEvent, cut: boolean): void {
+    const { anchor, focus } = this.selection;
+    const [start, end] = [Math.min(anchor, focus), Math.max(anchor, focus)];
+    if (!this.editing || start === end) {
+      return;
+    }
+    event.clipboardData?.setData('text/plain', getTextNodeText(this.editing).slice(start, end));
+    event.preventDefault();
+    if (cut) {
+      this.replace(start, end, '');
+    }
+  }
+
+  private handlePaste(event: ClipboardEvent): void {
+    const text = event.clipboardData?.getData('text/plain');
+    event.preventDefault();
+    if (this.editing && text) {
+      const { anchor, focus } = this.selection;
+      this.replace(Math.min(anchor, focus), Math.max(anchor, focus), text);
+    }
+  }
+
+  // Replace part of the edited text and put the caret after the new text
+  private replace(start: number, end: number, text: string, composing = false): void {
+    const node = this.editing;
+    if (!node) {
+      return;
+    }
+    spliceTextNode(node, start, end, text);
+    const caret = start + text.length;
+    this.selection = { anchor: caret, focus: caret };
+    this.onChange({ node, text: getTextNodeText(node), composing });
+  }
+
+  // Layout box of a text node of the source tree, and the node it was laid out for
+  private findBox(node = this.editing): { box: LayoutBox<TextNode>; source: TextNode } | undefined {
+    const layout = this.source.layout();
+    const box = node && layout ? findLayoutBox(layout, node) : undefined;
+    const source = box && getSourceNode(box.node);
+    if (!box || !source || !isTextNode(box.node) || !isTextNode(source)) {
+      return undefined;
+    }
+    return { box: { ...box, node: box.node }, source };
+  }
+
+  private measurer(): TextMeasurer | undefined {
+    const context = this.source.context();
+    return context && createFontTextMeasurer(context);
+  }
+
+  // World position on the root group to layout space, where the root box center is the origin
+  private toLayoutPoint(point: THREE.Vector3): Point | undefined {
+    const root = this.source.root();
+    const layout = this.source.layout();
+    if (!root || !layout) {
+      return undefined;
+    }
+    const local = root.worldToLocal(point.clone());
+    return {
+      x: layout.x + layout.width / 2 + local.x,
+      y: layout.y + layout.height / 2 - local.y,
+    };
+  }
+
+  private draw(measurer: TextMeasurer, box: LayoutBox<TextNode>, layout: LayoutBox): void {
+    clearOverlay(this.group);
+    const { anchor, focus } = this.selection;
+    const caret = textCaretRect(measurer, box, focus);
+    const textColor = box.node.style?.color ?? DEFAULT_TEXT_NODE_STYLE.color;
+    const selectionColor = this.source.context()?.theme?.colors.accent ?? DEFAULT_SELECTION_COLOR;
+
+    for (const rect of textSelectionRects(measurer, box, anchor, focus)) {
+      this.group.add(createOverlayRect(rect, layout, selectionColor, SELECTION_OPACITY));
+    }
+    if (this.composition) {
+      const { start, end } = this.composition;
+      for (const rect of textSelectionRects(measurer, box, start, end)) {
+        const thickness = rect.height * CARET_WIDTH;
+        const underline = { ...rect, y: rect.y + rect.height - thickness, height: thickness };
+        this.group.add(createOverlayRect(underline, layout, textColor));
+      }
+    }
+    const width = caret.height * CARET_WIDTH;
+    this.group.add(
+      createOverlayRect({ ...caret, x: caret.x - width / 2, width }, layout, textColor)
+    );
+  }
+
+  // Keep the textarea at the caret on screen, where IMEs open their candidate windows
+  private placeTextarea(measurer: TextMeasurer, box: LayoutBox<TextNode>): void {
+    const root = this.source.root();
+    const layout = this.source.layout();
+    if (!root || !layout) {
+      return;
+    }
+    const caret = textCaretRect(measurer, box, this.selection.focus);
+    const position = root
+      .localToWorld(toLocalPosition({ ...caret, height: 0, y: caret.y + caret.height }, layout))
+      .project(this.source.camera());
+    const rect = this.source.element.getBoundingClientRect();
+    this.textarea.style.left = `${rect.left + ((position.x + 1) / 2) * rect.width}px`;
+    this.textarea.style.top = `${rect.top + ((1 - position.y) / 2) * rect.height}px`;
+  }
+}
+
+function createHiddenTextarea(): HTMLTextAreaElement {
+  const textarea = document.createElement('textarea');
+  textarea.setAttribute('autocomplete', 'off');
+  textarea.setAttribute('autocapitalize', 'off');
+  textarea.spellcheck = false;
+  Object.assign(textarea.style, {
+    position: 'fixed',
+    width: '1px',
+    height: '1em',
+    padding: '0',
+    border: '0',
+    opacity: '0',
+    resize: 'none',
+    overflow: 'hidden',
+    pointerEvents: 'none',
+  });
+  return textarea;
+}
+
+function nearestStop(stops: CaretStop[], x: number): CaretStop | undefined {
+  return stops.reduce<CaretStop | undefined>(
+    (nearest, stop) =>
+      !nearest || Math.abs(stop.x - x) < Math.abs(nearest.x - x) ? stop : nearest,
+    undefined
+  );
+}
+
+// Stops of the line the caret is shown on; at a wrap, that is the later line
+function lineStops(lines: CaretStop[][], index: number): CaretStop[] {
+  return lines[lineIndex(lines, index)] ?? [{ index, x: 0 }];
+}
+
+function lineIndex(lines: CaretStop[][], index: number): number {
+  let found = 0;
+  lines.forEach((stops, line) => {
+    if (stops.length > 0 && stops[0].index <= index) {
+      found = line;
+    }
+  });
+  return found;
+}
+
+// Closest caret index before (-1) or after (1) the given one
+function neighbourIndex(lines: CaretStop[][], index: number, direction: -1 | 1): number {
+  const indices = lines.flat().map((stop) => stop.index);
+  const candidates = indices.filter((candidate) => (candidate - index) * direction > 0);
+  if (candidates.length === 0) {
+    return index;
+  }
+  return direction < 0 ? Math.max(...candidates) : Math.min(...candidates);
+}
+
+// Caret index on the line above (-1) or below (1), as close as possible to the caret's x
+// Moving past the first or last line goes to the start or end of the text
+function verticalIndex(lines: CaretStop[][], index: number, direction: -1 | 1): number {
+  const current = lineIndex(lines, index);
+  const target = lines[current + direction];
+  if (!target) {
+    const stops = lines.flat();
+    return direction < 0 ? (stops[0]?.index ?? index) : (stops[stops.length - 1]?.index ?? index);
+  }
+  const x = lines[current].filter((stop) => stop.index <= index).pop()?.x ?? lines[current][0].x;
+  return nearestStop(target, x)?.index ?? index;
+}
+
+function preservesNewlines(node: TextNode): boolean {
+  const whiteSpace = node.style?.whiteSpace ?? DEFAULT_TEXT_NODE_STYLE.whiteSpace;
+  return whiteSpace === 'pre' || whiteSpace === 'pre-wrap' || whiteSpace === 'pre-line';
+}
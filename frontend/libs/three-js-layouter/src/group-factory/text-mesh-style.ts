@@ -0,0 +1,68 @@
+import { getTextSpanStyle, getTextSpans, type TextNode } from '@kuumu/layouter/node';
+import { DEFAULT_TEXT_NODE_STYLE } from '@kuumu/layouter/style';
+import * as THREE from 'three';
+
+// Consecutive vertices (or instances) of a text mesh drawn with the style of one span
+export interface TextSpanRange {
+  span: number;
+  start: number;
+  count: number;
+}
+
+// Stored in the userData of text meshes so that colors can be changed without new geometry
+interface TextMeshData {
+  colorAttribute: string;
+  spanRanges: TextSpanRange[];
+}
+
+// Remember which attribute holds the span colors of a text mesh and paint it
+export function setTextSpanRanges(
+  mesh: THREE.Mesh,
+  node: TextNode,
+  colorAttribute: string,
+  spanRanges: TextSpanRange[]
+): void {
+  const data: TextMeshData = { colorAttribute, spanRanges };
+  mesh.userData.text = data;
+  paintTextSpans(mesh, node);
+}
+
+// Update span colors and opacity of an existing text mesh in place
+// Only valid when the node still lays out to the same runs as when the mesh was created
+export function updateTextMeshStyle(mesh: THREE.Mesh, node: TextNode): void {
+  paintTextSpans(mesh, node);
+
+  const opacity = node.style?.opacity ?? DEFAULT_TEXT_NODE_STYLE.opacity;
+  const material = mesh.material;
+  if (material instanceof THREE.ShaderMaterial) {
+    material.uniforms.opacity.value = opacity;
+  } else if (material instanceof THREE.MeshBasicMaterial) {
+    material.opacity = opacity;
+    if (material.transparent !== opacity < 1.0) {
+      material.transparent = opacity < 1.0;
+      material.needsUpdate = true;
+    }
+  }
+}
+
+function paintTextSpans(mesh: THREE.Mesh, node: TextNode): void {
+  const data = mesh.userData.text as TextMeshData | undefined;
+  if (!data) {
+    return;
+  }
+  const attribute = mesh.geometry.getAttribute(data.colorAttribute);
+  if (!(attribute instanceof THREE.BufferAttribute)) {
+    return;
+  }
+
+  const spans = getTextSpans(node);
+  const color = new THREE.Color();
+  for (const range of data.spanRanges) {
+    const style = getTextSpanStyle(node, spans[range.span]);
+    color.set(style.color ?? DEFAULT_TEXT_NODE_STYLE.color);
+    for (let index = range.start; index < range.start + range.count; index++) {
+      attribute.setXYZ(index, color.r, color.g, color.b);
+    }
+  }
+  attribute.needsUpdate = true;
+}
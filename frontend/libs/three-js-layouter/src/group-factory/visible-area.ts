@@ -0,0 +1,89 @@
+import type { LayoutBox, Rect } from '@kuumu/layouter/layout';
+import * as THREE from 'three';
+
+// Corners of the view in normalized device coordinates
+const VIEW_CORNERS = [
+  [-1, -1],
+  [1, -1],
+  [1, 1],
+  [-1, 1],
+] as const;
+
+// Part of the layout the camera sees, in layout space
+// The layout lies in the z = 0 plane of the root group, whose origin is the root box center
+// Returns undefined when a corner of the view misses that plane, e.g. a perspective camera looking
+// past its horizon, in which case there is no bounded area to limit anything to
+export function computeVisibleArea(
+  camera: THREE.Camera,
+  root: THREE.Object3D,
+  layout: LayoutBox
+): Rect | undefined {
+  camera.updateMatrixWorld();
+  root.updateWorldMatrix(true, false);
+  const toRoot = root.matrixWorld.clone().invert();
+  const plane = new THREE.Plane(new THREE.Vector3(0, 0, 1), 0);
+
+  const points: THREE.Vector3[] = [];
+  for (const [x, y] of VIEW_CORNERS) {
+    // Segment from the near to the far plane, in the space of the root group
+    const segment = new THREE.Line3(
+      new THREE.Vector3(x, y, -1).unproject(camera).applyMatrix4(toRoot),
+      new THREE.Vector3(x, y, 1).unproject(camera).applyMatrix4(toRoot)
+    );
+    const point = plane.intersectLine(segment, new THREE.Vector3());
+    if (!point) {
+      return undefined;
+    }
+    points.push(point);
+  }
+
+  const bounds = new THREE.Box2().setFromPoints(
+    points.map((point) => new THREE.Vector2(point.x, point.y))
+  );
+  const centerX = layout.x + layout.width / 2;
+  const centerY = layout.y + layout.height / 2;
+  return {
+    x: centerX + bounds.min.x,
+    y: centerY - bounds.max.y,
+    width: bounds.max.x - bounds.min.x,
+    height: bounds.max.y - bounds.min.y,
+  };
+}
+
+// Grow a rect by a fraction of its size on every side
+export function expandRect(rect: Rect, fraction: number): Rect {
+  const dx = rect.width * fraction;
+  const dy = rect.height * fraction;
+  return {
+    x: rect.x - dx,
+    y: rect.y - dy,
+    width: rect.width + 2 * dx,
+    height: rect.height + 2 * dy,
+  };
+}
+
+// Whether two rects overlap with a positive area
+export function intersectsRect(a: Rect, b: Rect): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+export function containsRect(outer: Rect, inner: Rect): boolean {
+  return (
+    inner.x >= outer.x &&
+    inner.y >= outer.y &&
+    inner.x + inner.width <= outer.x + outer.width &&
+    inner.y + inner.height <= outer.y + outer.height
+  );
+}
+
+// Overlap of two rects, empty (zero-sized) when they do not overlap
+export function intersectRect(a: Rect, b: Rect): Rect {
+  const x = Math.max(a.x, b.x);
+  const y = Math.max(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(0, Math.min(a.x + a.width, b.x + b.width) - x),
+    height: Math.max(0, Math.min(a.y + a.height, b.y + b.height) - y),
+  };
+}